@@ -0,0 +1,340 @@
+/**
+ * Proxy API Client Generator
+ * Generates src/services/generated/proxy-api.ts from the backend OpenAPI spec
+ *
+ * Usage:
+ *   node scripts/generate-api-client.mjs          Write the generated client
+ *   node scripts/generate-api-client.mjs --check  Exit non-zero when the committed client has drifted from the spec
+ */
+
+import { createHash } from 'node:crypto';
+import { readFileSync, writeFileSync, mkdirSync, existsSync } from 'node:fs';
+import { dirname, resolve, relative } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const ROOT = resolve(dirname(fileURLToPath(import.meta.url)), '..');
+const SPEC_PATH = resolve(ROOT, 'architecture/backend-spec/openapi.json');
+const OUTPUT_PATH = resolve(ROOT, 'src/services/generated/proxy-api.ts');
+
+// =============================================================================
+// Naming Helpers
+// =============================================================================
+
+function camelCase(value) {
+  return value
+    .replace(/[^a-zA-Z0-9]+(.)?/g, (_, char) => (char ? char.toUpperCase() : ''))
+    .replace(/^[A-Z]/, char => char.toLowerCase());
+}
+
+function typeName(ref) {
+  return ref.split('/').pop().replace(/[^a-zA-Z0-9_]/g, '_');
+}
+
+function literal(value) {
+  return typeof value === 'string' ? `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'` : JSON.stringify(value);
+}
+
+function propertyKey(name) {
+  return /^[a-zA-Z_$][a-zA-Z0-9_$]*$/.test(name) ? name : `'${name}'`;
+}
+
+/**
+ * FastAPI operation IDs are `<function>_<sanitized path>_<method>`; keep only the function name
+ */
+function methodName(operation, path, method) {
+  const suffix = `${path.replace(/[^a-zA-Z0-9]/g, '_')}_${method}`;
+  const id = operation.operationId ?? `${method}${path}`;
+  const base = id.endsWith(suffix) ? id.slice(0, -suffix.length) : id;
+  return camelCase(base.replace(/_+$/, '')) || camelCase(id);
+}
+
+/**
+ * First paragraph of a description, on one line, safe inside a block comment
+ */
+function summarize(text) {
+  if (!text) return '';
+  return text.split(/\n\s*\n/)[0].replace(/\s+/g, ' ').replace(/\*\//g, '* /').trim();
+}
+
+// =============================================================================
+// Type Rendering
+// =============================================================================
+
+function renderType(schema, indent = '') {
+  if (!schema || Object.keys(schema).length === 0) return 'unknown';
+  if (schema.$ref) return typeName(schema.$ref);
+
+  if (schema.anyOf || schema.oneOf) {
+    const members = [...new Set((schema.anyOf ?? schema.oneOf).map(member => renderType(member, indent)))];
+    return members.join(' | ');
+  }
+  if (schema.allOf) {
+    return schema.allOf.map(member => renderType(member, indent)).join(' & ');
+  }
+  if (schema.enum) {
+    return schema.enum.map(literal).join(' | ');
+  }
+  if (schema.const !== undefined) return literal(schema.const);
+
+  switch (schema.type) {
+    case 'string':
+      return 'string';
+    case 'integer':
+    case 'number':
+      return 'number';
+    case 'boolean':
+      return 'boolean';
+    case 'null':
+      return 'null';
+    case 'array': {
+      const item = renderType(schema.items, indent);
+      return /[|&\s]/.test(item) ? `Array<${item}>` : `${item}[]`;
+    }
+    case 'object':
+    default:
+      return renderObject(schema, indent);
+  }
+}
+
+function renderObject(schema, indent) {
+  const properties = Object.entries(schema.properties ?? {});
+  const required = new Set(schema.required ?? []);
+  const extra = schema.additionalProperties;
+
+  if (properties.length === 0) {
+    if (extra && typeof extra === 'object') return `Record<string, ${renderType(extra, indent)}>`;
+    return 'Record<string, unknown>';
+  }
+
+  const inner = `${indent}  `;
+  const lines = properties.map(([name, property]) => {
+    const doc = summarize(property.description ?? property.title);
+    const optional = required.has(name) ? '' : '?';
+    return `${doc ? `${inner}/** ${doc} */\n` : ''}${inner}${propertyKey(name)}${optional}: ${renderType(property, inner)};`;
+  });
+  if (extra) {
+    lines.push(`${inner}[key: string]: ${extra === true ? 'unknown' : renderType(extra, inner)};`);
+  }
+
+  return `{\n${lines.join('\n')}\n${indent}}`;
+}
+
+function renderSchema(name, schema) {
+  const doc = summarize(schema.description ?? schema.title);
+  const header = `/**\n * ${doc || name}\n */\n`;
+
+  if (schema.type === 'object' || schema.properties) {
+    return `${header}export interface ${name} ${renderObject(schema, '')}`;
+  }
+  return `${header}export type ${name} = ${renderType(schema)};`;
+}
+
+// =============================================================================
+// Operation Rendering
+// =============================================================================
+
+function collectOperations(spec) {
+  const operations = [];
+
+  for (const [path, item] of Object.entries(spec.paths)) {
+    for (const [method, operation] of Object.entries(item)) {
+      if (!['get', 'post', 'put', 'patch', 'delete'].includes(method)) continue;
+
+      const parameters = [...(item.parameters ?? []), ...(operation.parameters ?? [])];
+      const success = Object.entries(operation.responses ?? {})
+        .find(([status]) => status.startsWith('2'))?.[1];
+
+      operations.push({
+        name: methodName(operation, path, method),
+        operationId: operation.operationId,
+        method: method.toUpperCase(),
+        path,
+        tag: operation.tags?.[0] ?? 'general',
+        summary: operation.summary ?? '',
+        pathParams: parameters.filter(parameter => parameter.in === 'path'),
+        queryParams: parameters.filter(parameter => parameter.in === 'query'),
+        body: operation.requestBody?.content?.['application/json']?.schema,
+        bodyRequired: operation.requestBody?.required ?? false,
+        response: success?.content?.['application/json']?.schema
+      });
+    }
+  }
+
+  const seen = new Map();
+  for (const operation of operations) {
+    if (seen.has(operation.name)) {
+      throw new Error(`Duplicate method name "${operation.name}" for ${operation.operationId} and ${seen.get(operation.name)}`);
+    }
+    seen.set(operation.name, operation.operationId);
+  }
+
+  return operations;
+}
+
+function renderOperation(operation) {
+  const args = operation.pathParams.map(parameter =>
+    `${camelCase(parameter.name)}: ${renderType(parameter.schema)}`
+  );
+  if (operation.body) {
+    args.push(`data${operation.bodyRequired ? '' : '?'}: ${renderType(operation.body, '    ')}`);
+  }
+  if (operation.queryParams.length > 0) {
+    const query = operation.queryParams.map(parameter =>
+      `${propertyKey(parameter.name)}${parameter.required ? '' : '?'}: ${renderType(parameter.schema)}`
+    );
+    const anyRequired = operation.queryParams.some(parameter => parameter.required);
+    args.push(`params${anyRequired ? '' : '?'}: { ${query.join('; ')} }`);
+  }
+  args.push('config?: RequestOptions');
+
+  const url = operation.path.replace(/\{([^}]+)\}/g, (_, name) => `\${encodeURIComponent(String(${camelCase(name)}))}`);
+  const typed = operation.response && Object.keys(operation.response).length > 0;
+  const generic = typed ? '' : '<TResponse = unknown>';
+  const responseType = typed ? renderType(operation.response, '    ') : 'TResponse';
+
+  const request = [
+    `url: \`${url}\``,
+    `method: '${operation.method}'`,
+    operation.body ? 'data' : null,
+    operation.queryParams.length > 0 ? 'params' : null,
+    '...config'
+  ].filter(Boolean);
+
+  return [
+    '  /**',
+    `   * ${operation.summary || operation.name}`,
+    `   * ${operation.method} ${operation.path}${typed ? '' : ' (response is not described by the spec)'}`,
+    '   */',
+    `  ${operation.name}${generic}(${args.join(', ')}): Promise<ApiResponse<${responseType}>> {`,
+    `    return this.client.request<${responseType}>({`,
+    request.map(line => `      ${line}`).join(',\n'),
+    '    });',
+    '  }'
+  ].join('\n');
+}
+
+// =============================================================================
+// Generation
+// =============================================================================
+
+function generate(specSource) {
+  const spec = JSON.parse(specSource);
+  const hash = createHash('sha256').update(JSON.stringify(spec)).digest('hex').slice(0, 16);
+  const operations = collectOperations(spec);
+  const schemas = Object.entries(spec.components?.schemas ?? {})
+    .map(([name, schema]) => renderSchema(typeName(name), schema));
+
+  const byTag = new Map();
+  for (const operation of operations) {
+    byTag.set(operation.tag, [...(byTag.get(operation.tag) ?? []), operation]);
+  }
+  const methods = Array.from(byTag.entries()).map(([tag, tagged]) => [
+    '  // ---------------------------------------------------------------------------',
+    `  // ${tag}`,
+    '  // ---------------------------------------------------------------------------',
+    '',
+    tagged.map(renderOperation).join('\n\n')
+  ].join('\n'));
+
+  const manifest = operations.map(operation =>
+    `  { name: '${operation.name}', method: '${operation.method}', path: '${operation.path}', tag: '${operation.tag}' }`
+  );
+
+  return `/**
+ * ${spec.info.title} API Client
+ * Generated from ${relative(ROOT, SPEC_PATH)} by scripts/generate-api-client.mjs - do not edit by hand.
+ * Run \`npm run generate:api\` after changing the spec; \`npm run check:api\` fails when this file is out of date.
+ */
+
+import type { ApiRequestConfig, ApiResponse, HttpClient, HttpMethod } from '../../types/api';
+
+// =============================================================================
+// Spec Information
+// =============================================================================
+
+export const PROXY_API_VERSION = '${spec.info.version}';
+export const PROXY_API_SPEC_HASH = '${hash}';
+
+// =============================================================================
+// Schemas
+// =============================================================================
+
+${schemas.join('\n\n')}
+
+// =============================================================================
+// Operations
+// =============================================================================
+
+/**
+ * Per-call request options; URL, method and body come from the operation
+ */
+export type RequestOptions = Partial<Omit<ApiRequestConfig, 'url' | 'method' | 'data'>>;
+
+export interface ProxyApiOperation {
+  name: keyof ProxyApi;
+  method: HttpMethod;
+  path: string;
+  tag: string;
+}
+
+/**
+ * Every operation in the spec, for tooling such as the mock backend
+ */
+export const PROXY_API_OPERATIONS: ProxyApiOperation[] = [
+${manifest.join(',\n')}
+];
+
+/**
+ * Typed wrappers for every proxy endpoint, sent through the given client; only its request method is used
+ */
+export class ProxyApi {
+  constructor(private readonly client: Pick<HttpClient, 'request'>) {}
+
+${methods.join('\n\n')}
+}
+
+// =============================================================================
+// Default Export
+// =============================================================================
+
+export default ProxyApi;
+`;
+}
+
+// =============================================================================
+// Entry Point
+// =============================================================================
+
+function operationNames(source) {
+  return new Set(Array.from(source.matchAll(/\{ name: '([^']+)', method: '([A-Z]+)', path: '([^']+)'/g))
+    .map(([, name, method, path]) => `${name} (${method} ${path})`));
+}
+
+const generated = generate(readFileSync(SPEC_PATH, 'utf8'));
+const target = relative(ROOT, OUTPUT_PATH);
+
+if (process.argv.includes('--check')) {
+  const current = existsSync(OUTPUT_PATH) ? readFileSync(OUTPUT_PATH, 'utf8') : '';
+
+  if (current === generated) {
+    console.log(`${target} is up to date with the spec.`);
+  } else {
+    const before = operationNames(current);
+    const after = operationNames(generated);
+    const added = [...after].filter(name => !before.has(name));
+    const removed = [...before].filter(name => !after.has(name));
+
+    console.error(`${target} is out of date with ${relative(ROOT, SPEC_PATH)}.`);
+    added.forEach(name => console.error(`  + ${name}`));
+    removed.forEach(name => console.error(`  - ${name}`));
+    if (added.length === 0 && removed.length === 0) {
+      console.error('  Schemas or operation signatures changed.');
+    }
+    console.error('Run `npm run generate:api` and review the changes.');
+    process.exit(1);
+  }
+} else {
+  mkdirSync(dirname(OUTPUT_PATH), { recursive: true });
+  writeFileSync(OUTPUT_PATH, generated);
+  console.log(`Wrote ${target}`);
+}
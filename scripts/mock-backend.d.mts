@@ -0,0 +1,34 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type { Plugin } from 'vite';
+
+export interface MockFailureRule {
+  method?: string;
+  /** Request path, `*` matches any characters */
+  path?: string;
+  /** Status to respond with; 0 drops the connection */
+  status?: number;
+  /** Number of requests to fail before the rule expires */
+  times?: number;
+  /** Chance (0-1) that a matching request fails */
+  probability?: number;
+  /** Extra latency in milliseconds */
+  delay?: number;
+  message?: string;
+}
+
+export interface MockBackendOptions {
+  specPath?: string;
+  failures?: MockFailureRule[];
+  /** Latency added to every request, in milliseconds */
+  latency?: number;
+}
+
+export interface MockBackend {
+  handle(req: IncomingMessage, res: ServerResponse, next?: () => void): Promise<void>;
+  reset(): void;
+  setFailures(rules: MockFailureRule[]): void;
+  readonly state: Record<string, unknown>;
+}
+
+export function createMockBackend(options?: MockBackendOptions): MockBackend;
+export function mockBackendPlugin(options?: MockBackendOptions): Plugin;
@@ -0,0 +1,505 @@
+/**
+ * Mock Proxy Backend
+ * Local stand-in for the DSS Transformation Proxy, built from the backend OpenAPI spec
+ *
+ * Usage:
+ *   npm run dev:mock                     Vite dev server with the mock mounted as middleware
+ *   npm run mock:api -- --port 8000      Standalone server
+ *
+ * Every path in the spec is served. dbt collections (projects, repositories, environments, ...), GitHub repos,
+ * provisioned Snowflake databases and PIMS entitlements are stateful; other endpoints answer with fixtures
+ * generated from their schemas. GitHub reads and `verify-database` answer 404 for anything not created here;
+ * each provisioned database can be read as its config file in the ShellCreator repository.
+ * Request bodies are checked for the spec's required fields and rejected with FastAPI-style 422s.
+ *
+ * Failure injection:
+ *   - Rules from `MOCK_BACKEND_FAILURES` (JSON array) or `PUT /__mock/failures`, e.g.
+ *     [{ "method": "POST", "path": "/api/v1/admin/pims/entitlements", "status": 503, "times": 2 }]
+ *     `path` may contain `*` wildcards
+ *     `status: 0` drops the connection; `probability` (0-1) makes a rule intermittent; `delay` adds latency
+ *   - An `X-Mock-Fail: <status>` request header fails that request only
+ *
+ * Control endpoints: `GET /__mock/state`, `POST /__mock/reset`, `GET|PUT /__mock/failures`
+ */
+
+import { readFileSync } from 'node:fs';
+import { createServer } from 'node:http';
+import { dirname, resolve } from 'node:path';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+
+const ROOT = resolve(dirname(fileURLToPath(import.meta.url)), '..');
+const DEFAULT_SPEC_PATH = resolve(ROOT, 'architecture/backend-spec/openapi.json');
+const CONTROL_PREFIX = '/__mock';
+const INFRA_CONFIG_REPO = 'snowflake-shell-configs-data-core-platform';
+
+// =============================================================================
+// Spec Helpers
+// =============================================================================
+
+function resolveRef(spec, schema) {
+  if (!schema?.$ref) return schema;
+  return resolveRef(spec, schema.$ref.split('/').slice(1).reduce((node, key) => node?.[key], spec));
+}
+
+/**
+ * Build a value that satisfies the schema: required properties, defaults and the first enum value
+ */
+function fixtureFor(spec, schema, name = 'value', depth = 0) {
+  schema = resolveRef(spec, schema);
+  if (!schema || depth > 6) return null;
+  if (schema.default !== undefined) return schema.default;
+  if (schema.enum) return schema.enum[0];
+  if (schema.anyOf || schema.oneOf) {
+    const options = schema.anyOf ?? schema.oneOf;
+    return fixtureFor(spec, options.find(option => option.type !== 'null') ?? options[0], name, depth + 1);
+  }
+
+  switch (schema.type) {
+    case 'string':
+      return schema.format === 'date-time' ? new Date().toISOString() : `mock-${name}`;
+    case 'integer':
+    case 'number':
+      return 1;
+    case 'boolean':
+      return false;
+    case 'array':
+      return [fixtureFor(spec, schema.items, name, depth + 1)];
+    case 'object':
+    default: {
+      const result = {};
+      for (const [key, property] of Object.entries(schema.properties ?? {})) {
+        if ((schema.required ?? []).includes(key) || resolveRef(spec, property)?.default !== undefined) {
+          result[key] = fixtureFor(spec, property, key, depth + 1);
+        }
+      }
+      return result;
+    }
+  }
+}
+
+/**
+ * FastAPI-style validation errors for missing required body fields
+ */
+function validateBody(spec, schema, body) {
+  schema = resolveRef(spec, schema);
+  if (!schema) return [];
+  if (body === undefined || body === null || typeof body !== 'object') {
+    return [{ loc: ['body'], msg: 'Field required', type: 'missing' }];
+  }
+
+  return (schema.required ?? [])
+    .filter(field => body[field] === undefined)
+    .map(field => ({ loc: ['body', field], msg: 'Field required', type: 'missing' }));
+}
+
+function compileRoutes(spec) {
+  const routes = [];
+
+  for (const [path, item] of Object.entries(spec.paths)) {
+    for (const [method, operation] of Object.entries(item)) {
+      const params = [];
+      const pattern = path.replace(/[.*+?^$()|[\]\\]/g, '\\$&').replace(/\{([^}]+)\}/g, (_, name) => {
+        params.push(name);
+        return '([^/]+)';
+      });
+
+      routes.push({
+        path,
+        method: method.toUpperCase(),
+        operation,
+        params,
+        regex: new RegExp(`^${pattern}$`)
+      });
+    }
+  }
+
+  // Static segments win over parameters, e.g. `/runs/run_summaries` over `/runs/{run_id}`
+  return routes.sort((a, b) => a.params.length - b.params.length);
+}
+
+function globToRegex(glob) {
+  return new RegExp(`^${glob.split('*').map(part => part.replace(/[.+?^$()|[\]\\{}]/g, '\\$&')).join('[^?]*')}$`);
+}
+
+// =============================================================================
+// Responses
+// =============================================================================
+
+/** dbt Cloud responses are wrapped in `{ status, data }` envelopes */
+function dbtEnvelope(code, data, userMessage) {
+  return {
+    status: { code, is_success: code < 400, user_message: userMessage ?? null, developer_message: null },
+    data
+  };
+}
+
+function repoNotFound(repo) {
+  return { status: 404, body: { detail: `Repository ${repo} not found` } };
+}
+
+/**
+ * Path of a database's config file in the ShellCreator repository, e.g. `qa/it/database/sales_db.yaml`
+ */
+function databaseConfigPath(environment, businessArea, name) {
+  return `${environment.toLowerCase()}/${businessArea}/database/${name.toLowerCase()}.yaml`;
+}
+
+function sendJson(res, status, body, headers = {}) {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(body === undefined ? '' : JSON.stringify(body));
+}
+
+function readBody(req) {
+  return new Promise((resolvePromise, reject) => {
+    const chunks = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => {
+      const raw = Buffer.concat(chunks).toString('utf8');
+      if (!raw) return resolvePromise(undefined);
+      try {
+        resolvePromise(JSON.parse(raw));
+      } catch {
+        resolvePromise(raw);
+      }
+    });
+    req.on('error', reject);
+  });
+}
+
+const sleep = ms => new Promise(resolvePromise => setTimeout(resolvePromise, ms));
+
+// =============================================================================
+// Mock Backend
+// =============================================================================
+
+/**
+ * Create the mock backend
+ * @param {{ specPath?: string, failures?: object[], latency?: number }} options
+ * @returns Connect-style handler plus state and failure controls
+ */
+export function createMockBackend(options = {}) {
+  const spec = JSON.parse(readFileSync(options.specPath ?? DEFAULT_SPEC_PATH, 'utf8'));
+  const routes = compileRoutes(spec);
+  const latency = options.latency ?? 0;
+
+  let failures = [];
+  let state;
+
+  function reset() {
+    state = {
+      nextId: 1000,
+      /** dbt resources keyed by collection path, e.g. `/api/v1/dbt/projects/1000/environments` */
+      collections: {},
+      githubRepos: {},
+      /** Provisioned databases keyed by environment, e.g. `{ QA: [{ name: 'SALES_DB', businessArea: 'it' }] }` */
+      databases: {},
+      entitlements: []
+    };
+  }
+
+  function setFailures(rules) {
+    failures = (Array.isArray(rules) ? rules : []).map(rule => ({
+      ...rule,
+      remaining: rule.times ?? Infinity,
+      regex: globToRegex(rule.path ?? '*')
+    }));
+  }
+
+  function collection(key) {
+    state.collections[key] ??= {};
+    return state.collections[key];
+  }
+
+  function createRecord(key, body) {
+    const now = new Date().toISOString();
+    const record = { id: state.nextId++, ...body, state: 1, created_at: now, updated_at: now };
+    collection(key)[record.id] = record;
+    return record;
+  }
+
+  function matchFailure(method, path) {
+    const rule = failures.find(candidate =>
+      candidate.remaining > 0 &&
+      (!candidate.method || candidate.method.toUpperCase() === method) &&
+      candidate.regex.test(path) &&
+      (candidate.probability === undefined || Math.random() < candidate.probability)
+    );
+    if (rule) rule.remaining--;
+    return rule;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Endpoint Handlers
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Endpoints with behaviour beyond a generic fixture, keyed by `METHOD path`
+   */
+  const handlers = {
+    'GET /api/v1/auth/login': () => ({ status: 307, headers: { Location: '/' } }),
+    'GET /api/v1/auth/logout': () => ({ status: 307, headers: { Location: '/' } }),
+    'GET /api/v1/auth/me': () => ({
+      status: 200,
+      body: { id: 'mock-user', email: 'developer@example.com', roles: ['admin'], is_admin: true }
+    }),
+
+    'POST /api/v1/admin/github/create-repo': ({ body }) => {
+      if (state.githubRepos[body.repo]) {
+        return { status: 400, body: { detail: `Repository ${body.repo} already exists` } };
+      }
+      const repo = { name: body.repo, full_name: `mock-org/${body.repo}`, html_url: `https://github.com/mock-org/${body.repo}` };
+      state.githubRepos[body.repo] = repo;
+      return { status: 200, body: { status: 'success', data: repo } };
+    },
+
+    'POST /api/v1/admin/github/get-branches': ({ body }) => {
+      if (!state.githubRepos[body.repo]) return repoNotFound(body.repo);
+      return { status: 200, body: { status: 'success', data: [{ name: 'main', protected: false }] } };
+    },
+
+    'POST /api/v1/admin/github/get-branch': ({ body }) => {
+      if (!state.githubRepos[body.repo]) return repoNotFound(body.repo);
+      if (body.branch !== 'main') return { status: 404, body: { detail: `Branch ${body.branch} not found` } };
+      return { status: 200, body: { status: 'success', data: { name: 'main', protected: false } } };
+    },
+
+    'POST /api/v1/admin/github/read-file': ({ body }) => {
+      if (body.repo === INFRA_CONFIG_REPO) {
+        const database = Object.entries(state.databases)
+          .flatMap(([environment, databases]) => databases.map(entry => ({ environment, ...entry })))
+          .find(entry => databaseConfigPath(entry.environment, entry.businessArea, entry.name) === body.file_name);
+        if (database) {
+          return {
+            status: 200,
+            body: { status: 'success', data: `name: ${database.name}\nbusiness_area: ${database.businessArea}\n` }
+          };
+        }
+      } else if (!state.githubRepos[body.repo]) {
+        return repoNotFound(body.repo);
+      }
+      return { status: 404, body: { detail: `File ${body.file_name} not found in ${body.repo}` } };
+    },
+
+    'POST /api/v1/admin/dbt/github-project': ({ body }) => {
+      const projects = Object.values(collection('/api/v1/dbt/projects'));
+      if (projects.some(project => project.name === body.project_name)) {
+        return { status: 400, body: dbtEnvelope(400, null, `Project ${body.project_name} already exists`) };
+      }
+      const project = createRecord('/api/v1/dbt/projects', { name: body.project_name });
+      const repository = createRecord(`/api/v1/dbt/projects/${project.id}/repositories`, {
+        project_id: project.id,
+        remote_url: `git@github.com:mock-org/${body.project_name}.git`,
+        git_clone_strategy: 'github_app'
+      });
+      project.repository_id = repository.id;
+      return { status: 200, body: dbtEnvelope(200, project) };
+    },
+
+    'POST /api/v1/admin/datacloud/provision-infra': ({ body }) => {
+      if (body.object_type === 'database' && body.object_name && body.action !== 'plan') {
+        const name = body.object_name.toUpperCase();
+        const databases = (state.databases[body.environment] ?? []).filter(entry => entry.name !== name);
+        if (body.action === 'apply') databases.push({ name, businessArea: body.business_area });
+        state.databases[body.environment] = databases;
+      }
+      return {
+        status: 200,
+        body: {
+          status: 'success',
+          message: `${body.action} ${body.object_type} ${body.object_name ?? ''} in ${body.environment}`.trim(),
+          details: { dry_run: body.action === 'plan' && !body.override_dry_run }
+        }
+      };
+    },
+
+    'POST /api/v1/admin/snowflake/verify-database': ({ body }) => {
+      const database = body.database_details.database;
+      if (!(state.databases[body.env] ?? []).some(entry => entry.name === database.toUpperCase())) {
+        return { status: 404, body: { detail: `Database ${database} does not exist in ${body.env}` } };
+      }
+      return { status: 200, body: { status: 'success', message: `Database ${database} verified in ${body.env}` } };
+    },
+
+    'POST /api/v1/admin/pims/entitlements': ({ body }) => {
+      state.entitlements.push({ ...body, created_at: new Date().toISOString() });
+      return {
+        status: 200,
+        body: { status: 'success', message: `Entitlements created for ${body.project_name}`, details: [] }
+      };
+    }
+  };
+
+  const routePaths = new Set(routes.map(route => route.path.replace(/\/$/, '')));
+
+  /**
+   * Stateful create/list/read/update/delete for dbt resources
+   * `.../things/` is a collection; `.../things/{id}` (with or without a trailing slash) is an item of it
+   * Other dbt paths, such as `/runs/{run_id}/cancel`, fall through to fixtures
+   */
+  function handleDbtResource(route, method, path, body) {
+    const trimmed = path.replace(/\/$/, '');
+    const isCollection = route.path.endsWith('/') && !route.path.endsWith('}/');
+    const isItem = /\{[^}]+\}\/?$/.test(route.path) &&
+      routePaths.has(route.path.replace(/\/?\{[^}]+\}\/?$/, ''));
+
+    if (!isCollection && !isItem) return null;
+
+    if (isCollection) {
+      const records = collection(trimmed);
+      if (method === 'GET') return { status: 200, body: dbtEnvelope(200, Object.values(records)) };
+      if (method === 'POST') return { status: 201, body: dbtEnvelope(201, createRecord(trimmed, body ?? {})) };
+      return null;
+    }
+
+    const separator = trimmed.lastIndexOf('/');
+    const records = collection(trimmed.slice(0, separator));
+    const id = trimmed.slice(separator + 1);
+    const record = records[id];
+
+    if (!record) {
+      return { status: 404, body: dbtEnvelope(404, null, `Resource ${id} was not found`) };
+    }
+    if (method === 'GET') return { status: 200, body: dbtEnvelope(200, record) };
+    if (method === 'POST') {
+      Object.assign(record, body ?? {}, { id: record.id, updated_at: new Date().toISOString() });
+      return { status: 200, body: dbtEnvelope(200, record) };
+    }
+    if (method === 'DELETE') {
+      delete records[id];
+      return { status: 200, body: dbtEnvelope(200, { ...record, state: 2 }) };
+    }
+    return null;
+  }
+
+  function handleOperation(route, method, path, body) {
+    const custom = handlers[`${method} ${route.path}`];
+    if (custom) return custom({ body: body ?? {} });
+
+    if (route.path.startsWith('/api/v1/dbt/') && !route.path.includes('/artifacts/')) {
+      const result = handleDbtResource(route, method, path, body);
+      if (result) return result;
+    }
+
+    const schema = route.operation.responses?.['200']?.content?.['application/json']?.schema;
+    if (schema && Object.keys(schema).length > 0) {
+      return { status: 200, body: fixtureFor(spec, schema) };
+    }
+    return { status: 200, body: { status: 'success', message: `${route.operation.summary ?? route.path} (mock)` } };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Control Endpoints
+  // ---------------------------------------------------------------------------
+
+  async function handleControl(req, res, path) {
+    if (path === `${CONTROL_PREFIX}/state` && req.method === 'GET') {
+      return sendJson(res, 200, state);
+    }
+    if (path === `${CONTROL_PREFIX}/reset` && req.method === 'POST') {
+      reset();
+      return sendJson(res, 200, { status: 'reset' });
+    }
+    if (path === `${CONTROL_PREFIX}/failures`) {
+      if (req.method === 'PUT') setFailures(await readBody(req));
+      return sendJson(res, 200, failures.map(({ regex, ...rule }) => rule));
+    }
+    return sendJson(res, 404, { detail: 'Unknown mock control endpoint' });
+  }
+
+  // ---------------------------------------------------------------------------
+  // Request Handler
+  // ---------------------------------------------------------------------------
+
+  async function handle(req, res, next) {
+    const path = new URL(req.url, 'http://localhost').pathname;
+    const method = req.method.toUpperCase();
+
+    if (path.startsWith(CONTROL_PREFIX)) return handleControl(req, res, path);
+
+    const candidates = routes.filter(route => route.regex.test(path));
+    if (candidates.length === 0) {
+      return next ? next() : sendJson(res, 404, { detail: 'Not Found' });
+    }
+    const route = candidates.find(candidate => candidate.method === method);
+    if (!route) return sendJson(res, 405, { detail: 'Method Not Allowed' });
+
+    const body = await readBody(req);
+    const forced = Number(req.headers['x-mock-fail']);
+    const failure = forced ? { status: forced } : matchFailure(method, path);
+    const delay = latency + (failure?.delay ?? 0);
+    if (delay > 0) await sleep(delay);
+
+    if (failure && failure.status !== undefined) {
+      console.log(`[mock-backend] ${method} ${path} -> injected ${failure.status || 'connection drop'}`);
+      if (failure.status === 0) return req.socket.destroy();
+      return sendJson(res, failure.status, {
+        detail: failure.message ?? `Injected failure (${failure.status})`
+      });
+    }
+
+    const schema = route.operation.requestBody?.content?.['application/json']?.schema;
+    if (schema) {
+      const errors = validateBody(spec, schema, body);
+      if (errors.length > 0) {
+        console.log(`[mock-backend] ${method} ${path} -> 422`);
+        return sendJson(res, 422, { detail: errors });
+      }
+    }
+
+    const result = handleOperation(route, method, path, body);
+    console.log(`[mock-backend] ${method} ${path} -> ${result.status}`);
+    return sendJson(res, result.status, result.status === 307 ? undefined : result.body, result.headers);
+  }
+
+  reset();
+  setFailures(options.failures ?? (process.env.MOCK_BACKEND_FAILURES ? JSON.parse(process.env.MOCK_BACKEND_FAILURES) : []));
+
+  return {
+    handle,
+    reset,
+    setFailures,
+    get state() {
+      return state;
+    }
+  };
+}
+
+/**
+ * Vite plugin mounting the mock backend on the dev server when run with `--mode mock`
+ */
+export function mockBackendPlugin(options = {}) {
+  return {
+    name: 'dss-mock-backend',
+    apply: 'serve',
+    configureServer(server) {
+      if (server.config.mode !== 'mock') return;
+
+      const backend = createMockBackend(options);
+      server.middlewares.use((req, res, next) => {
+        // Page loads belong to the app, even where the spec has a route (e.g. `GET /`)
+        if (req.headers.accept?.includes('text/html')) return next();
+        backend.handle(req, res, next).catch(next);
+      });
+      server.config.logger.info('  Mock proxy backend enabled (see scripts/mock-backend.mjs)');
+    }
+  };
+}
+
+// =============================================================================
+// Entry Point
+// =============================================================================
+
+if (import.meta.url === pathToFileURL(process.argv[1] ?? '').href) {
+  const portIndex = process.argv.indexOf('--port');
+  const port = portIndex > -1 ? Number(process.argv[portIndex + 1]) : 8000;
+  const backend = createMockBackend();
+
+  createServer((req, res) => {
+    backend.handle(req, res).catch(error => {
+      console.error('[mock-backend]', error);
+      sendJson(res, 500, { detail: 'Mock backend error' });
+    });
+  }).listen(port, () => {
+    console.log(`Mock proxy backend listening on http://localhost:${port}`);
+  });
+}
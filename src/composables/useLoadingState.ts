@@ -0,0 +1,63 @@
+import { computed } from 'vue';
+import { apiClient } from '../services/api-client';
+import type { ReactiveLoadingManager } from '../services/loading-state';
+import type {
+  LoadingState,
+  UseLoadingStateReturn
+} from '../types/api';
+
+/**
+ * Loading state composable
+ * Aggregates every request tracked by the manager (the shared API client's by default) into one LoadingState
+ */
+export function useLoadingState(
+  manager: ReactiveLoadingManager = apiClient.loading
+): UseLoadingStateReturn {
+  const loadingState = computed<LoadingState>(() => {
+    const states = Array.from(manager.activeRequests.values());
+
+    if (states.length === 0) {
+      return { isLoading: false };
+    }
+
+    const startTimes = states.map(state => state.startTime).filter((time): time is number => time !== undefined);
+    const completions = states
+      .map(state => state.estimatedCompletion)
+      .filter((time): time is number => time !== undefined);
+    const hasProgress = states.some(state => state.progress !== undefined);
+
+    return {
+      isLoading: true,
+      progress: hasProgress ? manager.globalProgress : undefined,
+      // The most recent message is the most relevant to show
+      message: [...states].reverse().find(state => state.message)?.message,
+      startTime: startTimes.length > 0 ? Math.min(...startTimes) : undefined,
+      estimatedCompletion: completions.length > 0 ? Math.max(...completions) : undefined
+    };
+  });
+
+  const startLoading = (requestId: string, message?: string): void => {
+    manager.start(requestId, message);
+  };
+
+  const updateProgress = (requestId: string, progress: number): void => {
+    manager.update(requestId, progress);
+  };
+
+  const stopLoading = (requestId: string): void => {
+    manager.stop(requestId);
+  };
+
+  const clearAll = (): void => {
+    manager.clearAll();
+  };
+
+  return {
+    loadingState,
+    manager,
+    startLoading,
+    updateProgress,
+    stopLoading,
+    clearAll
+  };
+}
@@ -28,6 +28,14 @@ const routes: RouteRecordRaw[] = [
       requiresAuth: false
     }
   },
+  {
+    path: '/settings',
+    name: 'Settings',
+    component: () => import('../views/SettingsView.vue'),
+    meta: {
+      title: 'Settings'
+    }
+  },
   {
     path: '/:pathMatch(.*)*',
     name: 'NotFound',
@@ -0,0 +1,52 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { apiClient } from '../api-client'
+
+function reply(status: number): Response {
+  return new Response(JSON.stringify({ status }), { status, headers: { 'Content-Type': 'application/json' } })
+}
+
+describe('apiClient retries', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.unstubAllGlobals()
+  })
+
+  /**
+   * Send a request whose first attempt gets a gateway timeout, letting the backoff delays elapse
+   */
+  async function afterGatewayTimeout(send: () => Promise<unknown>) {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(reply(504))
+      .mockResolvedValue(reply(200))
+    vi.stubGlobal('fetch', fetchMock)
+
+    const settled = send().then(() => 'resolved', () => 'rejected')
+    await vi.runAllTimersAsync()
+
+    return { outcome: await settled, attempts: fetchMock.mock.calls.length }
+  }
+
+  it('does not retry a POST by default', async () => {
+    const result = await afterGatewayTimeout(() => apiClient.post('/api/v1/dbt/projects/', { name: 'Sales' }))
+
+    expect(result).toEqual({ outcome: 'rejected', attempts: 1 })
+  })
+
+  it('retries a POST that opts in', async () => {
+    const result = await afterGatewayTimeout(() =>
+      apiClient.post('/api/v1/admin/github/create-repo', { repo: 'sales-analytics' }, { metadata: { retry: true } })
+    )
+
+    expect(result).toEqual({ outcome: 'resolved', attempts: 2 })
+  })
+
+  it('retries a GET', async () => {
+    const result = await afterGatewayTimeout(() => apiClient.get('/api/v1/health', undefined, { metadata: { cache: false } }))
+
+    expect(result).toEqual({ outcome: 'resolved', attempts: 2 })
+  })
+})
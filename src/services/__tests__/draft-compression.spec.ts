@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest'
+import { COMPRESSION_MARKERS, compressString, decompressString, isCompressed } from '../draft-compression'
+import type { CompressionEncoding } from '../draft-compression'
+
+const encodings: CompressionEncoding[] = ['utf16', 'base64']
+
+const draftJson = JSON.stringify({
+  generalInfo: { projectName: 'analytics-platform', description: 'Ünïcödé — ✓ 数据 🚀' },
+  environments: Array.from({ length: 20 }, (_, index) => ({ name: `env-${index}`, schema: 'analytics' }))
+})
+
+const samples: Record<string, string> = {
+  empty: '',
+  'single character': 'a',
+  'repeated text': 'abababababababababab'.repeat(50),
+  'draft JSON': draftJson,
+  'astral characters': '😀😁😂🤣'.repeat(10)
+}
+
+describe('draft compression', () => {
+  for (const encoding of encodings) {
+    describe(encoding, () => {
+      for (const [name, sample] of Object.entries(samples)) {
+        it(`round-trips ${name}`, () => {
+          const compressed = compressString(sample, encoding)
+
+          expect(compressed.startsWith(COMPRESSION_MARKERS[encoding])).toBe(true)
+          expect(isCompressed(compressed)).toBe(true)
+          expect(decompressString(compressed)).toBe(sample)
+        })
+      }
+
+      it('shrinks repetitive draft JSON', () => {
+        expect(compressString(draftJson, encoding).length).toBeLessThan(draftJson.length)
+      })
+    })
+  }
+
+  it('only emits base64 alphabet characters for the base64 encoding', () => {
+    const payload = compressString(draftJson, 'base64').slice(COMPRESSION_MARKERS.base64.length)
+
+    expect(payload).toMatch(/^[A-Za-z0-9+/]*$/)
+  })
+
+  it('reads unmarked strings as the plain base64 of older exports', () => {
+    const legacy = btoa('{"version":"1.0.0"}')
+
+    expect(isCompressed(legacy)).toBe(false)
+    expect(decompressString(`${legacy}\n`)).toBe('{"version":"1.0.0"}')
+  })
+})
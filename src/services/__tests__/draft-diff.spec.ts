@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest'
+import { diffFormData, diffSection, formatDiffValue } from '../draft-diff'
+
+describe('diffSection', () => {
+  it('returns no changes for equal sections', () => {
+    const section = { name: 'sales', owners: ['ana', 'ben'], qaAuth: { username: 'svc' } }
+
+    expect(diffSection(section, JSON.parse(JSON.stringify(section)))).toEqual([])
+  })
+
+  it('classifies added, removed and changed leaves by dot path', () => {
+    const changes = diffSection(
+      { name: 'sales', region: 'eu', qaAuth: { username: 'svc' } },
+      { name: 'marketing', qaAuth: { username: 'svc', role: 'reader' } }
+    )
+
+    expect(changes.map(({ path, kind, before, after }) => ({ path, kind, before, after }))).toEqual([
+      { path: 'name', kind: 'changed', before: 'sales', after: 'marketing' },
+      { path: 'qaAuth.role', kind: 'added', before: undefined, after: 'reader' },
+      { path: 'region', kind: 'removed', before: 'eu', after: undefined }
+    ])
+  })
+
+  it('labels nested paths for display', () => {
+    const [change] = diffSection({}, { qaAuth: { privateKey: 'key' } })
+
+    expect(change.label).toBe('Qa Auth › Private Key')
+  })
+
+  it('treats empty strings, null, empty arrays and missing fields as equal', () => {
+    expect(diffSection({ a: '', b: null, c: [] }, { a: null, c: undefined })).toEqual([])
+  })
+
+  it('compares arrays as a whole', () => {
+    const changes = diffSection({ owners: ['ana', 'ben'] }, { owners: ['ben', 'ana'] })
+
+    expect(changes).toHaveLength(1)
+    expect(changes[0]).toMatchObject({ path: 'owners', kind: 'changed', after: ['ben', 'ana'] })
+  })
+
+  it('marks secrets as sensitive', () => {
+    const changes = diffSection(
+      { prodAuth: { password: 'old', username: 'svc' } },
+      { prodAuth: { password: 'new', username: 'svc-prod' } }
+    )
+
+    expect(changes.map(({ path, sensitive }) => ({ path, sensitive }))).toEqual([
+      { path: 'prodAuth.password', sensitive: true },
+      { path: 'prodAuth.username', sensitive: false }
+    ])
+  })
+
+  it('handles a section missing on one side', () => {
+    expect(diffSection(undefined, { name: 'sales' })).toMatchObject([{ path: 'name', kind: 'added' }])
+  })
+})
+
+describe('diffFormData', () => {
+  it('groups changes by section in wizard order and skips unchanged sections', () => {
+    const diff = diffFormData(
+      { github: { repository: 'old' }, generalInfo: { name: 'a' }, setupType: { type: 'new' } },
+      { github: { repository: 'new' }, generalInfo: { name: 'b' }, setupType: { type: 'new' } }
+    )
+
+    expect(diff.map(section => [section.key, section.step, section.changes.length])).toEqual([
+      ['generalInfo', 1, 1],
+      ['github', 7, 1]
+    ])
+  })
+})
+
+describe('formatDiffValue', () => {
+  it('formats values for display and masks sensitive ones', () => {
+    expect(formatDiffValue(undefined)).toBe('(empty)')
+    expect(formatDiffValue('secret', true)).toBe('••••••••')
+    expect(formatDiffValue(['a', { b: 1 }])).toBe('a, {"b":1}')
+    expect(formatDiffValue(true)).toBe('Yes')
+    expect(formatDiffValue(3)).toBe('3')
+  })
+})
@@ -0,0 +1,97 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { DraftManager } from '../draft-manager'
+import type { NewProjectFormData } from '../../types/project-creation'
+
+const STORAGE_KEY = 'drafts-under-test'
+
+const formData = { generalInfo: { name: 'Sales Analytics' } } as unknown as NewProjectFormData
+const navigation = { currentStep: 2, totalSteps: 8 }
+
+/**
+ * localStorage stand-in whose reads can be made to fail, like an IndexedDB error or a quota-locked profile
+ */
+function createLocalStorage() {
+  const items = new Map<string, string>()
+  const state = { failReads: false }
+
+  const storage = {
+    getItem: (key: string) => {
+      if (state.failReads) throw new Error('The operation failed for reasons unrelated to the database itself')
+      return items.get(key) ?? null
+    },
+    setItem: (key: string, value: string) => {
+      items.set(key, value)
+    },
+    removeItem: (key: string) => {
+      items.delete(key)
+    }
+  }
+
+  return { storage, items, state }
+}
+
+describe('DraftManager', () => {
+  let local: ReturnType<typeof createLocalStorage>
+  let manager: DraftManager
+
+  beforeEach(() => {
+    local = createLocalStorage()
+    vi.stubGlobal('localStorage', local.storage)
+    vi.stubGlobal('window', { setInterval, clearInterval })
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+
+    manager = new DraftManager({
+      storageKey: STORAGE_KEY,
+      storage: 'localStorage',
+      crossTabSyncEnabled: false,
+      compressionEnabled: false
+    })
+  })
+
+  afterEach(() => {
+    manager.destroy()
+    vi.unstubAllGlobals()
+    vi.restoreAllMocks()
+  })
+
+  describe('when stored drafts cannot be read', () => {
+    it('shows no drafts in lists and lookups', async () => {
+      await manager.saveDraft(formData, navigation, { draftId: 'draft-1' })
+      local.state.failReads = true
+
+      expect(await manager.getAllDrafts()).toEqual([])
+      expect(await manager.findInterruptedExecution()).toBeNull()
+    })
+
+    it('refuses to save instead of overwriting the drafts it could not read', async () => {
+      await manager.saveDraft(formData, navigation, { draftId: 'draft-1' })
+      const stored = local.items.get(STORAGE_KEY)
+      local.state.failReads = true
+
+      await expect(manager.saveDraft(formData, navigation, { draftId: 'draft-2' })).rejects.toThrow('Failed to save draft')
+      await expect(manager.cleanupOldDrafts()).rejects.toThrow()
+
+      expect(local.items.get(STORAGE_KEY)).toBe(stored)
+    })
+
+    it('refuses to save over a stored list that cannot be parsed', async () => {
+      local.items.set(STORAGE_KEY, '[{"metadata":')
+
+      await expect(manager.saveDraft(formData, navigation, { draftId: 'draft-1' })).rejects.toThrow('Failed to save draft')
+
+      expect(local.items.get(STORAGE_KEY)).toBe('[{"metadata":')
+    })
+  })
+
+  it('keeps saving once reads succeed again', async () => {
+    await manager.saveDraft(formData, navigation, { draftId: 'draft-1' })
+    local.state.failReads = true
+    await expect(manager.saveDraft(formData, navigation, { draftId: 'draft-2' })).rejects.toThrow()
+    local.state.failReads = false
+
+    await manager.saveDraft(formData, navigation, { draftId: 'draft-2' })
+
+    expect((await manager.getAllDrafts()).map(draft => draft.metadata.id).sort()).toEqual(['draft-1', 'draft-2'])
+  })
+})
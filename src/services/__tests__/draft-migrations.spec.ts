@@ -0,0 +1,164 @@
+import { describe, expect, it } from 'vitest'
+import {
+  CURRENT_DRAFT_SCHEMA_VERSION,
+  DRAFT_MIGRATIONS,
+  DraftSchemaError,
+  compareSchemaVersions,
+  getDraftSchemaVersion,
+  migrateDraft
+} from '../draft-migrations'
+import type { DraftMigration, DraftMigrationContext } from '../draft-migrations'
+import type { EnhancedProjectCreationDraft } from '../draft-manager'
+
+const context: DraftMigrationContext = {
+  checksum: formData => `sum:${JSON.stringify(formData).length}`,
+  now: 1_700_000_000_000
+}
+
+const legacyDraft = {
+  metadata: { id: 'draft-legacy', createdAt: 1_600_000_000_000, updatedAt: 1_650_000_000_000 },
+  formData: { generalInfo: { name: 'Sales Analytics' } },
+  navigationState: { currentStep: 4, totalSteps: 9 }
+}
+
+function schemaError(run: () => unknown): DraftSchemaError {
+  try {
+    run()
+  } catch (error) {
+    if (error instanceof DraftSchemaError) return error
+    throw error
+  }
+  throw new Error('Expected a DraftSchemaError')
+}
+
+describe('compareSchemaVersions', () => {
+  it('orders dotted versions numerically', () => {
+    expect(compareSchemaVersions('1.0.0', '2.0.0')).toBeLessThan(0)
+    expect(compareSchemaVersions('2.10.0', '2.9.0')).toBeGreaterThan(0)
+    expect(compareSchemaVersions('2.0', '2.0.0')).toBe(0)
+  })
+})
+
+describe('getDraftSchemaVersion', () => {
+  it('reads the stamped version', () => {
+    expect(getDraftSchemaVersion({ metadata: { version: '1.5.0' } })).toBe('1.5.0')
+  })
+
+  it('treats unstamped drafts with a version history as current', () => {
+    expect(getDraftSchemaVersion({ currentVersion: {} })).toBe(CURRENT_DRAFT_SCHEMA_VERSION)
+  })
+
+  it('treats unstamped drafts without a version history as legacy', () => {
+    expect(getDraftSchemaVersion(legacyDraft)).toBe('1.0.0')
+    expect(getDraftSchemaVersion(null)).toBe('1.0.0')
+  })
+})
+
+describe('DRAFT_MIGRATIONS', () => {
+  it('chains from every registered version to the current schema', () => {
+    for (const { from } of DRAFT_MIGRATIONS) {
+      expect(DRAFT_MIGRATIONS.filter(migration => migration.from === from)).toHaveLength(1)
+
+      const { report } = migrateDraft({ metadata: { version: from } }, context)
+      expect(report.toVersion).toBe(CURRENT_DRAFT_SCHEMA_VERSION)
+    }
+  })
+})
+
+describe('migrateDraft', () => {
+  it('moves a legacy draft into a version history', () => {
+    const { draft, report } = migrateDraft<EnhancedProjectCreationDraft>(legacyDraft, context)
+
+    expect(report).toEqual({
+      draftId: 'draft-legacy',
+      fromVersion: '1.0.0',
+      toVersion: CURRENT_DRAFT_SCHEMA_VERSION,
+      applied: [{ from: '1.0.0', to: '2.0.0', description: DRAFT_MIGRATIONS[0].description }]
+    })
+    expect(draft.metadata).toMatchObject({
+      id: 'draft-legacy',
+      createdAt: 1_600_000_000_000,
+      updatedAt: 1_650_000_000_000,
+      title: 'Sales Analytics',
+      version: CURRENT_DRAFT_SCHEMA_VERSION
+    })
+    expect(draft.currentVersion).toEqual({
+      id: 'draft-legacy-v1650000000000',
+      timestamp: 1_650_000_000_000,
+      formData: legacyDraft.formData,
+      navigationState: { currentStep: 4, totalSteps: 9 },
+      checksum: context.checksum(legacyDraft.formData)
+    })
+    expect(draft.metadata.versions).toEqual([draft.currentVersion])
+  })
+
+  it('does not modify the draft it is given', () => {
+    const original = JSON.parse(JSON.stringify(legacyDraft))
+
+    migrateDraft(legacyDraft, context)
+
+    expect(legacyDraft).toEqual(original)
+  })
+
+  it('fills defaults for malformed legacy fields', () => {
+    const { draft } = migrateDraft<EnhancedProjectCreationDraft>({ formData: 'corrupt', navigationState: [] }, context)
+
+    expect(draft.metadata.id).toBe(`draft-${context.now}`)
+    expect(draft.metadata.title).toBe('Untitled Project')
+    expect(draft.currentVersion.formData).toEqual({})
+    expect(draft.currentVersion.navigationState).toEqual({ currentStep: 1, totalSteps: 1 })
+  })
+
+  it('returns current drafts unchanged', () => {
+    const current = { metadata: { id: 'draft-current', version: CURRENT_DRAFT_SCHEMA_VERSION }, currentVersion: {} }
+
+    const { draft, report } = migrateDraft(current, context)
+
+    expect(draft).toBe(current)
+    expect(report.applied).toEqual([])
+  })
+
+  it('applies a multi-step chain in order', () => {
+    const migrations: DraftMigration[] = [
+      { from: '2.0.0', to: '3.0.0', description: 'second', migrate: draft => ({ ...(draft as object), steps: ['second'] }) },
+      { from: '1.0.0', to: '2.0.0', description: 'first', migrate: () => ({ steps: ['first'] }) }
+    ]
+
+    const { draft, report } = migrateDraft<{ steps: string[] }>({}, context, migrations, '3.0.0')
+
+    expect(report.applied.map(step => step.description)).toEqual(['first', 'second'])
+    expect(draft).toEqual({ steps: ['second'], metadata: { version: '3.0.0' } })
+  })
+
+  it('refuses drafts written by a newer release', () => {
+    const error = schemaError(() => migrateDraft({ metadata: { id: 'draft-next', version: '9.0.0' } }, context))
+
+    expect(error.code).toBe('newer-version')
+    expect(error.draftVersion).toBe('9.0.0')
+  })
+
+  it('reports a gap in the migration chain', () => {
+    const error = schemaError(() => migrateDraft({ metadata: { version: '1.5.0' } }, context))
+
+    expect(error.code).toBe('no-migration-path')
+    expect(error.draftVersion).toBe('1.5.0')
+  })
+
+  it('wraps errors thrown by a migration', () => {
+    const migrations: DraftMigration[] = [
+      {
+        from: '1.0.0',
+        to: '2.0.0',
+        description: 'broken',
+        migrate: () => {
+          throw new Error('boom')
+        }
+      }
+    ]
+
+    const error = schemaError(() => migrateDraft(legacyDraft, context, migrations))
+
+    expect(error.code).toBe('migration-failed')
+    expect(error.message).toContain('boom')
+  })
+})
@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest'
+import { CROSS_STEP_RULES, validateCrossStepRules } from '../form-validation'
+import { FORM_SECTIONS } from '../draft-diff'
+import type { CrossStepRule, FormDataSnapshot } from '../form-validation'
+import type { EnvironmentType } from '../../types/project-creation'
+
+interface FormOptions {
+  createNewDatabase?: boolean
+  selected?: EnvironmentType[]
+  provisioned?: EnvironmentType[]
+  owner?: string
+  entitlementOwner?: string
+  technicalOwner?: string
+}
+
+// Only the fields the cross-step rules read
+function formData(options: FormOptions = {}): FormDataSnapshot {
+  const {
+    createNewDatabase = true,
+    selected = ['DEV', 'QA'],
+    provisioned = ['DEV', 'QA'],
+    owner = 'Jane Doe',
+    entitlementOwner = 'A123456',
+    technicalOwner = 'A654321'
+  } = options
+
+  return {
+    generalInfo: { owner },
+    databaseSelection: { createNewDatabase },
+    newDatabase: createNewDatabase ? { environments: provisioned } : undefined,
+    environments: { environments: selected },
+    entitlements: { entitlementOwner, technicalOwner }
+  } as unknown as FormDataSnapshot
+}
+
+describe('CROSS_STEP_RULES', () => {
+  it('passes a consistent form', () => {
+    expect(validateCrossStepRules(formData())).toEqual({ errors: [], warnings: [] })
+  })
+
+  it('reports dbt environments without a provisioned database on Environments', () => {
+    const { errors, warnings } = validateCrossStepRules(formData({ selected: ['DEV', 'QA', 'PROD'] }))
+
+    expect(warnings).toEqual([])
+    expect(errors).toEqual([
+      expect.objectContaining({ step: 4, field: 'environments', code: 'INCONSISTENT', severity: 'error' })
+    ])
+    expect(errors[0].message).toContain('No database is provisioned for PROD')
+  })
+
+  it('warns on New Database about provisioned databases without a dbt environment', () => {
+    const { errors, warnings } = validateCrossStepRules(formData({ provisioned: ['DEV', 'QA', 'PROD'] }))
+
+    expect(errors).toEqual([])
+    expect(warnings).toEqual([expect.objectContaining({ step: 3.5, field: 'environments', code: 'INCONSISTENT' })])
+    expect(warnings[0].message).toContain('Databases will be provisioned in PROD')
+  })
+
+  it('skips the environment rules when an existing database is used', () => {
+    const outcome = validateCrossStepRules(formData({ createNewDatabase: false, selected: ['PROD'] }))
+
+    expect(outcome).toEqual({ errors: [], warnings: [] })
+  })
+
+  it('requires an owner ID entered in General Info to own the entitlements', () => {
+    const { errors } = validateCrossStepRules(formData({ owner: ' A999999 ' }))
+
+    expect(errors).toEqual([expect.objectContaining({ step: 8, field: 'entitlementOwner', code: 'INCONSISTENT' })])
+    expect(errors[0].message).toContain('Project owner A999999')
+  })
+
+  it('accepts the project owner as either entitlement or technical owner', () => {
+    expect(validateCrossStepRules(formData({ owner: 'A123456' })).errors).toEqual([])
+    expect(validateCrossStepRules(formData({ owner: 'A654321' })).errors).toEqual([])
+  })
+
+  it('cannot compare owners entered by name', () => {
+    expect(validateCrossStepRules(formData({ owner: 'Jane Doe', entitlementOwner: 'A000001' })).errors).toEqual([])
+  })
+
+  it('reports every rule on a step that has a form section', () => {
+    const steps = FORM_SECTIONS.map(section => section.step)
+
+    for (const rule of CROSS_STEP_RULES) {
+      expect(steps).toContain(rule.step)
+    }
+  })
+})
+
+describe('validateCrossStepRules', () => {
+  it('uses static messages and skips rules whose condition is off', () => {
+    const rules: CrossStepRule[] = [
+      { step: 1, field: 'name', test: () => false, message: 'static', code: 'FAILED' },
+      { step: 2, field: 'type', when: () => false, test: () => false, message: 'skipped', code: 'SKIPPED' }
+    ]
+
+    expect(validateCrossStepRules(formData(), rules)).toEqual({
+      errors: [{ step: 1, field: 'name', message: 'static', code: 'FAILED', severity: 'error' }],
+      warnings: []
+    })
+  })
+})
@@ -0,0 +1,90 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { HttpCache } from '../http-cache'
+import { BaseHttpClient } from '../http-client'
+import type { ApiRequestConfig } from '../../types/api'
+
+function request(overrides: Partial<ApiRequestConfig> = {}): ApiRequestConfig {
+  return { url: '/api/v1/admin/github/get-branches', method: 'POST', ...overrides } as ApiRequestConfig
+}
+
+describe('HttpCache', () => {
+  describe('invalidatesCache', () => {
+    const cache = new HttpCache({ enabled: true })
+
+    it('treats PUT, PATCH and DELETE as writes unless they opt out', () => {
+      expect(cache.invalidatesCache(request({ method: 'PUT' }))).toBe(true)
+      expect(cache.invalidatesCache(request({ method: 'PATCH' }))).toBe(true)
+      expect(cache.invalidatesCache(request({ method: 'DELETE' }))).toBe(true)
+      expect(cache.invalidatesCache(request({ method: 'DELETE', metadata: { invalidatesCache: false } }))).toBe(false)
+    })
+
+    it('treats a POST as a write only when it opts in', () => {
+      expect(cache.invalidatesCache(request())).toBe(false)
+      expect(cache.invalidatesCache(request({ metadata: { invalidatesCache: true } }))).toBe(true)
+    })
+
+    it('never treats a GET as a write', () => {
+      expect(cache.invalidatesCache(request({ method: 'GET' }))).toBe(false)
+    })
+  })
+
+  describe('invalidateForMutation', () => {
+    it('drops the cached reads under every pattern the URL matches', async () => {
+      const cache = new HttpCache({ enabled: true, invalidationPatterns: ['/api/v1/dbt/*', '/api/v1/admin/*'] })
+      await cache.set('projects', [], undefined, '/api/v1/dbt/projects/')
+      await cache.set('constants', {}, undefined, '/api/v1/constants')
+
+      await cache.invalidateForMutation('/api/v1/dbt/projects/7')
+
+      expect(await cache.get('projects')).toBeNull()
+      expect(await cache.get('constants')).not.toBeNull()
+    })
+  })
+})
+
+describe('BaseHttpClient cache invalidation', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  function createClient() {
+    const fetchMock = vi.fn(async () => new Response(JSON.stringify({ id: 1 }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' }
+    }))
+    vi.stubGlobal('fetch', fetchMock)
+
+    const client = new BaseHttpClient({
+      cacheConfig: {
+        enabled: true,
+        storage: 'memory',
+        defaultTTL: 60000,
+        keyStrategy: 'url',
+        invalidationPatterns: ['/api/v1/admin/*']
+      }
+    })
+    return { client, fetchMock }
+  }
+
+  it('keeps cached admin reads across lookups sent as POST', async () => {
+    const { client, fetchMock } = createClient()
+
+    await client.get('/api/v1/admin/github/teams')
+    await client.post('/api/v1/admin/github/get-branches', { repo: 'sales-analytics' })
+    await client.get('/api/v1/admin/github/teams')
+
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+  })
+
+  it('drops cached admin reads after a POST flagged as a write', async () => {
+    const { client, fetchMock } = createClient()
+
+    await client.get('/api/v1/admin/github/teams')
+    await client.post('/api/v1/admin/github/create-repo', { repo: 'sales-analytics' }, {
+      metadata: { invalidatesCache: true }
+    })
+    await client.get('/api/v1/admin/github/teams')
+
+    expect(fetchMock).toHaveBeenCalledTimes(3)
+  })
+})
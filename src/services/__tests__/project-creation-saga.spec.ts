@@ -0,0 +1,249 @@
+import { describe, expect, it } from 'vitest'
+import { ProjectCreationSaga, SagaCancelledError, SagaExecutionError } from '../project-creation-saga'
+import { createCancellationTokenSource } from '../request-cancellation'
+import type { ExecutionJournal, SagaClient } from '../project-creation-saga'
+import type { ApiError, ApiErrorType, ApiRequestConfig, ApiResponse } from '../../types/api'
+import type { NewProjectFormData, RollbackStatus } from '../../types/project-creation'
+
+// Only the fields the saga steps read
+const formData = {
+  generalInfo: { name: 'Sales Analytics' },
+  databaseSelection: { createNewDatabase: true },
+  newDatabase: { businessArea: 'it', environments: ['DEV', 'QA'], databases: [{ name: 'SALES_DB' }] },
+  environments: { environments: ['DEV', 'QA'] },
+  databaseAuth: {
+    qaAuth: { method: 'service_account', serviceAccount: 'svc_sales_qa', password: 'hunter2' },
+    prodAuth: { method: 'service_account' }
+  },
+  github: { githubTeam: 'data-team', repositoryName: 'sales-analytics', privateRepo: true },
+  entitlements: { entitlementOwner: 'A123456', technicalOwner: 'A654321' }
+} as unknown as NewProjectFormData
+
+function apiError(type: ApiErrorType, message: string): ApiError {
+  return Object.assign(new Error(message), { type, timestamp: 0, retryable: false })
+}
+
+async function sagaError(run: Promise<unknown>): Promise<SagaExecutionError> {
+  try {
+    await run
+  } catch (error) {
+    if (error instanceof SagaExecutionError) return error
+    throw error
+  }
+  throw new Error('Expected a SagaExecutionError')
+}
+
+/**
+ * Client that answers every request with a fresh ID and records what was sent
+ * `failures` maps `METHOD url` to the error that request rejects with.
+ */
+function createClient(failures: Record<string, ApiError> = {}) {
+  const requests: ApiRequestConfig[] = []
+  let nextId = 100
+
+  const client: SagaClient = {
+    request: async <TResponse, TData>(config: ApiRequestConfig<TData>): Promise<ApiResponse<TResponse>> => {
+      requests.push(config)
+      const failure = failures[`${config.method} ${config.url}`]
+      if (failure) throw failure
+      return { data: { id: nextId++ } as TResponse, status: 200, statusText: 'OK', headers: {}, config, timestamp: 0 }
+    }
+  }
+
+  return { client, requests, sent: () => requests.map(({ method, url }) => `${method} ${url}`) }
+}
+
+describe('ProjectCreationSaga', () => {
+  describe('plan', () => {
+    it('records requests without sending them', async () => {
+      const { client, requests } = createClient()
+
+      const plan = await new ProjectCreationSaga(client).plan(formData)
+
+      expect(requests).toEqual([])
+      expect(plan.steps.map(step => step.id)).toEqual([
+        'provision-infra',
+        'github-repo',
+        'github-branch',
+        'dbt-project',
+        'dbt-connection',
+        'dbt-credentials',
+        'dbt-environments',
+        'pims-entitlements'
+      ])
+      expect(plan.totalRequests).toBe(plan.steps.reduce((total, step) => total + step.requests.length, 0))
+    })
+
+    it('shows IDs from earlier steps as placeholders and masks secrets', async () => {
+      const plan = await new ProjectCreationSaga(createClient().client).plan(formData)
+      const step = (id: string) => plan.steps.find(entry => entry.id === id)!
+
+      expect(step('dbt-connection').requests[0].url).toBe('/api/v1/dbt/projects/{dbt-project.id}/connections/')
+      expect(step('dbt-credentials').requests).toEqual([{
+        method: 'POST',
+        url: '/api/v1/dbt/projects/{dbt-project.id}/credentials/',
+        data: {
+          project_id: '{dbt-project.id}',
+          type: 'snowflake',
+          details: { auth_type: 'password', user: 'svc_sales_qa', password: '********', database: 'SALES_DB' }
+        }
+      }])
+      expect(step('dbt-environments').requests[1].data).toMatchObject({
+        project_id: '{dbt-project.id}',
+        credential_id: '{dbt-credentials.id}'
+      })
+      expect(step('dbt-connection').compensations[0].request).toEqual({
+        method: 'DELETE',
+        url: '/api/v1/dbt/projects/{dbt-project.id}/connections/{dbt-connection.id}',
+        data: undefined
+      })
+    })
+  })
+
+  describe('execute', () => {
+    it('sends the generated operations in step order', async () => {
+      const { client, sent } = createClient()
+
+      const result = await new ProjectCreationSaga(client).execute(formData)
+
+      expect(result.status).toBe('created')
+      expect(sent()).toEqual([
+        'POST /api/v1/admin/datacloud/provision-infra',
+        'POST /api/v1/admin/datacloud/provision-infra',
+        'POST /api/v1/admin/github/create-repo',
+        'POST /api/v1/admin/github/create-branch',
+        'POST /api/v1/admin/github/update-branch-protection',
+        'POST /api/v1/admin/dbt/github-project',
+        'POST /api/v1/dbt/projects/105/connections/',
+        'POST /api/v1/dbt/projects/105/credentials/',
+        'POST /api/v1/dbt/projects/105/environments/',
+        'POST /api/v1/dbt/projects/105/environments/',
+        'POST /api/v1/admin/pims/entitlements'
+      ])
+    })
+
+    it('flags every call as a write and opts only repeatable creates into retries', async () => {
+      const { client, requests } = createClient()
+
+      await new ProjectCreationSaga(client).execute(formData)
+
+      expect(requests.every(request => request.metadata?.invalidatesCache === true)).toBe(true)
+      expect(requests.filter(request => request.metadata?.retry).map(request => request.url)).toEqual([
+        '/api/v1/admin/datacloud/provision-infra',
+        '/api/v1/admin/datacloud/provision-infra',
+        '/api/v1/admin/github/create-repo'
+      ])
+    })
+
+    it('rolls back in reverse order and lists what the proxy cannot undo as manual cleanup', async () => {
+      const { client, sent } = createClient({
+        'POST /api/v1/dbt/projects/105/environments/': apiError('server', 'Internal Server Error')
+      })
+      const statuses: RollbackStatus[] = []
+
+      const error = await sagaError(
+        new ProjectCreationSaga(client).execute(formData, { onRollbackStatus: status => statuses.push(status) })
+      )
+
+      expect(statuses).toEqual(['rolling_back', 'manual_cleanup_required'])
+      expect(sent().slice(-6)).toEqual([
+        'DELETE /api/v1/dbt/projects/105/credentials/107',
+        'DELETE /api/v1/dbt/projects/105/connections/106',
+        'DELETE /api/v1/dbt/projects/105',
+        'POST /api/v1/admin/github/delete-branch',
+        'POST /api/v1/admin/datacloud/provision-infra',
+        'POST /api/v1/admin/datacloud/provision-infra'
+      ])
+
+      const rollbackSteps = error.result.metadata.steps.filter(step => step.name.startsWith('Rollback:'))
+      expect(rollbackSteps.map(({ name, status }) => ({ name, status }))).toEqual([
+        { name: 'Rollback: Delete QA credential 107', status: 'completed' },
+        { name: 'Rollback: Delete connection 106', status: 'completed' },
+        { name: 'Rollback: Delete dbt project 105', status: 'completed' },
+        { name: 'Rollback: Delete branch develop of sales-analytics', status: 'completed' },
+        { name: 'Rollback: Delete GitHub repository sales-analytics', status: 'manual_cleanup' },
+        { name: 'Rollback: Tear down QA database SALES_DB', status: 'completed' },
+        { name: 'Rollback: Tear down DEV database SALES_DB', status: 'completed' }
+      ])
+      expect(rollbackSteps[4].message).toContain('delete sales-analytics in GitHub manually')
+    })
+
+    it('treats a resource that is already gone as rolled back and reports other compensation errors', async () => {
+      const { client } = createClient({
+        'POST /api/v1/admin/github/delete-branch': apiError('not_found', 'Not Found'),
+        'DELETE /api/v1/dbt/projects/105': apiError('server', 'Internal Server Error'),
+        'POST /api/v1/dbt/projects/105/connections/': apiError('validation', 'Invalid connection')
+      })
+      const statuses: RollbackStatus[] = []
+
+      const error = await sagaError(
+        new ProjectCreationSaga(client).execute(formData, { onRollbackStatus: status => statuses.push(status) })
+      )
+
+      expect(statuses).toEqual(['rolling_back', 'rollback_failed'])
+      const steps = error.result.metadata.steps
+      expect(steps.find(step => step.name === 'Rollback: Delete dbt project 105')).toMatchObject({
+        status: 'failed',
+        error: 'Internal Server Error'
+      })
+      expect(steps.find(step => step.name === 'Rollback: Delete branch develop of sales-analytics')).toMatchObject({
+        status: 'completed',
+        message: 'Already removed'
+      })
+    })
+  })
+
+  describe('resume', () => {
+    it('continues a cancelled run from the first incomplete step without recreating resources', async () => {
+      const source = createCancellationTokenSource()
+      const first = createClient()
+
+      const cancelled = await sagaError(new ProjectCreationSaga(first.client).execute(formData, {
+        onJournalUpdate: journal => {
+          if (journal.completedStepIds.includes('dbt-project')) source.cancel('Closed the tab')
+        }
+      }, source.token))
+
+      expect(cancelled).toBeInstanceOf(SagaCancelledError)
+      const { journal } = cancelled as SagaCancelledError
+      expect(journal.resources).toMatchObject({ repositoryName: 'sales-analytics', branchName: 'develop', projectId: 105 })
+
+      const second = createClient()
+      const result = await new ProjectCreationSaga(second.client).resume(journal)
+
+      expect(result.projectId).toBe('105')
+      expect(second.sent()).toEqual([
+        'POST /api/v1/dbt/projects/105/connections/',
+        'POST /api/v1/dbt/projects/105/credentials/',
+        'POST /api/v1/dbt/projects/105/environments/',
+        'POST /api/v1/dbt/projects/105/environments/',
+        'POST /api/v1/admin/pims/entitlements'
+      ])
+    })
+
+    it('does not assign entitlements again when the run stopped after assigning them', async () => {
+      let lastJournal: ExecutionJournal | undefined
+      await new ProjectCreationSaga(createClient().client).execute(formData, {
+        onJournalUpdate: journal => {
+          lastJournal = journal
+        }
+      })
+
+      // Interrupted after the compensation was journaled but before the step was marked complete
+      const journal: ExecutionJournal = {
+        ...lastJournal!,
+        completedStepIds: lastJournal!.completedStepIds.filter(id => id !== 'pims-entitlements')
+      }
+      const { client, sent } = createClient()
+      const result = await new ProjectCreationSaga(client).resume(journal)
+
+      expect(sent()).toEqual([])
+      const { steps } = result.metadata
+      expect(steps[steps.length - 1]).toMatchObject({
+        name: 'Assign PIMS Entitlements',
+        status: 'completed',
+        message: 'Entitlements for sales-analytics already assigned'
+      })
+    })
+  })
+})
@@ -0,0 +1,74 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { RequestLogger } from '../request-logger'
+import { HttpPerformanceMonitor } from '../performance-monitor'
+import type { ApiRequestConfig, PerformanceMetrics } from '../../types/api'
+
+const config: ApiRequestConfig = { method: 'POST', url: '/api/v1/admin/datacloud/provision-infra' }
+
+function metrics(duration: number): PerformanceMetrics {
+  return { requestId: 'req_1', startTime: 0, endTime: duration, duration, endpoint: `POST ${config.url}`, failed: false }
+}
+
+describe('RequestLogger', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('only buffers entries when console output is off', () => {
+    const info = vi.spyOn(console, 'info').mockImplementation(() => {})
+    const logger = new RequestLogger({ level: 'info', logResponses: true, writeToConsole: false })
+
+    logger.log('info', 'POST /api/v1/admin/github/create-repo → 200')
+
+    expect(info).not.toHaveBeenCalled()
+    expect(logger.getEntries()).toHaveLength(1)
+  })
+
+  it('writes to the console by default', () => {
+    const info = vi.spyOn(console, 'info').mockImplementation(() => {})
+
+    new RequestLogger({ level: 'info' }).log('info', 'GET /api/v1/health → 200')
+
+    expect(info).toHaveBeenCalledWith('GET /api/v1/health → 200')
+  })
+
+  describe('logPerformance', () => {
+    it('logs slow requests as warnings even when timings are off', () => {
+      const customLogger = vi.fn()
+      const logger = new RequestLogger({ level: 'info', logPerformance: false, customLogger })
+
+      logger.logPerformance(metrics(200), config)
+      logger.logPerformance(metrics(9000), config, true)
+
+      expect(customLogger).toHaveBeenCalledTimes(1)
+      expect(customLogger).toHaveBeenCalledWith('warn', `POST ${config.url} took 9000ms`, expect.anything())
+    })
+
+    it('logs every timing when enabled', () => {
+      const logger = new RequestLogger({ level: 'info', logPerformance: true, customLogger: () => {} })
+
+      logger.logPerformance(metrics(200), config)
+
+      expect(logger.getEntries().map(entry => entry.level)).toEqual(['info'])
+    })
+  })
+})
+
+describe('HttpPerformanceMonitor', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('reports slow requests to listeners without writing to the console', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+    const monitor = new HttpPerformanceMonitor({ slowRequestThreshold: 0 })
+    const listener = vi.fn()
+    monitor.onSlowRequest(listener)
+
+    monitor.startMeasurement('req_1', config)
+    monitor.endMeasurement('req_1', { status: 200 })
+
+    expect(listener).toHaveBeenCalledWith(expect.objectContaining({ requestId: 'req_1', status: 200 }))
+    expect(warn).not.toHaveBeenCalled()
+  })
+})
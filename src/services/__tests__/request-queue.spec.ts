@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest'
+import { RequestQueue } from '../request-queue'
+import { createCancellationTokenSource } from '../request-cancellation'
+import type { ApiError, ApiRequestConfig } from '../../types/api'
+
+function request(overrides: Partial<ApiRequestConfig> = {}): ApiRequestConfig {
+  return { url: '/api/v1/test', method: 'GET', ...overrides } as ApiRequestConfig
+}
+
+function deferred(): { promise: Promise<void>; resolve: () => void } {
+  let resolve!: () => void
+  const promise = new Promise<void>(done => {
+    resolve = done
+  })
+  return { promise, resolve }
+}
+
+const tick = () => new Promise(resolve => setTimeout(resolve, 0))
+
+describe('RequestQueue', () => {
+  it('never runs more than maxConcurrent tasks', async () => {
+    const queue = new RequestQueue(2)
+    let active = 0
+    let peak = 0
+    const task = async () => {
+      active++
+      peak = Math.max(peak, active)
+      await tick()
+      active--
+    }
+
+    await Promise.all(Array.from({ length: 8 }, () => queue.run(request(), task)))
+
+    expect(peak).toBe(2)
+    expect(queue.getActiveCount()).toBe(0)
+  })
+
+  it('keeps a freed slot for the waiting request rather than a new arrival', async () => {
+    const queue = new RequestQueue(1)
+    const first = deferred()
+    let active = 0
+    let peak = 0
+    const track = async () => {
+      active++
+      peak = Math.max(peak, active)
+      await tick()
+      active--
+    }
+
+    const running = queue.run(request(), () => first.promise)
+    const waiting = queue.run(request(), track)
+    await tick()
+
+    // The waiter is woken in a microtask; a request arriving in between must queue behind it
+    first.resolve()
+    await Promise.resolve()
+    const arriving = queue.run(request(), track)
+
+    await Promise.all([running, waiting, arriving])
+    expect(peak).toBe(1)
+  })
+
+  it('starts the highest priority waiter first', async () => {
+    const queue = new RequestQueue(1)
+    const blocker = deferred()
+    const order: string[] = []
+
+    const running = queue.run(request(), () => blocker.promise)
+    const tasks = [
+      queue.run(request({ metadata: { priority: -1 } }), async () => { order.push('background') }),
+      queue.run(request({ metadata: { priority: 5 } }), async () => { order.push('user') }),
+      queue.run(request(), async () => { order.push('default') })
+    ]
+    blocker.resolve()
+    await Promise.all([running, ...tasks])
+
+    expect(order).toEqual(['user', 'default', 'background'])
+  })
+
+  it('rejects with queue_full once maxSize requests are waiting', async () => {
+    const queue = new RequestQueue(1, { maxSize: 1 })
+    const blocker = deferred()
+
+    const running = queue.run(request(), () => blocker.promise)
+    const waiting = queue.run(request(), async () => undefined)
+    await expect(queue.run(request(), async () => undefined)).rejects.toMatchObject({ type: 'queue_full' })
+
+    blocker.resolve()
+    await Promise.all([running, waiting])
+  })
+
+  it('drops a waiting request when its token is cancelled', async () => {
+    const queue = new RequestQueue(1)
+    const blocker = deferred()
+    const source = createCancellationTokenSource()
+    let ran = false
+
+    const running = queue.run(request(), () => blocker.promise)
+    const cancelled = queue.run(request({ cancelToken: source.token }), async () => {
+      ran = true
+    })
+    source.cancel('user left')
+
+    const error = await cancelled.catch((reason: ApiError) => reason)
+    expect(error).toMatchObject({ type: 'abort' })
+    expect(queue.getQueuedCount()).toBe(0)
+
+    blocker.resolve()
+    await running
+    expect(ran).toBe(false)
+    expect(queue.getActiveCount()).toBe(0)
+  })
+})
@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest'
+import { ProxyApi } from '../generated/proxy-api'
+import { createCancellationTokenSource } from '../request-cancellation'
+import { getUniquenessTargets, UNIQUENESS_DEPENDENCIES } from '../uniqueness-validation'
+import type { UniquenessCheckContext, UniquenessValidatorConfig } from '../uniqueness-validation'
+import type { FormSectionKey } from '../draft-diff'
+import type { FormDataSnapshot } from '../form-validation'
+import type { ApiError, ApiRequestConfig, ApiResponse } from '../../types/api'
+
+// Only the fields the checks read
+const formData = {
+  generalInfo: { name: 'Sales Analytics' },
+  databaseSelection: { createNewDatabase: true },
+  newDatabase: { businessArea: 'it', environments: ['DEV', 'QA'], databases: [{ name: 'SALES_DB' }] },
+  github: { repositoryName: 'sales-analytics' }
+} as unknown as FormDataSnapshot
+
+const config: UniquenessValidatorConfig = {
+  debounceMs: 0,
+  cacheTTL: 0,
+  requestTimeout: 1000,
+  infraConfigRepository: 'shell-configs'
+}
+
+function apiError(status: number): ApiError {
+  return Object.assign(new Error(`HTTP ${status}`), {
+    type: status === 404 ? 'not_found' as const : 'server' as const,
+    status,
+    timestamp: 0,
+    retryable: false
+  })
+}
+
+/**
+ * Proxy whose requests succeed unless `statuses` maps the request body's name to an error status
+ * Each request is recorded with its body.
+ */
+function createContext(statuses: Record<string, number> = {}) {
+  const requests: ApiRequestConfig[] = []
+  const api = new ProxyApi({
+    request: async <TResponse, TData>(request: ApiRequestConfig<TData>): Promise<ApiResponse<TResponse>> => {
+      requests.push(request)
+      const body = request.data as { repo?: string; file_name?: string }
+      const status = statuses[body.file_name ?? body.repo ?? '']
+      if (status) throw apiError(status)
+      return { data: {} as TResponse, status: 200, statusText: 'OK', headers: {}, config: request, timestamp: 0 }
+    }
+  })
+  const context: UniquenessCheckContext = { api, config, formData, cancelToken: createCancellationTokenSource().token }
+  return { context, requests }
+}
+
+function target(section: FormSectionKey) {
+  return getUniquenessTargets(section, formData)[0]
+}
+
+describe('uniqueness checks', () => {
+  describe('repository names', () => {
+    it('are taken when the branches can be listed', async () => {
+      const { context } = createContext()
+
+      expect(await target('github').check('sales-analytics', context)).toMatchObject({ status: 'taken' })
+    })
+
+    it('are available when the proxy cannot find the repository', async () => {
+      expect(await target('github').check('sales-analytics', createContext({ 'sales-analytics': 404 }).context))
+        .toMatchObject({ status: 'available' })
+      expect(await target('github').check('sales-analytics', createContext({ 'sales-analytics': 422 }).context))
+        .toMatchObject({ status: 'available' })
+    })
+
+    it('stay unknown when the proxy fails', async () => {
+      const { context } = createContext({ 'sales-analytics': 503 })
+
+      expect(await target('github').check('sales-analytics', context)).toMatchObject({ status: 'unknown' })
+    })
+  })
+
+  describe('database names', () => {
+    it('are looked up as ShellCreator config files without credentials', async () => {
+      const { context, requests } = createContext({ 'dev/it/database/sales_db.yaml': 404, 'qa/it/database/sales_db.yaml': 404 })
+
+      const result = await target('newDatabase').check('SALES_DB', context)
+
+      expect(result).toMatchObject({ status: 'available' })
+      expect(requests.map(request => request.data)).toEqual([
+        { repo: 'shell-configs', file_name: 'dev/it/database/sales_db.yaml' },
+        { repo: 'shell-configs', file_name: 'qa/it/database/sales_db.yaml' }
+      ])
+    })
+
+    it('are taken when any selected environment has a config file', async () => {
+      const { context } = createContext({ 'dev/it/database/sales_db.yaml': 404 })
+
+      expect(await target('newDatabase').check('SALES_DB', context)).toMatchObject({
+        status: 'taken',
+        message: 'Database "SALES_DB" already exists in QA'
+      })
+    })
+
+    it('stay unknown when a lookup fails', async () => {
+      const { context } = createContext({ 'dev/it/database/sales_db.yaml': 500 })
+
+      expect(await target('newDatabase').check('SALES_DB', context)).toMatchObject({ status: 'unknown' })
+    })
+
+    it('do not depend on the Step 5 credentials', () => {
+      expect(UNIQUENESS_DEPENDENCIES.databaseAuth).toBeUndefined()
+    })
+  })
+})
@@ -0,0 +1,82 @@
+/**
+ * Shared API Client
+ * Single BaseHttpClient instance used to talk to the DSS Transformation Proxy
+ */
+
+import { BaseHttpClient, createRequestIdInterceptor, createErrorDetailInterceptor } from './http-client'
+import { ProxyApi } from './generated/proxy-api'
+
+// =============================================================================
+// Client Instance
+// =============================================================================
+
+// A POST that timed out at the gateway may already have been applied, e.g. a created repository or
+// project, so only requests that are safe to repeat are retried automatically; a POST that is safe to
+// repeat opts in with `metadata.retry === true`
+const RETRYABLE_METHODS = ['GET', 'HEAD', 'PUT', 'DELETE', 'OPTIONS']
+
+/**
+ * Proxy endpoints are served from the same origin under `/api/v1`, so no baseURL is needed
+ * No `authConfig` is set: the proxy authenticates with the Azure AD session cookie that `/api/v1/auth/login`
+ * sets and has no token or refresh endpoint, so same-origin requests carry it and token refresh stays off.
+ */
+export const apiClient = new BaseHttpClient({
+  timeout: 60000, // 1 minute - admin provisioning calls can be slow
+  maxConcurrentRequests: 6,
+  // Callers pass `metadata.priority` (> 0 for user actions, < 0 for background polling)
+  queueConfig: {
+    maxSize: 50,
+    strategy: 'priority'
+  },
+  // Lookups such as dbt constants, groups and SSO groups are read repeatedly by the wizard
+  cacheConfig: {
+    enabled: true,
+    storage: 'sessionStorage',
+    defaultTTL: 5 * 60 * 1000, // 5 minutes
+    maxSize: 100,
+    keyStrategy: 'url',
+    // A write under one of these paths drops every cached read under the same path; POSTs count as writes
+    // only with `metadata.invalidatesCache`, since get-branches and verify-database are lookups
+    invalidationPatterns: ['/api/v1/dbt/*', '/api/v1/admin/*']
+  },
+  // The proxy returns transient 502/503/504s while it provisions Snowflake and GitHub resources
+  retryConfig: {
+    enabled: true,
+    maxAttempts: 3,
+    strategy: 'exponential',
+    baseDelay: 2000, // 2 seconds
+    maxDelay: 30000, // 30 seconds
+    backoffMultiplier: 2,
+    jitter: 0.2,
+    retryableErrors: ['network', 'server'],
+    retryCondition: error =>
+      (RETRYABLE_METHODS.includes(error.config?.method ?? '') || error.config?.metadata?.retry === true) &&
+      (error.type === 'network' || [502, 503, 504].includes(error.status ?? 0))
+  },
+  // One line per completed request, so a downloaded log shows the trail leading up to a failure; production
+  // builds only buffer the entries for that download instead of printing every response to the console
+  loggingConfig: {
+    enabled: true,
+    level: 'info',
+    logRequests: false,
+    logResponses: true,
+    logErrors: true,
+    logPerformance: false,
+    writeToConsole: import.meta.env.DEV,
+    maxEntries: 500
+  }
+})
+
+apiClient.addRequestInterceptor(createRequestIdInterceptor(), 100, 'RequestIdInterceptor')
+apiClient.addErrorInterceptor(createErrorDetailInterceptor(), 100, 'ErrorDetailInterceptor')
+
+/**
+ * Typed wrappers for every proxy endpoint, generated from the OpenAPI spec
+ */
+export const proxyApi = new ProxyApi(apiClient)
+
+// =============================================================================
+// Default Export
+// =============================================================================
+
+export default apiClient
@@ -0,0 +1,211 @@
+/**
+ * Authentication Manager
+ * Token storage, proactive refresh and single-flight refresh for BaseHttpClient
+ */
+
+import type {
+  AuthConfig,
+  AuthManager,
+  AuthToken
+} from '../types/api';
+
+// =============================================================================
+// Types and Interfaces
+// =============================================================================
+
+/**
+ * Sends the refresh request; BaseHttpClient supplies one that bypasses its own interceptors
+ */
+export type RefreshRequestFn = (url: string, data: Record<string, any>) => Promise<any>;
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Default refresh request used when no client is available to send it
+ */
+async function postRefreshRequest(url: string, data: Record<string, any>): Promise<any> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'Accept': 'application/json' },
+    body: JSON.stringify(data)
+  });
+
+  if (!response.ok) {
+    throw new Error(`Token refresh failed: HTTP ${response.status}`);
+  }
+  return response.json();
+}
+
+/**
+ * Map a refresh endpoint response onto an AuthToken, accepting OAuth-style and AuthToken-style fields
+ */
+function parseRefreshResponse(data: any, previous: AuthToken): AuthToken {
+  const value = data?.access_token ?? data?.token ?? data?.value;
+  if (!value) {
+    throw new Error('Token refresh response did not contain a token');
+  }
+
+  let expiresAt: number | undefined = data.expires_at ?? data.expiresAt;
+  if (expiresAt === undefined && data.expires_in !== undefined) {
+    expiresAt = Date.now() + Number(data.expires_in) * 1000;
+  }
+
+  return {
+    type: previous.type,
+    value,
+    expiresAt,
+    refreshToken: data.refresh_token ?? data.refreshToken ?? previous.refreshToken,
+    metadata: previous.metadata
+  };
+}
+
+// =============================================================================
+// Auth Manager
+// =============================================================================
+
+/**
+ * AuthManager that keeps the token in localStorage under `tokenStorageKey`
+ * Concurrent refreshes share a single in-flight request, so requests that hit a 401 together refresh once
+ */
+export class HttpAuthManager implements AuthManager {
+  readonly config: AuthConfig | null;
+  private refreshRequest: RefreshRequestFn;
+  private refreshPromise: Promise<boolean> | null = null;
+  private refreshTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(config?: AuthConfig, refreshRequest: RefreshRequestFn = postRefreshRequest) {
+    this.config = config ?? null;
+    this.refreshRequest = refreshRequest;
+    this.scheduleRefresh();
+  }
+
+  get currentToken(): AuthToken | null {
+    return this.getToken();
+  }
+
+  get isAuthenticated(): boolean {
+    const token = this.getToken();
+    if (!token) return false;
+    if (token.expiresAt && token.expiresAt <= Date.now()) return false;
+
+    return this.config?.validateToken ? this.config.validateToken(token) : true;
+  }
+
+  /**
+   * Whether a refresh can be attempted at all for the current token
+   */
+  get canRefresh(): boolean {
+    const token = this.getToken();
+    return !!token && !!(this.config?.refreshToken || (this.config?.refreshEndpoint && token.refreshToken));
+  }
+
+  setToken(token: AuthToken): void {
+    if (!this.config) return;
+
+    localStorage.setItem(this.config.tokenStorageKey, JSON.stringify(token));
+    this.scheduleRefresh();
+  }
+
+  getToken(): AuthToken | null {
+    if (!this.config || typeof localStorage === 'undefined') return null;
+
+    const stored = localStorage.getItem(this.config.tokenStorageKey);
+    if (!stored) return null;
+
+    try {
+      return JSON.parse(stored);
+    } catch {
+      // Plain string tokens are treated as bearer tokens, matching createAuthTokenInterceptor
+      return { type: 'bearer', value: stored };
+    }
+  }
+
+  clearAuth(): void {
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+    if (this.config) {
+      localStorage.removeItem(this.config.tokenStorageKey);
+    }
+  }
+
+  /**
+   * Refresh when the token expires within `refreshThreshold`, or wait for a refresh already in flight
+   * @returns True when a refresh happened and succeeded
+   */
+  async refreshIfNeeded(): Promise<boolean> {
+    if (this.refreshPromise) return this.refreshPromise;
+    if (!this.config?.autoRefresh) return false;
+
+    const token = this.getToken();
+    if (!token?.expiresAt || token.expiresAt - Date.now() > this.config.refreshThreshold) {
+      return false;
+    }
+
+    return this.refresh();
+  }
+
+  /**
+   * Refresh the token now; callers arriving while a refresh is in flight share its result
+   * On failure the stored token is cleared so the next request fails fast instead of looping on 401s
+   * @returns True when the token was refreshed
+   */
+  refresh(): Promise<boolean> {
+    if (!this.refreshPromise) {
+      this.refreshPromise = this.performRefresh().finally(() => {
+        this.refreshPromise = null;
+      });
+    }
+    return this.refreshPromise;
+  }
+
+  private async performRefresh(): Promise<boolean> {
+    const token = this.getToken();
+    if (!token || !this.canRefresh) return false;
+
+    try {
+      const refreshed = this.config!.refreshToken
+        ? await this.config!.refreshToken(token)
+        : parseRefreshResponse(
+            await this.refreshRequest(this.config!.refreshEndpoint!, { refresh_token: token.refreshToken }),
+            token
+          );
+
+      this.setToken(refreshed);
+      return true;
+    } catch (error) {
+      console.warn('Token refresh failed:', error);
+      this.clearAuth();
+      return false;
+    }
+  }
+
+  /**
+   * Schedule a proactive refresh `refreshThreshold` before the token expires
+   */
+  private scheduleRefresh(): void {
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+
+    const token = this.getToken();
+    if (!this.config?.autoRefresh || !token?.expiresAt || !this.canRefresh) return;
+
+    // Floor the delay so a token issued with less than `refreshThreshold` left cannot cause a refresh loop
+    const delay = Math.max(token.expiresAt - this.config.refreshThreshold - Date.now(), 10000);
+    this.refreshTimer = setTimeout(() => {
+      this.refreshTimer = null;
+      this.refresh();
+    }, delay);
+  }
+}
+
+// =============================================================================
+// Default Export
+// =============================================================================
+
+export default HttpAuthManager;
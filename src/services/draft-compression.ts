@@ -0,0 +1,264 @@
+/**
+ * Draft Compression
+ * LZW-style string codec used by DraftManager for stored drafts and compressed exports
+ */
+
+// =============================================================================
+// Types and Constants
+// =============================================================================
+
+/**
+ * `utf16` packs 15 bits into each character and is meant for localStorage, which stores UTF-16 strings;
+ * `base64` packs 6 bits into each character and is safe to paste, email or save as a text file
+ */
+export type CompressionEncoding = 'utf16' | 'base64'
+
+/** Format markers written in front of the compressed payload */
+export const COMPRESSION_MARKERS: Record<CompressionEncoding, string> = {
+  utf16: 'lz16:',
+  base64: 'lz64:'
+}
+
+const BASE64_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/'
+
+// Offset keeps UTF-16 output clear of control characters and surrogate pairs
+const UTF16_OFFSET = 32
+
+interface Alphabet {
+  bitsPerChar: number
+  toChar: (value: number) => string
+  fromChar: (char: string) => number
+}
+
+const ALPHABETS: Record<CompressionEncoding, Alphabet> = {
+  utf16: {
+    bitsPerChar: 15,
+    toChar: value => String.fromCharCode(value + UTF16_OFFSET),
+    fromChar: char => char.charCodeAt(0) - UTF16_OFFSET
+  },
+  base64: {
+    bitsPerChar: 6,
+    toChar: value => BASE64_ALPHABET.charAt(value),
+    fromChar: char => BASE64_ALPHABET.indexOf(char)
+  }
+}
+
+// Codes 0 and 1 introduce an 8-bit or 16-bit literal, code 2 ends the stream
+const LITERAL_8 = 0
+const LITERAL_16 = 1
+const END_OF_STREAM = 2
+
+// =============================================================================
+// Codec
+// =============================================================================
+
+function encode(input: string, alphabet: Alphabet): string {
+  const { bitsPerChar, toChar } = alphabet
+  const dictionary = new Map<string, number>()
+  const pendingLiterals = new Set<string>()
+  const output: string[] = []
+
+  let dictSize = 3
+  let numBits = 2
+  let enlargeIn = 2
+  let buffer = 0
+  let position = 0
+
+  const writeBits = (count: number, value: number): void => {
+    for (let i = 0; i < count; i++) {
+      buffer = (buffer << 1) | ((value >> i) & 1)
+      if (++position === bitsPerChar) {
+        output.push(toChar(buffer))
+        buffer = 0
+        position = 0
+      }
+    }
+  }
+
+  const countCode = (): void => {
+    if (--enlargeIn === 0) {
+      enlargeIn = 2 ** numBits
+      numBits++
+    }
+  }
+
+  const emit = (phrase: string): void => {
+    if (pendingLiterals.has(phrase)) {
+      const code = phrase.charCodeAt(0)
+      if (code < 256) {
+        writeBits(numBits, LITERAL_8)
+        writeBits(8, code)
+      } else {
+        writeBits(numBits, LITERAL_16)
+        writeBits(16, code)
+      }
+      // The literal itself becomes a dictionary entry on the decoding side
+      countCode()
+      pendingLiterals.delete(phrase)
+    } else {
+      writeBits(numBits, dictionary.get(phrase)!)
+    }
+    countCode()
+  }
+
+  let phrase = ''
+  for (const char of input.split('')) {
+    if (!dictionary.has(char)) {
+      dictionary.set(char, dictSize++)
+      pendingLiterals.add(char)
+    }
+
+    const extended = phrase + char
+    if (dictionary.has(extended)) {
+      phrase = extended
+    } else {
+      emit(phrase)
+      dictionary.set(extended, dictSize++)
+      phrase = char
+    }
+  }
+
+  if (phrase !== '') {
+    emit(phrase)
+  }
+
+  writeBits(numBits, END_OF_STREAM)
+
+  // Pad the final character
+  while (position !== 0) {
+    writeBits(1, 0)
+  }
+
+  return output.join('')
+}
+
+function decode(input: string, alphabet: Alphabet): string {
+  const { bitsPerChar, fromChar } = alphabet
+  const resetMask = 1 << (bitsPerChar - 1)
+  const dictionary: string[] = ['', '', '']
+
+  let index = 0
+  let mask = resetMask
+  let current = 0
+  let exhausted = false
+
+  const nextChar = (): number => {
+    const value = fromChar(input.charAt(index++))
+    if (value < 0 || value >= 2 ** bitsPerChar) {
+      throw new Error('Compressed data contains invalid characters')
+    }
+    return value
+  }
+
+  const readBits = (count: number): number => {
+    let result = 0
+    for (let i = 0; i < count; i++) {
+      if (exhausted) {
+        throw new Error('Compressed data is truncated')
+      }
+      if (current & mask) {
+        result |= 1 << i
+      }
+      mask >>= 1
+      if (mask === 0) {
+        mask = resetMask
+        if (index < input.length) {
+          current = nextChar()
+        } else {
+          exhausted = true
+        }
+      }
+    }
+    return result
+  }
+
+  if (input.length === 0) return ''
+  current = nextChar()
+
+  let dictSize = 4
+  let numBits = 3
+  let enlargeIn = 4
+
+  let phrase: string
+  switch (readBits(2)) {
+    case LITERAL_8:
+      phrase = String.fromCharCode(readBits(8))
+      break
+    case LITERAL_16:
+      phrase = String.fromCharCode(readBits(16))
+      break
+    case END_OF_STREAM:
+      return ''
+    default:
+      throw new Error('Compressed data is corrupt')
+  }
+
+  dictionary[3] = phrase
+  const output: string[] = [phrase]
+
+  for (;;) {
+    let code = readBits(numBits)
+    if (code === LITERAL_8 || code === LITERAL_16) {
+      dictionary[dictSize++] = String.fromCharCode(readBits(code === LITERAL_8 ? 8 : 16))
+      code = dictSize - 1
+      enlargeIn--
+    } else if (code === END_OF_STREAM) {
+      return output.join('')
+    }
+
+    if (enlargeIn === 0) {
+      enlargeIn = 2 ** numBits
+      numBits++
+    }
+
+    let entry: string
+    if (code < dictSize && dictionary[code] !== undefined) {
+      entry = dictionary[code]
+    } else if (code === dictSize) {
+      entry = phrase + phrase.charAt(0)
+    } else {
+      throw new Error('Compressed data is corrupt')
+    }
+
+    output.push(entry)
+    dictionary[dictSize++] = phrase + entry.charAt(0)
+    phrase = entry
+
+    if (--enlargeIn === 0) {
+      enlargeIn = 2 ** numBits
+      numBits++
+    }
+  }
+}
+
+// =============================================================================
+// Public API
+// =============================================================================
+
+/**
+ * Compress a string and prefix it with the format marker for the encoding
+ */
+export function compressString(data: string, encoding: CompressionEncoding = 'utf16'): string {
+  return COMPRESSION_MARKERS[encoding] + encode(data, ALPHABETS[encoding])
+}
+
+/**
+ * Whether a string starts with one of the compression format markers
+ */
+export function isCompressed(data: string): boolean {
+  return Object.values(COMPRESSION_MARKERS).some(marker => data.startsWith(marker))
+}
+
+/**
+ * Decompress a string written by `compressString`
+ * Strings without a marker are treated as the plain base64 written by older exports
+ */
+export function decompressString(data: string): string {
+  for (const [encoding, marker] of Object.entries(COMPRESSION_MARKERS) as [CompressionEncoding, string][]) {
+    if (data.startsWith(marker)) {
+      return decode(data.slice(marker.length), ALPHABETS[encoding])
+    }
+  }
+
+  return atob(data.trim())
+}
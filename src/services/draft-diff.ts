@@ -0,0 +1,157 @@
+/**
+ * Draft Diff
+ * Field-level comparison of project creation form data, grouped by wizard step
+ */
+
+import type { NewProjectFormData } from '../types/project-creation'
+
+// =============================================================================
+// Types and Interfaces
+// =============================================================================
+
+export type FormSectionKey = keyof NewProjectFormData
+
+export interface FormSectionDefinition {
+  key: FormSectionKey
+  step: number
+  title: string
+}
+
+export interface FieldChange {
+  path: string // dot path within the section, e.g. 'qaAuth.password'
+  label: string
+  kind: 'added' | 'removed' | 'changed'
+  before: unknown
+  after: unknown
+  sensitive: boolean // value must not be displayed
+}
+
+export interface SectionDiff extends FormSectionDefinition {
+  changes: FieldChange[]
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/**
+ * Form sections in wizard order
+ */
+export const FORM_SECTIONS: FormSectionDefinition[] = [
+  { key: 'generalInfo', step: 1, title: 'General Info' },
+  { key: 'setupType', step: 2, title: 'Setup Type' },
+  { key: 'databaseSelection', step: 3, title: 'Database Selection' },
+  { key: 'newDatabase', step: 3.5, title: 'New Database' },
+  { key: 'environments', step: 4, title: 'Environments' },
+  { key: 'databaseAuth', step: 5, title: 'Database Authorization' },
+  { key: 'notifications', step: 6, title: 'Notifications' },
+  { key: 'github', step: 7, title: 'GitHub Setup' },
+  { key: 'entitlements', step: 8, title: 'Entitlements' },
+  { key: 'review', step: 9, title: 'Review & Create' }
+]
+
+const SENSITIVE_FIELDS = /password|privatekey|secret|token|passphrase/i
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0)
+}
+
+/**
+ * 'qaAuth.privateKey' -> 'Qa Auth › Private Key'
+ */
+function toLabel(path: string): string {
+  return path
+    .split('.')
+    .map(part =>
+      part
+        .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+        .replace(/^./, char => char.toUpperCase())
+    )
+    .join(' › ')
+}
+
+/**
+ * Leaf values keyed by dot path; arrays are compared as a whole
+ */
+function flatten(value: unknown, prefix: string = '', leaves: Map<string, unknown> = new Map()): Map<string, unknown> {
+  if (isPlainObject(value)) {
+    for (const [key, child] of Object.entries(value)) {
+      flatten(child, prefix ? `${prefix}.${key}` : key, leaves)
+    }
+  } else if (prefix) {
+    leaves.set(prefix, value)
+  }
+  return leaves
+}
+
+// =============================================================================
+// Public API
+// =============================================================================
+
+/**
+ * Changes needed to go from `current` to `version` for one section
+ */
+export function diffSection(current: unknown, version: unknown): FieldChange[] {
+  const before = flatten(current)
+  const after = flatten(version)
+  const paths = Array.from(new Set([...before.keys(), ...after.keys()])).sort()
+  const changes: FieldChange[] = []
+
+  for (const path of paths) {
+    const from = before.get(path)
+    const to = after.get(path)
+    if (JSON.stringify(from) === JSON.stringify(to)) continue
+    // Treat '' / null / [] and a missing field as the same thing
+    if (isEmpty(from) && isEmpty(to)) continue
+
+    changes.push({
+      path,
+      label: toLabel(path),
+      kind: isEmpty(from) ? 'added' : isEmpty(to) ? 'removed' : 'changed',
+      before: from,
+      after: to,
+      sensitive: SENSITIVE_FIELDS.test(path)
+    })
+  }
+
+  return changes
+}
+
+/**
+ * Field-level differences between the current form and a saved version, for sections that differ
+ */
+export function diffFormData(
+  current: Readonly<Partial<Record<FormSectionKey, unknown>>>,
+  version: Readonly<Partial<Record<FormSectionKey, unknown>>>
+): SectionDiff[] {
+  return FORM_SECTIONS
+    .map(section => ({ ...section, changes: diffSection(current[section.key], version[section.key]) }))
+    .filter(section => section.changes.length > 0)
+}
+
+/**
+ * Display form of a diffed value; sensitive values are masked
+ */
+export function formatDiffValue(value: unknown, sensitive: boolean = false): string {
+  if (isEmpty(value)) return '(empty)'
+  if (sensitive) return '••••••••'
+  if (Array.isArray(value)) {
+    return value.map(item => (typeof item === 'object' ? JSON.stringify(item) : String(item))).join(', ')
+  }
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No'
+  return typeof value === 'object' ? JSON.stringify(value) : String(value)
+}
+
+// =============================================================================
+// Default Export
+// =============================================================================
+
+export default diffFormData
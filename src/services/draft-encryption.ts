@@ -0,0 +1,310 @@
+/**
+ * Draft Encryption
+ * AES-GCM encryption for drafts at rest and for encrypted exports, using the Web Crypto API
+ */
+
+// =============================================================================
+// Types and Constants
+// =============================================================================
+
+/**
+ * `device` keys are non-extractable and never leave this browser profile;
+ * `passphrase` keys are derived with PBKDF2 and can decrypt the payload anywhere
+ */
+export type DraftKeySource = 'device' | 'passphrase'
+
+export interface EncryptedPayload {
+  format: 'aes-gcm-v1'
+  keySource: DraftKeySource
+  iv: string // base64, unique per encryption
+  salt?: string // base64, passphrase keys only
+  iterations?: number // PBKDF2 iterations, passphrase keys only
+  data: string // base64 ciphertext including the authentication tag
+}
+
+export type DraftEncryptionErrorCode =
+  | 'unsupported' // Web Crypto is unavailable (e.g. the app is served over plain http)
+  | 'key-unavailable' // the payload needs a passphrase that has not been provided
+  | 'malformed' // the payload is not an encrypted draft
+  | 'authentication-failed' // wrong key, or the payload was modified
+
+const PAYLOAD_FORMAT = 'aes-gcm-v1'
+const IV_LENGTH = 12 // bytes, as recommended for AES-GCM
+const SALT_LENGTH = 16 // bytes
+const PBKDF2_ITERATIONS = 310000
+
+const KEY_DATABASE = 'vue-layout-draft-keys'
+const KEY_STORE = 'keys'
+const DEVICE_KEY_ID = 'draft-device-key-v1'
+
+// =============================================================================
+// Errors
+// =============================================================================
+
+/**
+ * Error thrown when a draft cannot be encrypted or decrypted
+ */
+export class DraftEncryptionError extends Error {
+  readonly code: DraftEncryptionErrorCode
+
+  constructor(message: string, code: DraftEncryptionErrorCode) {
+    super(message)
+    this.name = 'DraftEncryptionError'
+    this.code = code
+  }
+}
+
+/**
+ * Error thrown when AES-GCM rejects a payload: the key or passphrase is wrong, or the data was tampered with
+ */
+export class DraftAuthenticationError extends DraftEncryptionError {
+  constructor(message: string) {
+    super(message, 'authentication-failed')
+    this.name = 'DraftAuthenticationError'
+  }
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = ''
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000))
+  }
+  return btoa(binary)
+}
+
+function fromBase64(value: string): Uint8Array {
+  const binary = atob(value)
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i)
+  }
+  return bytes
+}
+
+function randomBytes(length: number): Uint8Array {
+  return crypto.getRandomValues(new Uint8Array(length))
+}
+
+/**
+ * Whether a value has the shape of an EncryptedPayload
+ */
+export function isEncryptedPayload(value: unknown): value is EncryptedPayload {
+  const payload = value as EncryptedPayload | null
+  return (
+    typeof payload === 'object' &&
+    payload !== null &&
+    payload.format === PAYLOAD_FORMAT &&
+    typeof payload.iv === 'string' &&
+    typeof payload.data === 'string'
+  )
+}
+
+// =============================================================================
+// Draft Cipher
+// =============================================================================
+
+/**
+ * Encrypts strings with AES-GCM
+ * Uses the passphrase when one is set (or passed per call), otherwise a non-extractable device key kept in IndexedDB
+ */
+export class DraftCipher {
+  private passphrase: string | null = null
+  private passphraseSalt: Uint8Array | null = null
+  private derivedKeys = new Map<string, Promise<CryptoKey>>()
+  private deviceKey: Promise<CryptoKey> | null = null
+
+  static isSupported(): boolean {
+    return typeof crypto !== 'undefined' && typeof crypto.subtle !== 'undefined'
+  }
+
+  get hasPassphrase(): boolean {
+    return this.passphrase !== null
+  }
+
+  /**
+   * Encrypt with a key derived from this passphrase from now on; `null` goes back to the device key
+   */
+  setPassphrase(passphrase: string | null): void {
+    this.passphrase = passphrase || null
+    this.passphraseSalt = null
+    this.derivedKeys.clear()
+  }
+
+  async encrypt(plaintext: string, options: { passphrase?: string } = {}): Promise<EncryptedPayload> {
+    this.assertSupported()
+
+    const iv = randomBytes(IV_LENGTH)
+    const passphrase = options.passphrase ?? this.passphrase
+    let payload: Omit<EncryptedPayload, 'data'>
+    let key: CryptoKey
+
+    if (passphrase) {
+      // Stored drafts share a session salt so the PBKDF2 cost is paid once; one-off exports get their own
+      const salt = options.passphrase ? randomBytes(SALT_LENGTH) : this.getPassphraseSalt()
+      key = await this.derivePassphraseKey(passphrase, salt, PBKDF2_ITERATIONS)
+      payload = {
+        format: PAYLOAD_FORMAT,
+        keySource: 'passphrase',
+        iv: toBase64(iv),
+        salt: toBase64(salt),
+        iterations: PBKDF2_ITERATIONS
+      }
+    } else {
+      key = await this.getDeviceKey()
+      payload = { format: PAYLOAD_FORMAT, keySource: 'device', iv: toBase64(iv) }
+    }
+
+    const ciphertext = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv },
+      key,
+      new TextEncoder().encode(plaintext)
+    )
+
+    return { ...payload, data: toBase64(new Uint8Array(ciphertext)) }
+  }
+
+  async decrypt(payload: unknown, options: { passphrase?: string } = {}): Promise<string> {
+    this.assertSupported()
+
+    if (!isEncryptedPayload(payload)) {
+      throw new DraftEncryptionError('Data is not an encrypted draft', 'malformed')
+    }
+
+    let key: CryptoKey
+    if (payload.keySource === 'passphrase') {
+      const passphrase = options.passphrase ?? this.passphrase
+      if (!passphrase) {
+        throw new DraftEncryptionError('This draft is protected by a passphrase', 'key-unavailable')
+      }
+      if (!payload.salt || !payload.iterations) {
+        throw new DraftEncryptionError('Encrypted draft is missing its key derivation parameters', 'malformed')
+      }
+      key = await this.derivePassphraseKey(passphrase, fromBase64(payload.salt), payload.iterations)
+    } else {
+      key = await this.getDeviceKey()
+    }
+
+    let iv: Uint8Array
+    let data: Uint8Array
+    try {
+      iv = fromBase64(payload.iv)
+      data = fromBase64(payload.data)
+    } catch {
+      throw new DraftEncryptionError('Encrypted draft is not valid base64', 'malformed')
+    }
+
+    try {
+      const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv }, key, data)
+      return new TextDecoder().decode(plaintext)
+    } catch {
+      throw new DraftAuthenticationError(
+        payload.keySource === 'passphrase'
+          ? 'The passphrase is incorrect or the draft has been modified'
+          : 'The draft was encrypted on another device or has been modified'
+      )
+    }
+  }
+
+  private assertSupported(): void {
+    if (!DraftCipher.isSupported()) {
+      throw new DraftEncryptionError('Draft encryption requires a secure (https) context', 'unsupported')
+    }
+  }
+
+  private getPassphraseSalt(): Uint8Array {
+    if (!this.passphraseSalt) {
+      this.passphraseSalt = randomBytes(SALT_LENGTH)
+    }
+    return this.passphraseSalt
+  }
+
+  private derivePassphraseKey(passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> {
+    const cacheKey = `${passphrase === this.passphrase ? 'session' : passphrase}:${toBase64(salt)}:${iterations}`
+    const cached = this.derivedKeys.get(cacheKey)
+    if (cached) return cached
+
+    const derived = crypto.subtle
+      .importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey'])
+      .then(material =>
+        crypto.subtle.deriveKey(
+          { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+          material,
+          { name: 'AES-GCM', length: 256 },
+          false,
+          ['encrypt', 'decrypt']
+        )
+      )
+
+    // Only the session passphrase is worth keeping; one-off export passphrases are dropped after use
+    if (passphrase === this.passphrase) {
+      this.derivedKeys.set(cacheKey, derived)
+    }
+    return derived
+  }
+
+  private getDeviceKey(): Promise<CryptoKey> {
+    if (!this.deviceKey) {
+      this.deviceKey = this.loadOrCreateDeviceKey().catch(error => {
+        this.deviceKey = null
+        throw error instanceof DraftEncryptionError
+          ? error
+          : new DraftEncryptionError(
+              `Device key is unavailable: ${error instanceof Error ? error.message : 'Unknown error'}`,
+              'key-unavailable'
+            )
+      })
+    }
+    return this.deviceKey
+  }
+
+  private async loadOrCreateDeviceKey(): Promise<CryptoKey> {
+    if (typeof indexedDB === 'undefined') {
+      throw new DraftEncryptionError('Device keys require IndexedDB', 'unsupported')
+    }
+
+    const db = await new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(KEY_DATABASE, 1)
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(KEY_STORE)
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    })
+
+    const run = <T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest): Promise<T> =>
+      new Promise((resolve, reject) => {
+        const request = operation(db.transaction(KEY_STORE, mode).objectStore(KEY_STORE))
+        request.onsuccess = () => resolve(request.result)
+        request.onerror = () => reject(request.error)
+      })
+
+    try {
+      const existing = await run<CryptoKey | undefined>('readonly', store => store.get(DEVICE_KEY_ID))
+      if (existing) return existing
+
+      // CryptoKey objects are structured-cloneable, so the key is stored without ever being exported
+      const key = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt'])
+      await run('readwrite', store => store.add(key, DEVICE_KEY_ID))
+      return key
+    } catch (error) {
+      // Another tab created the key first
+      if (error instanceof DOMException && error.name === 'ConstraintError') {
+        const key = await run<CryptoKey | undefined>('readonly', store => store.get(DEVICE_KEY_ID))
+        if (key) return key
+      }
+      throw error
+    } finally {
+      db.close()
+    }
+  }
+}
+
+// =============================================================================
+// Default Export
+// =============================================================================
+
+export default DraftCipher
@@ -10,6 +10,14 @@ import type {
   DraftRestorationOptions,
   NavigationState
 } from '../types/project-creation'
+import type { ExecutionJournal } from './project-creation-saga'
+import { compressString, decompressString, isCompressed } from './draft-compression'
+import { DraftCipher, DraftEncryptionError } from './draft-encryption'
+import type { EncryptedPayload } from './draft-encryption'
+import { createDraftStorage } from './draft-storage'
+import type { DraftStorageAdapter, DraftStorageChangeEvent, DraftStorageType } from './draft-storage'
+import { CURRENT_DRAFT_SCHEMA_VERSION, DraftSchemaError, migrateDraft } from './draft-migrations'
+import type { DraftMigrationReport } from './draft-migrations'
 
 // =============================================================================
 // Types and Interfaces
@@ -17,6 +25,7 @@ import type {
 
 export interface DraftManagerConfig {
   storageKey: string
+  storage: DraftStorageType // falls back to localStorage where IndexedDB is unavailable
   maxDrafts: number
   maxVersions: number
   compressionEnabled: boolean
@@ -42,15 +51,23 @@ export interface EnhancedDraftMetadata extends DraftMetadata {
   tags: string[]
   progress: number // 0-100 percentage
   lastAccessedAt: number
+  /** Why the draft cannot be opened, e.g. it is locked or from a newer release; its stored record is kept as is */
+  unavailable?: string
 }
 
 export interface EnhancedProjectCreationDraft {
   metadata: EnhancedDraftMetadata
   currentVersion: DraftVersion
+  /** Journal of a project creation run that has not settled yet */
+  executionJournal?: ExecutionJournal
 }
 
 export interface StorageInfo {
-  used: number // bytes
+  storageType: DraftStorageType
+  used: number // bytes actually occupied by the drafts
+  uncompressedSize: number // bytes the drafts would occupy as plain JSON
+  compressionRatio: number // used / uncompressedSize (1 when compression is off)
+  encryption: 'enabled' | 'disabled' | 'unsupported' // 'unsupported' when Web Crypto is unavailable
   available: number // bytes
   quota: number // bytes
   draftsCount: number
@@ -74,10 +91,66 @@ export interface DraftSearchOptions {
   limit?: number
 }
 
+/**
+ * A draft that another tab saved since this tab last loaded or saved it
+ */
+export interface DraftConflict {
+  draftId: string
+  remoteVersion: DraftVersion
+  detectedAt: number
+}
+
+/**
+ * What saveDraft stored; `checksum` is the saved form data's, which may differ from the live form by then
+ */
+export interface DraftSaveResult {
+  draftId: string
+  checksum: string
+}
+
 export interface DraftExportOptions {
   format: 'json' | 'compressed' | 'encrypted'
   includeVersions: boolean
   includeMetadata: boolean
+  passphrase?: string // required for the 'encrypted' format
+}
+
+/**
+ * Stored form of a draft when encryption is enabled; form data, versions and the execution journal are sealed,
+ * the rest of the metadata stays readable
+ */
+interface SealedDraft {
+  metadata: EnhancedDraftMetadata
+  sealed: EncryptedPayload
+}
+
+type StoredDraft = EnhancedProjectCreationDraft | SealedDraft
+
+/**
+ * Stored draft that could not be opened, kept so later writes preserve it untouched
+ */
+interface UnavailableDraft {
+  record: StoredDraft
+  error: DraftEncryptionError | DraftSchemaError
+}
+
+// =============================================================================
+// Errors
+// =============================================================================
+
+/**
+ * Error thrown by saveDraft when the stored version no longer matches the version the caller based its edits on
+ */
+export class DraftConflictError extends Error {
+  readonly draftId: string
+  readonly remoteVersion: DraftVersion
+
+  constructor(draftId: string, remoteVersion: DraftVersion) {
+    super(`Draft ${draftId} was changed in another tab`)
+    this.name = 'DraftConflictError'
+    this.draftId = draftId
+    this.remoteVersion = remoteVersion
+  }
 }
 
 // =============================================================================
@@ -87,11 +160,19 @@ export interface DraftExportOptions {
 export class DraftManager {
   private config: DraftManagerConfig
   private cleanupTimer: number | null = null
-  private syncListeners: Set<(event: StorageEvent) => void> = new Set()
+  private syncListeners: Set<(event: DraftStorageChangeEvent) => void> = new Set()
+  private unsubscribeStorage: (() => void) | null = null
+  private cipher = new DraftCipher()
+  private storage: Promise<DraftStorageAdapter>
+  private migrationReports: DraftMigrationReport[] = []
+  private encryptionUnsupported = false
+  private writeQueue: Promise<void> = Promise.resolve()
+  private unavailableDrafts = new Map<string, UnavailableDraft>()
 
   constructor(config: Partial<DraftManagerConfig> = {}) {
     this.config = {
       storageKey: 'vue-layout-project-creation-drafts-v2',
+      storage: 'indexedDB',
       maxDrafts: 10,
       maxVersions: 5,
       compressionEnabled: true,
@@ -102,6 +183,19 @@ export class DraftManager {
       ...config
     }
 
+    // Web Crypto only exists in secure contexts; on plain http drafts are kept unencrypted rather than not at all
+    if (this.config.encryptionEnabled && !DraftCipher.isSupported()) {
+      console.warn('Draft encryption requires a secure (https) context; drafts will be stored unencrypted')
+      this.config.encryptionEnabled = false
+      this.encryptionUnsupported = true
+    }
+
+    // Drafts saved by earlier releases live in localStorage and are moved over on first use
+    this.storage = createDraftStorage(
+      this.config.storage,
+      [this.config.storageKey],
+      (stored, legacy) => this.mergeStoredDrafts(stored, legacy)
+    )
     this.initialize()
   }
 
@@ -122,18 +216,17 @@ export class DraftManager {
 
   private startCleanupTimer(): void {
     this.cleanupTimer = window.setInterval(() => {
-      this.cleanupOldDrafts()
+      this.cleanupOldDrafts().catch(error => console.warn('Failed to clean up old drafts:', error))
     }, this.config.cleanupInterval)
   }
 
-  private setupCrossTabSync(): void {
-    const syncHandler = (event: StorageEvent) => {
+  private async setupCrossTabSync(): Promise<void> {
+    const storage = await this.storage
+    this.unsubscribeStorage = storage.subscribe(event => {
       if (event.key === this.config.storageKey) {
         this.syncListeners.forEach(listener => listener(event))
       }
-    }
-
-    window.addEventListener('storage', syncHandler)
+    })
   }
 
   public destroy(): void {
@@ -142,6 +235,8 @@ export class DraftManager {
       this.cleanupTimer = null
     }
 
+    this.unsubscribeStorage?.()
+    this.unsubscribeStorage = null
     this.syncListeners.clear()
   }
 
@@ -157,8 +252,11 @@ export class DraftManager {
       description?: string
       tags?: string[]
       draftId?: string
+      /** Checksum of the version these edits started from; a different stored version is a conflict */
+      baseChecksum?: string
     } = {}
-  ): Promise<string> {
+  ): Promise<DraftSaveResult> {
+    const release = await this.lock()
     try {
       const now = Date.now()
       const draftId = options.draftId || `draft-${now}`
@@ -173,9 +271,16 @@ export class DraftManager {
       }
 
       // Get existing draft or create new one
-      const existingDrafts = await this.getAllDrafts()
+      const existingDrafts = await this.readDrafts()
       const existingDraft = existingDrafts.find(d => d.metadata.id === draftId)
 
+      if (existingDraft && options.baseChecksum !== undefined) {
+        const stored = existingDraft.currentVersion
+        if (stored.checksum !== options.baseChecksum && stored.checksum !== version.checksum) {
+          throw new DraftConflictError(draftId, stored)
+        }
+      }
+
       let draft: EnhancedProjectCreationDraft
 
       if (existingDraft) {
@@ -184,6 +289,7 @@ export class DraftManager {
           .slice(-this.config.maxVersions) // Keep only latest versions
 
         draft = {
+          ...existingDraft,
           metadata: {
             ...existingDraft.metadata,
             updatedAt: now,
@@ -192,6 +298,8 @@ export class DraftManager {
             title: options.title || existingDraft.metadata.title,
             description: options.description || existingDraft.metadata.description,
             tags: options.tags || existingDraft.metadata.tags,
+            compressed: this.config.compressionEnabled,
+            encrypted: this.config.encryptionEnabled,
             progress: this.calculateProgress(formData, navigationState)
           },
           currentVersion: version
@@ -206,7 +314,7 @@ export class DraftManager {
             lastAccessedAt: now,
             title: options.title || formData.generalInfo?.name || 'Untitled Project',
             description: options.description || formData.generalInfo?.description,
-            version: '2.0.0',
+            version: CURRENT_DRAFT_SCHEMA_VERSION,
             versions: [version],
             size: 0,
             compressed: this.config.compressionEnabled,
@@ -224,16 +332,20 @@ export class DraftManager {
       // Save to storage
       await this.saveDraftToStorage(draft)
 
-      return draftId
+      return { draftId, checksum: version.checksum }
     } catch (error) {
+      if (error instanceof DraftConflictError) throw error
       console.error('Failed to save draft:', error)
+      if (error instanceof DraftEncryptionError || error instanceof DraftSchemaError) throw error
       throw new Error(`Failed to save draft: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    } finally {
+      release()
     }
   }
 
   public async loadDraft(
     draftId: string,
-    options: DraftRestorationOptions & { versionId?: string } = {
+    options: DraftRestorationOptions = {
       restoreFormData: true,
       restoreStepPosition: true,
       mergeWithCurrent: false
@@ -242,12 +354,13 @@ export class DraftManager {
     formData: ProjectFormData
     navigationState: Pick<NavigationState, 'currentStep' | 'totalSteps'>
   }> {
+    const release = await this.lock()
     try {
-      const drafts = await this.getAllDrafts()
+      const drafts = await this.readDrafts()
       const draft = drafts.find(d => d.metadata.id === draftId)
 
       if (!draft) {
-        throw new Error(`Draft ${draftId} not found`)
+        throw this.unavailableDrafts.get(draftId)?.error ?? new Error(`Draft ${draftId} not found`)
       }
 
       // Update last accessed time
@@ -258,9 +371,10 @@ export class DraftManager {
       let version = draft.currentVersion
       if (options.versionId) {
         const specificVersion = draft.metadata.versions.find(v => v.id === options.versionId)
-        if (specificVersion) {
-          version = specificVersion
+        if (!specificVersion) {
+          throw new Error(`Version ${options.versionId} of draft ${draftId} not found`)
         }
+        version = specificVersion
       }
 
       return {
@@ -269,37 +383,95 @@ export class DraftManager {
       }
     } catch (error) {
       console.error('Failed to load draft:', error)
+      if (error instanceof DraftEncryptionError || error instanceof DraftSchemaError) throw error
       throw new Error(`Failed to load draft: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    } finally {
+      release()
     }
   }
 
   public async deleteDraft(draftId: string): Promise<void> {
+    const release = await this.lock()
     try {
-      const drafts = await this.getAllDrafts()
+      const drafts = await this.readDrafts()
       const filteredDrafts = drafts.filter(d => d.metadata.id !== draftId)
+      this.unavailableDrafts.delete(draftId)
       await this.saveAllDrafts(filteredDrafts)
     } catch (error) {
       console.error('Failed to delete draft:', error)
+      if (error instanceof DraftEncryptionError || error instanceof DraftSchemaError) throw error
       throw new Error(`Failed to delete draft: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    } finally {
+      release()
     }
   }
 
-  public async getAllDrafts(): Promise<EnhancedProjectCreationDraft[]> {
-    try {
-      const stored = localStorage.getItem(this.config.storageKey)
-      if (!stored) return []
-
-      const data = JSON.parse(stored)
-      return Array.isArray(data) ? data : []
-    } catch (error) {
+  public getAllDrafts(): Promise<EnhancedProjectCreationDraft[]> {
+    // Reading can persist upgraded drafts, so it waits for pending updates like any other write
+    // Lists and lookups show no drafts when storage cannot be read; writes get the error from readDrafts instead
+    return this.exclusive(() => this.readDrafts()).catch(error => {
       console.warn('Failed to load drafts:', error)
       return []
+    })
+  }
+
+  /**
+   * Schema migrations applied to stored or imported drafts since this manager was created
+   */
+  public getMigrationReports(): DraftMigrationReport[] {
+    return [...this.migrationReports]
+  }
+
+  /**
+   * Encrypt drafts with a key derived from this passphrase instead of the device key; `null` clears it.
+   * Drafts already sealed with the passphrase cannot be read until it is set again.
+   */
+  public setEncryptionPassphrase(passphrase: string | null): void {
+    this.cipher.setPassphrase(passphrase)
+  }
+
+  /**
+   * Latest saved version of a draft, or null if it no longer exists
+   */
+  public async getCurrentVersion(draftId: string): Promise<DraftVersion | null> {
+    const drafts = await this.getAllDrafts()
+    return drafts.find(d => d.metadata.id === draftId)?.currentVersion ?? null
+  }
+
+  /**
+   * Checksum saveDraft would record for this form data
+   */
+  public computeChecksum(formData: ProjectFormData): string {
+    return this.generateChecksum(formData)
+  }
+
+  /**
+   * Saved versions of a draft, newest first
+   */
+  public async getDraftVersions(draftId: string): Promise<DraftVersion[]> {
+    const drafts = await this.getAllDrafts()
+    const draft = drafts.find(d => d.metadata.id === draftId)
+
+    if (!draft) {
+      throw new Error(`Draft ${draftId} not found`)
     }
+
+    return [...draft.metadata.versions].sort((a, b) => b.timestamp - a.timestamp)
   }
 
+  /**
+   * Metadata of every stored draft; drafts that cannot be opened are listed with `unavailable` set
+   */
   public async getDraftMetadata(): Promise<EnhancedDraftMetadata[]> {
     const drafts = await this.getAllDrafts()
-    return drafts.map(d => d.metadata)
+    const unavailable = [...this.unavailableDrafts].map(([id, { record, error }]) => ({
+      ...record.metadata,
+      id,
+      title: record.metadata?.title || 'Unreadable draft',
+      versions: [],
+      unavailable: error.message
+    }))
+    return [...drafts.map(d => d.metadata), ...unavailable]
   }
 
   // =============================================================================
@@ -367,14 +539,24 @@ export class DraftManager {
 
   public async getStorageInfo(): Promise<StorageInfo> {
     const drafts = await this.getAllDrafts()
-    const totalSize = drafts.reduce((sum, draft) => sum + draft.metadata.size, 0)
-    
-    // Estimate available storage (this is approximate)
-    const quota = this.estimateStorageQuota()
-    
+
+    const storage = await this.storage
+
+    // Both backends keep strings as UTF-16, so both sizes are measured in code units
+    const stored = (await storage.read(this.config.storageKey)) ?? ''
+    const used = stored.length * 2
+    const uncompressedSize = drafts.length > 0 ? JSON.stringify(drafts).length * 2 : 0
+
+    // IndexedDB reports the origin's real quota and usage; localStorage only has a fixed estimate
+    const { quota, usage } = await storage.estimate()
+
     return {
-      used: totalSize,
-      available: quota - totalSize,
+      storageType: storage.type,
+      used,
+      uncompressedSize,
+      compressionRatio: uncompressedSize > 0 ? used / uncompressedSize : 1,
+      encryption: this.config.encryptionEnabled ? 'enabled' : this.encryptionUnsupported ? 'unsupported' : 'disabled',
+      available: Math.max(0, quota - (usage ?? used)),
       quota,
       draftsCount: drafts.length,
       oldestDraft: drafts.length > 0 ? Math.min(...drafts.map(d => d.metadata.createdAt)) : 0,
@@ -383,39 +565,43 @@ export class DraftManager {
   }
 
   public async cleanupOldDrafts(): Promise<number> {
-    const drafts = await this.getAllDrafts()
-    const now = Date.now()
-    const cutoff = now - this.config.maxAge
+    return this.exclusive(async () => {
+      const drafts = await this.readDrafts()
+      const now = Date.now()
+      const cutoff = now - this.config.maxAge
 
-    const validDrafts = drafts.filter(draft => draft.metadata.createdAt > cutoff)
-    const removedCount = drafts.length - validDrafts.length
+      const validDrafts = drafts.filter(draft => draft.metadata.createdAt > cutoff)
+      const removedCount = drafts.length - validDrafts.length
 
-    if (removedCount > 0) {
-      await this.saveAllDrafts(validDrafts)
-    }
+      if (removedCount > 0) {
+        await this.saveAllDrafts(validDrafts)
+      }
 
-    return removedCount
+      return removedCount
+    })
   }
 
   public async optimizeStorage(): Promise<void> {
-    const drafts = await this.getAllDrafts()
+    return this.exclusive(async () => {
+      const drafts = await this.readDrafts()
     
-    // Remove duplicate versions based on checksum
-    const optimizedDrafts = drafts.map(draft => {
-      const uniqueVersions = draft.metadata.versions.filter((version, index, array) =>
-        array.findIndex(v => v.checksum === version.checksum) === index
-      )
-
-      return {
-        ...draft,
-        metadata: {
-          ...draft.metadata,
-          versions: uniqueVersions.slice(-this.config.maxVersions)
+      // Remove duplicate versions based on checksum
+      const optimizedDrafts = drafts.map(draft => {
+        const uniqueVersions = draft.metadata.versions.filter((version, index, array) =>
+          array.findIndex(v => v.checksum === version.checksum) === index
+        )
+
+        return {
+          ...draft,
+          metadata: {
+            ...draft.metadata,
+            versions: uniqueVersions.slice(-this.config.maxVersions)
+          }
         }
-      }
-    })
+      })
 
-    await this.saveAllDrafts(optimizedDrafts)
+      await this.saveAllDrafts(optimizedDrafts)
+    })
   }
 
   // =============================================================================
@@ -453,48 +639,88 @@ export class DraftManager {
       case 'json':
         return JSON.stringify(exportData, null, 2)
       case 'compressed':
-        return this.compress(JSON.stringify(exportData))
+        return compressString(JSON.stringify(exportData), 'base64')
       case 'encrypted':
-        return this.encrypt(JSON.stringify(exportData))
+        // The device key never leaves this browser, so exports are always sealed with a passphrase
+        if (!options.passphrase) {
+          throw new DraftEncryptionError('Encrypted exports need a passphrase', 'key-unavailable')
+        }
+        return JSON.stringify(
+          await this.cipher.encrypt(this.packSecret(JSON.stringify(exportData)), { passphrase: options.passphrase }),
+          null,
+          2
+        )
       default:
         return JSON.stringify(exportData, null, 2)
     }
   }
 
-  public async importDraft(data: string, format: 'json' | 'compressed' | 'encrypted' = 'json'): Promise<string> {
+  public async importDraft(
+    data: string,
+    format: 'json' | 'compressed' | 'encrypted' = 'json',
+    options: { passphrase?: string } = {}
+  ): Promise<string> {
     try {
       let parsedData: any
 
       switch (format) {
         case 'compressed':
-          parsedData = JSON.parse(this.decompress(data))
+          parsedData = JSON.parse(decompressString(data))
           break
-        case 'encrypted':
-          parsedData = JSON.parse(this.decrypt(data))
+        case 'encrypted': {
+          let payload: unknown
+          try {
+            payload = JSON.parse(data)
+          } catch {
+            throw new DraftEncryptionError('Data is not an encrypted draft', 'malformed')
+          }
+          parsedData = JSON.parse(this.unpackSecret(await this.cipher.decrypt(payload, options)))
           break
+        }
         default:
           parsedData = JSON.parse(data)
       }
 
+      // Exports list versions next to the metadata; the draft may also come from an older schema
+      const upgraded = this.upgradeDraft(
+        parsedData.metadata
+          ? { ...parsedData, metadata: { ...parsedData.metadata, versions: parsedData.metadata.versions ?? parsedData.versions } }
+          : parsedData
+      )
+      const metadata: Partial<EnhancedDraftMetadata> = upgraded.metadata ?? {}
+      const currentVersion = upgraded.currentVersion
+      if (!currentVersion?.formData) {
+        throw new Error('Draft has no form data')
+      }
+
       // Generate new ID for imported draft
       const newId = `imported-${Date.now()}`
       const now = Date.now()
 
       const draft: EnhancedProjectCreationDraft = {
         metadata: {
-          ...parsedData.metadata,
+          tags: [],
+          compressed: false,
+          encrypted: false,
+          ...metadata,
           id: newId,
           createdAt: now,
           updatedAt: now,
           lastAccessedAt: now,
-          title: `${parsedData.metadata?.title || 'Imported Draft'} (Imported)`
+          title: `${metadata.title || 'Imported Draft'} (Imported)`,
+          version: CURRENT_DRAFT_SCHEMA_VERSION,
+          versions: metadata.versions ?? [currentVersion],
+          progress: this.calculateProgress(currentVersion.formData, currentVersion.navigationState),
+          size: 0
         },
-        currentVersion: parsedData.currentVersion
+        currentVersion
       }
+      draft.metadata.size = this.calculateSize(draft)
 
-      await this.saveDraftToStorage(draft)
+      await this.exclusive(() => this.saveDraftToStorage(draft))
       return newId
     } catch (error) {
+      if (error instanceof DraftEncryptionError || error instanceof DraftSchemaError) throw error
       throw new Error(`Failed to import draft: ${error instanceof Error ? error.message : 'Unknown error'}`)
     }
   }
@@ -503,17 +729,146 @@ export class DraftManager {
   // Cross-Tab Synchronization
   // =============================================================================
 
-  public onDraftChange(callback: (event: StorageEvent) => void): () => void {
+  public onDraftChange(callback: (event: DraftStorageChangeEvent) => void): () => void {
     this.syncListeners.add(callback)
     return () => this.syncListeners.delete(callback)
   }
 
+  // =============================================================================
+  // Execution Journal
+  // =============================================================================
+
+  public async saveExecutionJournal(draftId: string, journal: ExecutionJournal): Promise<void> {
+    return this.exclusive(async () => {
+      const drafts = await this.readDrafts()
+      const draft = drafts.find(d => d.metadata.id === draftId)
+
+      if (!draft) {
+        throw new Error(`Draft ${draftId} not found`)
+      }
+
+      draft.executionJournal = this.deepClone(journal)
+      await this.saveAllDrafts(drafts)
+    })
+  }
+
+  public async getExecutionJournal(draftId: string): Promise<ExecutionJournal | null> {
+    const drafts = await this.getAllDrafts()
+    return drafts.find(d => d.metadata.id === draftId)?.executionJournal ?? null
+  }
+
+  public async clearExecutionJournal(draftId: string): Promise<void> {
+    return this.exclusive(async () => {
+      const drafts = await this.readDrafts()
+      const draft = drafts.find(d => d.metadata.id === draftId)
+
+      if (draft?.executionJournal) {
+        delete draft.executionJournal
+        await this.saveAllDrafts(drafts)
+      }
+    })
+  }
+
+  /**
+   * Most recently updated draft whose creation run was interrupted before it settled
+   */
+  public async findInterruptedExecution(): Promise<{ draftId: string; journal: ExecutionJournal } | null> {
+    const drafts = await this.getAllDrafts()
+    const interrupted = drafts
+      .filter(d => d.executionJournal)
+      .sort((a, b) => b.executionJournal!.updatedAt - a.executionJournal!.updatedAt)[0]
+
+    return interrupted ? { draftId: interrupted.metadata.id, journal: interrupted.executionJournal! } : null
+  }
+
   // =============================================================================
   // Private Helper Methods
   // =============================================================================
 
+  /**
+   * Wait until every earlier read-modify-write of the stored draft list has settled
+   * Storage and crypto calls are async, so an auto-save and a journal write would otherwise overwrite each other.
+   * While holding the lock, read with readDrafts; getAllDrafts would wait for the lock itself.
+   * @returns Function that releases the lock
+   */
+  private async lock(): Promise<() => void> {
+    const previous = this.writeQueue
+    let release!: () => void
+    this.writeQueue = new Promise<void>(resolve => {
+      release = resolve
+    })
+    await previous
+    return release
+  }
+
+  private async exclusive<T>(operation: () => Promise<T>): Promise<T> {
+    const release = await this.lock()
+    try {
+      return await operation()
+    } finally {
+      release()
+    }
+  }
+
+  /**
+   * Read and open the stored draft list
+   * Storage and parse failures are thrown rather than read as an empty list, since writing that list back would delete every draft.
+   */
+  private async readDrafts(): Promise<EnhancedProjectCreationDraft[]> {
+    const stored = await (await this.storage).read(this.config.storageKey)
+    if (!stored) return []
+
+    // A locked, tampered or newer-schema draft is set aside on its own so the others stay usable
+    const unavailable = new Map<string, UnavailableDraft>()
+    const results = await Promise.all(this.parseStoredDrafts(stored).map(async (record, index) => {
+      try {
+        const opened = await this.openDraft(record)
+        return { opened, draft: this.upgradeDraft(opened) }
+      } catch (error) {
+        if (!(error instanceof DraftEncryptionError || error instanceof DraftSchemaError)) throw error
+        unavailable.set(record.metadata?.id ?? `unavailable-${index}`, { record, error })
+        return null
+      }
+    }))
+    this.unavailableDrafts = unavailable
+
+    const opened = results.filter((result): result is NonNullable<typeof result> => result !== null)
+    const drafts = opened.map(result => result.draft)
+
+    // Persist upgraded drafts so each migration runs once
+    if (opened.some(result => result.draft !== result.opened)) {
+      await this.saveAllDrafts(drafts)
+    }
+    return drafts
+  }
+
+  private parseStoredDrafts(stored: string): StoredDraft[] {
+    // Drafts written before compression was enabled are plain JSON
+    const data = JSON.parse(isCompressed(stored) ? decompressString(stored) : stored)
+    return Array.isArray(data) ? data : []
+  }
+
+  /**
+   * Combine a draft list left in localStorage with the one in IndexedDB, keeping the newer copy of each draft
+   * Records are compared by their metadata, which stays readable when the rest is sealed.
+   */
+  private mergeStoredDrafts(stored: string, legacy: string): string {
+    const records = new Map<string, StoredDraft>()
+    for (const record of [...this.parseStoredDrafts(stored), ...this.parseStoredDrafts(legacy)]) {
+      const existing = records.get(record.metadata.id)
+      if (!existing || (record.metadata.updatedAt ?? 0) > (existing.metadata.updatedAt ?? 0)) {
+        records.set(record.metadata.id, record)
+      }
+    }
+
+    const merged = [...records.values()]
+      .sort((a, b) => (b.metadata.updatedAt ?? 0) - (a.metadata.updatedAt ?? 0))
+      .slice(0, this.config.maxDrafts)
+    return this.serializeDrafts(merged)
+  }
+
   private async saveDraftToStorage(draft: EnhancedProjectCreationDraft): Promise<void> {
-    const drafts = await this.getAllDrafts()
+    const drafts = await this.readDrafts()
     const existingIndex = drafts.findIndex(d => d.metadata.id === draft.metadata.id)
 
     if (existingIndex >= 0) {
@@ -528,20 +883,75 @@ export class DraftManager {
   }
 
   private async saveAllDrafts(drafts: EnhancedProjectCreationDraft[]): Promise<void> {
+    // Drafts that could not be opened are written back exactly as they were read
+    const ids = new Set(drafts.map(draft => draft.metadata.id))
+    const kept = [...this.unavailableDrafts]
+      .filter(([id]) => !ids.has(id))
+      .map(([, { record }]) => record)
+    const records = [...await Promise.all(drafts.map(draft => this.sealDraft(draft))), ...kept]
+    const storage = await this.storage
+
     try {
-      const data = JSON.stringify(drafts)
-      localStorage.setItem(this.config.storageKey, data)
+      await storage.write(this.config.storageKey, this.serializeDrafts(records))
     } catch (error) {
       if (error instanceof Error && error.name === 'QuotaExceededError') {
         // Try to free up space by removing oldest drafts
-        const reducedDrafts = drafts.slice(0, Math.floor(drafts.length * 0.8))
-        localStorage.setItem(this.config.storageKey, JSON.stringify(reducedDrafts))
+        const reducedRecords = records.slice(0, Math.floor(records.length * 0.8))
+        await storage.write(this.config.storageKey, this.serializeDrafts(reducedRecords))
       } else {
         throw error
       }
     }
   }
 
+  private serializeDrafts(records: StoredDraft[]): string {
+    const data = JSON.stringify(records)
+    return this.config.compressionEnabled ? compressString(data) : data
+  }
+
+  /**
+   * Compress plaintext before it is encrypted; ciphertext looks random and no longer compresses
+   */
+  private packSecret(plaintext: string): string {
+    return this.config.compressionEnabled ? compressString(plaintext, 'base64') : plaintext
+  }
+
+  /**
+   * Reverse packSecret; payloads sealed before compression was applied are plain JSON
+   */
+  private unpackSecret(plaintext: string): string {
+    return isCompressed(plaintext) ? decompressString(plaintext) : plaintext
+  }
+
+  /**
+   * Encrypt the parts of a draft that may hold credentials; every call uses a fresh IV
+   */
+  private async sealDraft(draft: EnhancedProjectCreationDraft): Promise<StoredDraft> {
+    if (!this.config.encryptionEnabled) return draft
+
+    const { metadata, currentVersion, executionJournal } = draft
+    const secret = JSON.stringify({ versions: metadata.versions, currentVersion, executionJournal })
+
+    return {
+      metadata: { ...metadata, versions: [], encrypted: true },
+      sealed: await this.cipher.encrypt(this.packSecret(secret))
+    }
+  }
+
+  private async openDraft(record: StoredDraft): Promise<EnhancedProjectCreationDraft> {
+    if (!('sealed' in record)) return record
+
+    const secret = JSON.parse(this.unpackSecret(await this.cipher.decrypt(record.sealed)))
+    const draft: EnhancedProjectCreationDraft = {
+      metadata: { ...record.metadata, versions: secret.versions ?? [] },
+      currentVersion: secret.currentVersion
+    }
+    if (secret.executionJournal) {
+      draft.executionJournal = secret.executionJournal
+    }
+    return draft
+  }
+
   private calculateProgress(
     formData: ProjectFormData,
     navigationState: Pick<NavigationState, 'currentStep' | 'totalSteps'>
@@ -595,42 +1005,53 @@ export class DraftManager {
     return JSON.parse(JSON.stringify(obj))
   }
 
-  private estimateStorageQuota(): number {
-    // Rough estimate of localStorage quota (usually 5-10MB)
-    return 5 * 1024 * 1024 // 5MB
-  }
-
-  private compress(data: string): string {
-    // Placeholder for compression (would use a real compression library)
-    return btoa(data)
-  }
+  /**
+   * Bring a draft to the current schema, recording which migrations ran
+   */
+  private upgradeDraft(draft: any): EnhancedProjectCreationDraft {
+    const { draft: upgraded, report } = migrateDraft<EnhancedProjectCreationDraft>(draft, {
+      checksum: formData => this.generateChecksum(formData),
+      now: Date.now()
+    })
 
-  private decompress(data: string): string {
-    // Placeholder for decompression
-    return atob(data)
-  }
+    if (report.applied.length > 0 && upgraded.metadata && upgraded.currentVersion) {
+      const { formData, navigationState } = upgraded.currentVersion
+      upgraded.metadata.progress = this.calculateProgress(formData, navigationState)
+      upgraded.metadata.size = this.calculateSize(upgraded)
 
-  private encrypt(data: string): string {
-    // Placeholder for encryption (would use a real encryption library)
-    return btoa(data)
-  }
+      this.migrationReports.push(report)
+      console.info(
+        `Migrated draft ${report.draftId} from schema ${report.fromVersion} to ${report.toVersion}:`,
+        report.applied.map(migration => migration.description)
+      )
+    }
 
-  private decrypt(data: string): string {
-    // Placeholder for decryption
-    return atob(data)
+    return upgraded
   }
 
-  private migrateOldDrafts(): void {
-    // Check for old draft format and migrate if necessary
+  private async migrateOldDrafts(): Promise<void> {
+    // The first release kept ProjectCreationDraft objects (schema 1.0.0) under this localStorage key
     const oldKey = 'vue-layout-project-creation-drafts'
     const oldData = localStorage.getItem(oldKey)
     
     if (oldData) {
       try {
         const oldDrafts = JSON.parse(oldData)
-        // Migration logic would go here
+        await this.exclusive(async () => {
+          const drafts = await this.readDrafts()
+          const existingIds = new Set(drafts.map(d => d.metadata.id))
+
+          const migrated = (Array.isArray(oldDrafts) ? oldDrafts : [oldDrafts])
+            .map(oldDraft => this.upgradeDraft(oldDraft))
+            .filter(d => !existingIds.has(d.metadata.id))
+
+          if (migrated.length > 0) {
+            await this.saveAllDrafts([...drafts, ...migrated].slice(0, this.config.maxDrafts))
+          }
+        })
         localStorage.removeItem(oldKey)
       } catch (error) {
+        // Keep the old key so the migration is retried on the next load
         console.warn('Failed to migrate old drafts:', error)
       }
     }
@@ -0,0 +1,235 @@
+/**
+ * Draft Schema Migrations
+ * Versioned registry that upgrades stored and imported drafts to the current schema one step at a time
+ */
+
+// =============================================================================
+// Types and Interfaces
+// =============================================================================
+
+/**
+ * Helpers a migration may need from the draft manager
+ */
+export interface DraftMigrationContext {
+  checksum: (formData: unknown) => string
+  now: number
+}
+
+export interface DraftMigration {
+  from: string
+  to: string
+  description: string
+  /** Receives a deep copy of the draft at schema `from` and returns it at schema `to` */
+  migrate: (draft: unknown, context: DraftMigrationContext) => unknown
+}
+
+export interface DraftMigrationReport {
+  draftId: string
+  fromVersion: string
+  toVersion: string
+  applied: Pick<DraftMigration, 'from' | 'to' | 'description'>[]
+}
+
+export type DraftSchemaErrorCode =
+  | 'newer-version' // written by a newer release of the app
+  | 'no-migration-path' // no registered migration starts at the draft's version
+  | 'migration-failed' // a migration threw
+
+/**
+ * Schema version stamped on drafts written by this release; bump it together with a new migration
+ */
+export const CURRENT_DRAFT_SCHEMA_VERSION = '2.0.0'
+
+// Drafts saved before versions were recorded, which kept form data and step position at the top level
+const LEGACY_SCHEMA_VERSION = '1.0.0'
+
+// =============================================================================
+// Errors
+// =============================================================================
+
+/**
+ * Error thrown when a draft cannot be brought to the current schema
+ */
+export class DraftSchemaError extends Error {
+  readonly code: DraftSchemaErrorCode
+  readonly draftVersion: string
+
+  constructor(message: string, code: DraftSchemaErrorCode, draftVersion: string) {
+    super(message)
+    this.name = 'DraftSchemaError'
+    this.code = code
+    this.draftVersion = draftVersion
+  }
+}
+
+// =============================================================================
+// Migrations
+// =============================================================================
+
+/**
+ * Registered migrations; each `from` must appear once and chains must end at CURRENT_DRAFT_SCHEMA_VERSION
+ */
+export const DRAFT_MIGRATIONS: DraftMigration[] = [
+  {
+    from: '1.0.0',
+    to: '2.0.0',
+    description: 'Move form data and step position into a version history',
+    migrate: (draft, { checksum, now }) => {
+      const legacy = asRecord(draft)
+      const metadata = asRecord(legacy.metadata)
+      const formData = asRecord(legacy.formData)
+      const navigationState = asRecord(legacy.navigationState)
+      const id = stringOr(metadata.id, `draft-${now}`)
+      const timestamp = numberOr(metadata.updatedAt, now)
+      const currentVersion = {
+        id: `${id}-v${timestamp}`,
+        timestamp,
+        formData,
+        navigationState: {
+          currentStep: numberOr(navigationState.currentStep, 1),
+          totalSteps: numberOr(navigationState.totalSteps, 1)
+        },
+        checksum: checksum(formData)
+      }
+
+      return {
+        metadata: {
+          id,
+          createdAt: numberOr(metadata.createdAt, timestamp),
+          updatedAt: timestamp,
+          lastAccessedAt: timestamp,
+          title: stringOr(metadata.title, '') || stringOr(asRecord(formData.generalInfo).name, '') || 'Untitled Project',
+          description: typeof metadata.description === 'string' ? metadata.description : undefined,
+          version: '2.0.0',
+          versions: [currentVersion],
+          size: 0,
+          compressed: false,
+          encrypted: false,
+          tags: [],
+          progress: 0
+        },
+        currentVersion
+      }
+    }
+  }
+]
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Stored drafts are untyped JSON; anything that is not an object reads as an empty one
+ */
+function asRecord(value: unknown): Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value) ? (value as Record<string, unknown>) : {}
+}
+
+function stringOr(value: unknown, fallback: string): string {
+  return typeof value === 'string' ? value : fallback
+}
+
+function numberOr(value: unknown, fallback: number): number {
+  return typeof value === 'number' ? value : fallback
+}
+
+/**
+ * Compare dotted numeric versions; negative when `a` is older than `b`
+ */
+export function compareSchemaVersions(a: string, b: string): number {
+  const left = a.split('.').map(Number)
+  const right = b.split('.').map(Number)
+
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    const difference = (left[i] || 0) - (right[i] || 0)
+    if (difference !== 0) return difference
+  }
+  return 0
+}
+
+/**
+ * Schema version of a stored or imported draft
+ * Unstamped drafts with a version history are exports without metadata; without one they predate versioning.
+ */
+export function getDraftSchemaVersion(draft: unknown): string {
+  const { metadata, currentVersion } = asRecord(draft)
+  const version = asRecord(metadata).version
+  if (typeof version === 'string') {
+    return version
+  }
+  return currentVersion ? CURRENT_DRAFT_SCHEMA_VERSION : LEGACY_SCHEMA_VERSION
+}
+
+// =============================================================================
+// Public API
+// =============================================================================
+
+/**
+ * Upgrade a draft to `targetVersion`, applying registered migrations in order
+ * Drafts already at the target are returned unchanged; drafts from a newer schema are refused rather than guessed at.
+ */
+export function migrateDraft<T = unknown>(
+  draft: unknown,
+  context: DraftMigrationContext,
+  migrations: DraftMigration[] = DRAFT_MIGRATIONS,
+  targetVersion: string = CURRENT_DRAFT_SCHEMA_VERSION
+): { draft: T; report: DraftMigrationReport } {
+  const fromVersion = getDraftSchemaVersion(draft)
+  const draftId = stringOr(asRecord(asRecord(draft).metadata).id, 'unknown')
+  const applied: DraftMigrationReport['applied'] = []
+
+  if (compareSchemaVersions(fromVersion, targetVersion) > 0) {
+    throw new DraftSchemaError(
+      `Draft ${draftId} was saved by a newer version of the app (schema ${fromVersion}); reload the page to open it`,
+      'newer-version',
+      fromVersion
+    )
+  }
+
+  let current: unknown = draft
+  let version = fromVersion
+
+  while (compareSchemaVersions(version, targetVersion) < 0) {
+    const migration = migrations.find(m => m.from === version)
+    if (!migration) {
+      throw new DraftSchemaError(
+        `No migration from draft schema ${version} to ${targetVersion}`,
+        'no-migration-path',
+        version
+      )
+    }
+
+    let migrated: Record<string, unknown>
+    try {
+      migrated = asRecord(migration.migrate(JSON.parse(JSON.stringify(current)), context))
+    } catch (error) {
+      throw new DraftSchemaError(
+        `Migration ${migration.from} → ${migration.to} failed for draft ${draftId}: ` +
+          (error instanceof Error ? error.message : 'Unknown error'),
+        'migration-failed',
+        version
+      )
+    }
+
+    migrated.metadata = { ...asRecord(migrated.metadata), version: migration.to }
+    current = migrated
+    applied.push({ from: migration.from, to: migration.to, description: migration.description })
+    version = migration.to
+  }
+
+  return {
+    draft: current as T,
+    report: {
+      draftId: stringOr(asRecord(asRecord(current).metadata).id, draftId),
+      fromVersion,
+      toVersion: version,
+      applied
+    }
+  }
+}
+
+// =============================================================================
+// Default Export
+// =============================================================================
+
+export default migrateDraft
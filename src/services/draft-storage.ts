@@ -0,0 +1,209 @@
+/**
+ * Draft Storage Adapters
+ * Where DraftManager keeps its serialized drafts: IndexedDB when available, localStorage as the fallback
+ */
+
+// =============================================================================
+// Types and Interfaces
+// =============================================================================
+
+export type DraftStorageType = 'indexedDB' | 'localStorage'
+
+export interface DraftStorageEstimate {
+  quota: number // bytes
+  usage?: number // bytes used by the whole origin, when the browser reports it
+}
+
+/**
+ * Notification that another tab wrote a storage key
+ */
+export interface DraftStorageChangeEvent {
+  key: string
+}
+
+/**
+ * Key-value storage for serialized drafts
+ */
+export interface DraftStorageAdapter {
+  readonly type: DraftStorageType
+  read(key: string): Promise<string | null>
+  write(key: string, value: string): Promise<void>
+  remove(key: string): Promise<void>
+  estimate(): Promise<DraftStorageEstimate>
+  /** Listen for writes made by other tabs; returns an unsubscribe function */
+  subscribe(listener: (event: DraftStorageChangeEvent) => void): () => void
+}
+
+// Browsers cap localStorage at roughly 5 MB per origin and do not report it through navigator.storage
+const LOCAL_STORAGE_QUOTA = 5 * 1024 * 1024
+
+const DRAFT_DATABASE = 'vue-layout-drafts'
+const DRAFT_STORE = 'drafts'
+const CHANGE_CHANNEL = 'vue-layout-drafts'
+
+// =============================================================================
+// Storage Adapters
+// =============================================================================
+
+export class LocalStorageDraftAdapter implements DraftStorageAdapter {
+  readonly type = 'localStorage' as const
+
+  async read(key: string): Promise<string | null> {
+    return localStorage.getItem(key)
+  }
+
+  async write(key: string, value: string): Promise<void> {
+    localStorage.setItem(key, value)
+  }
+
+  async remove(key: string): Promise<void> {
+    localStorage.removeItem(key)
+  }
+
+  async estimate(): Promise<DraftStorageEstimate> {
+    return { quota: LOCAL_STORAGE_QUOTA }
+  }
+
+  subscribe(listener: (event: DraftStorageChangeEvent) => void): () => void {
+    // The storage event only fires in the other tabs, which is exactly what listeners want
+    const handler = (event: StorageEvent) => {
+      if (event.key) listener({ key: event.key })
+    }
+
+    window.addEventListener('storage', handler)
+    return () => window.removeEventListener('storage', handler)
+  }
+}
+
+export class IndexedDBDraftAdapter implements DraftStorageAdapter {
+  readonly type = 'indexedDB' as const
+  private dbPromise: Promise<IDBDatabase> | null = null
+  private channel: BroadcastChannel | null =
+    typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(CHANGE_CHANNEL) : null
+
+  constructor(private databaseName: string = DRAFT_DATABASE) {}
+
+  async read(key: string): Promise<string | null> {
+    const value = await this.run<string | undefined>('readonly', store => store.get(key))
+    return value ?? null
+  }
+
+  async write(key: string, value: string): Promise<void> {
+    await this.run('readwrite', store => store.put(value, key))
+    this.notify(key)
+  }
+
+  async remove(key: string): Promise<void> {
+    await this.run('readwrite', store => store.delete(key))
+    this.notify(key)
+  }
+
+  async estimate(): Promise<DraftStorageEstimate> {
+    if (typeof navigator !== 'undefined' && navigator.storage?.estimate) {
+      const { quota, usage } = await navigator.storage.estimate()
+      if (quota) return { quota, usage }
+    }
+    return { quota: LOCAL_STORAGE_QUOTA }
+  }
+
+  subscribe(listener: (event: DraftStorageChangeEvent) => void): () => void {
+    if (!this.channel) return () => {}
+
+    // IndexedDB has no cross-tab event, so writers announce changes on a BroadcastChannel
+    const handler = (event: MessageEvent<DraftStorageChangeEvent>) => listener(event.data)
+    this.channel.addEventListener('message', handler)
+    return () => this.channel?.removeEventListener('message', handler)
+  }
+
+  /**
+   * Open the database; rejects where IndexedDB is blocked (e.g. some private browsing modes)
+   */
+  open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+        const request = indexedDB.open(this.databaseName, 1)
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(DRAFT_STORE)
+        }
+        request.onsuccess = () => resolve(request.result)
+        request.onerror = () => reject(request.error)
+        request.onblocked = () => reject(new Error('Draft database upgrade is blocked by another tab'))
+      }).catch(error => {
+        this.dbPromise = null
+        throw error
+      })
+    }
+    return this.dbPromise
+  }
+
+  private notify(key: string): void {
+    const event: DraftStorageChangeEvent = { key }
+    this.channel?.postMessage(event)
+  }
+
+  private async run<T>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest
+  ): Promise<T> {
+    const db = await this.open()
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(DRAFT_STORE, mode)
+      const request = operation(transaction.objectStore(DRAFT_STORE))
+      // Resolve on commit so a write is durable before the caller moves on
+      transaction.oncomplete = () => resolve(request.result)
+      transaction.onerror = () => reject(transaction.error ?? request.error)
+      transaction.onabort = () => reject(transaction.error ?? new Error('Draft storage transaction was aborted'))
+    })
+  }
+}
+
+// =============================================================================
+// Factory
+// =============================================================================
+
+/**
+ * Create the adapter for a storage type
+ * IndexedDB falls back to localStorage when the API is missing or the database cannot be opened. Drafts left in
+ * localStorage under `migrateKeys` are moved into IndexedDB; when IndexedDB already holds the key, `merge` combines
+ * both values, since a tab that fell back to localStorage may have written the newer drafts.
+ */
+export async function createDraftStorage(
+  type: DraftStorageType,
+  migrateKeys: string[] = [],
+  merge: (stored: string, legacy: string) => string = stored => stored
+): Promise<DraftStorageAdapter> {
+  const fallback = new LocalStorageDraftAdapter()
+  if (type === 'localStorage' || typeof indexedDB === 'undefined') {
+    return fallback
+  }
+
+  const adapter = new IndexedDBDraftAdapter()
+  try {
+    await adapter.open()
+  } catch (error) {
+    console.warn('IndexedDB is unavailable, storing drafts in localStorage:', error)
+    return fallback
+  }
+
+  for (const key of migrateKeys) {
+    try {
+      const legacy = await fallback.read(key)
+      if (legacy === null) continue
+
+      const stored = await adapter.read(key)
+      await adapter.write(key, stored === null ? legacy : merge(stored, legacy))
+      await fallback.remove(key)
+    } catch (error) {
+      // Leave the localStorage copy in place and try again on the next load
+      console.warn(`Failed to migrate drafts from localStorage key ${key}:`, error)
+    }
+  }
+
+  return adapter
+}
+
+// =============================================================================
+// Default Export
+// =============================================================================
+
+export default createDraftStorage
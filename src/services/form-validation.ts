@@ -0,0 +1,574 @@
+/**
+ * Form Validation
+ * Declarative rules for each project creation form section, shared by the store's step validation and the step components' field rules
+ */
+
+import { FORM_SECTIONS } from './draft-diff'
+import type { DeepReadonly } from 'vue'
+import type { FormSectionKey } from './draft-diff'
+import type {
+  EnvironmentType,
+  NewProjectFormData,
+  ValidationError,
+  ValidationWarning
+} from '../types/project-creation'
+
+// =============================================================================
+// Types and Interfaces
+// =============================================================================
+
+/**
+ * Form data as validated; the store exposes it read-only
+ */
+export type FormDataSnapshot = DeepReadonly<NewProjectFormData>
+
+/**
+ * Message for a failed rule; array fields receive the item indexes, outermost first
+ */
+export type RuleMessage = string | ((indexes: number[]) => string)
+
+interface RuleBase {
+  message: RuleMessage
+  code?: string // defaults per rule type, e.g. REQUIRED or INVALID_FORMAT
+  severity?: 'error' | 'warning'
+}
+
+/**
+ * Single check on a field value
+ * Every rule except `required` and `custom` passes on an empty value, so optional fields are only checked when filled in.
+ */
+export type FieldRule =
+  | (RuleBase & { type: 'required' })
+  | (RuleBase & { type: 'pattern'; pattern: RegExp })
+  | (RuleBase & { type: 'minLength' | 'maxLength'; length: number })
+  | (RuleBase & { type: 'email' })
+  | (RuleBase & { type: 'custom'; code: string; test: (value: any, formData: FormDataSnapshot) => boolean })
+
+export interface FieldSchema {
+  /** Dot path within the section; `[]` expands an array, e.g. 'databases[].schemas[].name' */
+  path: string
+  /** Field is only validated while this holds, e.g. credentials for the selected auth method */
+  when?: (formData: FormDataSnapshot) => boolean
+  rules: FieldRule[]
+}
+
+/**
+ * Rule spanning several fields of a section; a failure is reported on each of them
+ */
+export interface CrossFieldRule {
+  fields: string[]
+  test: (section: any, formData: FormDataSnapshot) => boolean
+  message: string
+  code: string
+}
+
+export interface SectionSchema {
+  /** Whole section is skipped while this is false, e.g. the conditional New Database step */
+  when?: (formData: FormDataSnapshot) => boolean
+  fields: FieldSchema[]
+  crossField?: CrossFieldRule[]
+}
+
+/**
+ * Rule relating fields of different steps, reported on the step where it is fixed
+ */
+export interface CrossStepRule {
+  step: number
+  /** Field path within the owning step's section */
+  field: string
+  when?: (formData: FormDataSnapshot) => boolean
+  test: (formData: FormDataSnapshot) => boolean
+  message: string | ((formData: FormDataSnapshot) => string)
+  code: string
+  severity?: 'error' | 'warning'
+}
+
+export interface FormValidationOutcome {
+  errors: ValidationError[]
+  warnings: ValidationWarning[]
+}
+
+/**
+ * Vuetify `rules` entry
+ */
+export type VuetifyRule = (value: any) => true | string
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+const OWNER_ID_PATTERN = /^A\d{6}$/
+const REPOSITORY_NAME_PATTERN = /^[a-zA-Z0-9._-]+$/
+
+const DEFAULT_CODES: Record<FieldRule['type'], string> = {
+  required: 'REQUIRED',
+  pattern: 'INVALID_FORMAT',
+  minLength: 'MIN_LENGTH',
+  maxLength: 'MAX_LENGTH',
+  email: 'INVALID_FORMAT',
+  custom: 'INVALID_VALUE'
+}
+
+/**
+ * Deployment credentials for one environment, only required while Step 4 selects that environment
+ */
+function authFields(auth: 'qaAuth' | 'prodAuth', environment: EnvironmentType, label: string): FieldSchema[] {
+  const selected = (formData: FormDataSnapshot) => formData.environments.environments.includes(environment)
+  const uses = (method: string) => (formData: FormDataSnapshot) =>
+    selected(formData) && formData.databaseAuth[auth].method === method
+
+  return [
+    {
+      path: `${auth}.method`,
+      when: selected,
+      rules: [{ type: 'required', message: `${label} authentication method is required` }]
+    },
+    {
+      path: `${auth}.serviceAccount`,
+      when: uses('service_account'),
+      rules: [
+        { type: 'required', message: `${label} service account is required` },
+        { type: 'minLength', length: 3, message: 'Service account must be at least 3 characters' }
+      ]
+    },
+    {
+      path: `${auth}.password`,
+      when: uses('service_account'),
+      rules: [
+        { type: 'required', message: `${label} password is required` },
+        { type: 'minLength', length: 8, message: 'Password must be at least 8 characters' }
+      ]
+    },
+    {
+      path: `${auth}.publicKey`,
+      when: uses('keypair'),
+      rules: [
+        { type: 'required', message: `${label} public key is required` },
+        { type: 'pattern', pattern: /BEGIN PUBLIC KEY/, message: 'Invalid public key format' }
+      ]
+    },
+    {
+      path: `${auth}.privateKey`,
+      when: uses('keypair'),
+      rules: [
+        { type: 'required', message: `${label} private key is required` },
+        { type: 'pattern', pattern: /BEGIN PRIVATE KEY/, message: 'Invalid private key format' }
+      ]
+    }
+  ]
+}
+
+/**
+ * Validation rules for every form section
+ */
+export const FORM_VALIDATION_SCHEMA: Record<FormSectionKey, SectionSchema> = {
+  generalInfo: {
+    fields: [
+      {
+        path: 'name',
+        rules: [
+          { type: 'required', message: 'Project name is required' },
+          { type: 'minLength', length: 3, message: 'Project name must be at least 3 characters' },
+          { type: 'maxLength', length: 100, message: 'Project name must be 100 characters or less' }
+        ]
+      },
+      {
+        path: 'owner',
+        rules: [
+          { type: 'required', message: 'Project owner is required' },
+          { type: 'minLength', length: 2, message: 'Project owner must be at least 2 characters' },
+          { type: 'maxLength', length: 100, message: 'Project owner must be 100 characters or less' }
+        ]
+      },
+      {
+        path: 'description',
+        rules: [
+          { type: 'required', message: 'Project description is recommended', code: 'RECOMMENDED', severity: 'warning' },
+          { type: 'maxLength', length: 1000, message: 'Description must be 1000 characters or less' }
+        ]
+      }
+    ]
+  },
+
+  setupType: {
+    fields: [
+      { path: 'setupType', rules: [{ type: 'required', message: 'Setup type selection is required' }] }
+    ]
+  },
+
+  databaseSelection: {
+    fields: [
+      {
+        path: 'createNewDatabase',
+        // false is a valid answer, so only a missing choice fails
+        rules: [{ type: 'custom', code: 'REQUIRED', test: value => value !== undefined, message: 'Database selection is required' }]
+      },
+      {
+        path: 'existingDatabase',
+        when: formData => !formData.databaseSelection.createNewDatabase,
+        rules: [{ type: 'required', message: 'Please select an existing database' }]
+      }
+    ]
+  },
+
+  newDatabase: {
+    when: formData => formData.databaseSelection?.createNewDatabase === true,
+    fields: [
+      { path: 'businessArea', rules: [{ type: 'required', message: 'Business area is required' }] },
+      { path: 'environments', rules: [{ type: 'required', message: 'At least one environment is required' }] },
+      { path: 'databases', rules: [{ type: 'required', message: 'At least one database configuration is required' }] },
+      {
+        path: 'databases[].name',
+        rules: [
+          { type: 'required', message: ([db]) => `Database ${db + 1} name is required` },
+          {
+            type: 'custom',
+            code: 'UNIQUE',
+            test: (value, formData) => isEmpty(value) ||
+              countMatching(formData.newDatabase?.databases.map(database => database.name) ?? [], value) <= 1,
+            message: ([db]) => `Database ${db + 1} name is used by another database`
+          }
+        ]
+      },
+      {
+        path: 'databases[].entitlementBases',
+        rules: [{ type: 'required', message: ([db]) => `Database ${db + 1} requires at least one entitlement base` }]
+      },
+      {
+        // PIMS has no lookup endpoint, so only names within this form can be compared
+        path: 'databases[].entitlementBases[].name',
+        rules: [
+          {
+            type: 'custom',
+            code: 'UNIQUE',
+            test: (value, formData) => isEmpty(value) || countMatching(
+              (formData.newDatabase?.databases ?? []).flatMap(database => database.entitlementBases.map(base => base.name)),
+              value
+            ) <= 1,
+            message: ([db, base]) => `Entitlement base ${base + 1} in Database ${db + 1} has the same name as another entitlement base`
+          }
+        ]
+      },
+      {
+        path: 'databases[].schemas[].name',
+        rules: [{ type: 'required', message: ([db, schema]) => `Schema ${schema + 1} in Database ${db + 1} name is required` }]
+      },
+      {
+        path: 'databases[].schemas[].purpose',
+        rules: [{ type: 'required', message: ([db, schema]) => `Schema ${schema + 1} in Database ${db + 1} purpose is required` }]
+      },
+      {
+        path: 'databases[].schemas[].dataRetentionDays',
+        rules: [
+          {
+            type: 'custom',
+            code: 'INVALID_VALUE',
+            test: value => typeof value === 'number' && value >= 1,
+            message: ([db, schema]) => `Schema ${schema + 1} in Database ${db + 1} data retention must be at least 1 day`
+          }
+        ]
+      }
+    ]
+  },
+
+  environments: {
+    fields: [
+      { path: 'environments', rules: [{ type: 'required', message: 'At least one environment is required' }] }
+    ]
+  },
+
+  databaseAuth: {
+    fields: [...authFields('qaAuth', 'QA', 'QA'), ...authFields('prodAuth', 'PROD', 'Production')]
+  },
+
+  notifications: {
+    fields: [
+      { path: 'supportGroup', rules: [{ type: 'required', message: 'Support group is required' }] },
+      // Optional; only the format is checked when one is entered
+      { path: 'emailDistribution', rules: [{ type: 'email', message: 'Email distribution format is invalid' }] }
+    ]
+  },
+
+  github: {
+    fields: [
+      { path: 'githubTeam', rules: [{ type: 'required', message: 'GitHub team is required' }] },
+      {
+        path: 'repositoryName',
+        rules: [
+          { type: 'required', message: 'Repository name is required' },
+          {
+            type: 'pattern',
+            pattern: REPOSITORY_NAME_PATTERN,
+            message: 'Repository name can only contain letters, numbers, dots, hyphens, and underscores'
+          },
+          { type: 'maxLength', length: 100, message: 'Repository name must be 100 characters or less' }
+        ]
+      }
+    ]
+  },
+
+  entitlements: {
+    fields: [
+      {
+        path: 'entitlementOwner',
+        rules: [
+          { type: 'required', message: 'Entitlement owner is required' },
+          { type: 'pattern', pattern: OWNER_ID_PATTERN, message: 'Owner ID must be in format A followed by 6 digits' }
+        ]
+      },
+      {
+        path: 'technicalOwner',
+        rules: [
+          { type: 'required', message: 'Technical owner is required' },
+          { type: 'pattern', pattern: OWNER_ID_PATTERN, message: 'Owner ID must be in format A followed by 6 digits' }
+        ]
+      }
+    ],
+    crossField: [
+      {
+        fields: ['entitlementOwner', 'technicalOwner'],
+        test: section => isEmpty(section.entitlementOwner) || isEmpty(section.technicalOwner) ||
+          section.entitlementOwner.trim() !== section.technicalOwner.trim(),
+        message: 'Entitlement and technical owners must be different',
+        code: 'UNIQUE'
+      }
+    ]
+  },
+
+  review: {
+    fields: [
+      { path: 'reviewed', rules: [{ type: 'required', message: 'You must review and confirm all information before proceeding' }] }
+    ]
+  }
+}
+
+/**
+ * Rules between steps; each is reported on the later step of the pair unless the earlier one is where it is fixed
+ */
+export const CROSS_STEP_RULES: CrossStepRule[] = [
+  {
+    // The saga creates a dbt environment per Step 4 environment, pointing at the database provisioned for it
+    step: 4,
+    field: 'environments',
+    when: formData => formData.databaseSelection.createNewDatabase === true,
+    test: formData => missingEnvironments(formData.environments.environments, formData.newDatabase?.environments).length === 0,
+    message: formData =>
+      `No database is provisioned for ${missingEnvironments(formData.environments.environments, formData.newDatabase?.environments).join(', ')} ` +
+      'in New Database; add the environment there or deselect it here',
+    code: 'INCONSISTENT'
+  },
+  {
+    step: 3.5,
+    field: 'environments',
+    when: formData => formData.databaseSelection.createNewDatabase === true,
+    test: formData => missingEnvironments(formData.newDatabase?.environments, formData.environments.environments).length === 0,
+    message: formData =>
+      `Databases will be provisioned in ${missingEnvironments(formData.newDatabase?.environments, formData.environments.environments).join(', ')} ` +
+      'but no dbt environment is selected for it in Environments',
+    code: 'INCONSISTENT',
+    severity: 'warning'
+  },
+  {
+    // Only comparable when the project owner was entered as an owner ID rather than a name
+    step: 8,
+    field: 'entitlementOwner',
+    when: formData => OWNER_ID_PATTERN.test(formData.generalInfo.owner.trim()),
+    test: formData => [formData.entitlements.entitlementOwner, formData.entitlements.technicalOwner]
+      .some(owner => owner.trim() === formData.generalInfo.owner.trim()),
+    message: formData =>
+      `Project owner ${formData.generalInfo.owner.trim()} (General Info) must be the entitlement or technical owner`,
+    code: 'INCONSISTENT'
+  }
+]
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Environments in `selected` that are not in `available`
+ */
+function missingEnvironments(
+  selected: readonly EnvironmentType[] | undefined,
+  available: readonly EnvironmentType[] | undefined
+): EnvironmentType[] {
+  return (selected ?? []).filter(environment => !(available ?? []).includes(environment))
+}
+
+/**
+ * Missing, blank, empty and unchecked values all count as not filled in
+ */
+function isEmpty(value: unknown): boolean {
+  return (
+    value === undefined ||
+    value === null ||
+    value === false ||
+    (typeof value === 'string' && value.trim() === '') ||
+    (Array.isArray(value) && value.length === 0)
+  )
+}
+
+/**
+ * Occurrences of a name in a list, ignoring case and surrounding whitespace
+ */
+function countMatching(names: readonly (string | undefined)[], value: string): number {
+  const target = value.trim().toLowerCase()
+  return names.filter(name => name?.trim().toLowerCase() === target).length
+}
+
+function passes(rule: FieldRule, value: any, formData: FormDataSnapshot): boolean {
+  if (rule.type === 'custom') return rule.test(value, formData)
+  if (rule.type === 'required') return !isEmpty(value)
+  if (isEmpty(value)) return true
+
+  switch (rule.type) {
+    case 'pattern':
+      return rule.pattern.test(String(value))
+    case 'minLength':
+      return String(value).trim().length >= rule.length
+    case 'maxLength':
+      return String(value).length <= rule.length
+    case 'email':
+      return EMAIL_PATTERN.test(String(value).trim())
+  }
+}
+
+function messageFor(rule: FieldRule, indexes: number[]): string {
+  return typeof rule.message === 'function' ? rule.message(indexes) : rule.message
+}
+
+/**
+ * Values at a schema path, with the concrete path and indexes of each array item visited
+ */
+function resolvePath(
+  value: unknown,
+  segments: string[],
+  prefix: string = '',
+  indexes: number[] = []
+): { path: string; value: unknown; indexes: number[] }[] {
+  if (segments.length === 0) {
+    return [{ path: prefix, value, indexes }]
+  }
+
+  const [segment, ...rest] = segments
+  const key = segment.replace(/\[\]$/, '')
+  const child = (value as Record<string, unknown> | undefined)?.[key]
+  const path = prefix ? `${prefix}.${key}` : key
+
+  if (!segment.endsWith('[]')) {
+    return resolvePath(child, rest, path, indexes)
+  }
+  if (!Array.isArray(child)) return []
+  return child.flatMap((item, index) => resolvePath(item, rest, `${path}[${index}]`, [...indexes, index]))
+}
+
+// =============================================================================
+// Public API
+// =============================================================================
+
+/**
+ * Errors and warnings for one form section
+ */
+export function validateFormSection(
+  section: FormSectionKey,
+  formData: FormDataSnapshot,
+  schema: Record<FormSectionKey, SectionSchema> = FORM_VALIDATION_SCHEMA
+): FormValidationOutcome {
+  const outcome: FormValidationOutcome = { errors: [], warnings: [] }
+  const sectionSchema = schema[section]
+  if (sectionSchema.when && !sectionSchema.when(formData)) return outcome
+
+  const report = (field: string, message: string, code: string, severity: FieldRule['severity'] = 'error') => {
+    if (severity === 'warning') {
+      outcome.warnings.push({ field, message, code })
+    } else {
+      outcome.errors.push({ field, message, code, severity: 'error' })
+    }
+  }
+
+  for (const field of sectionSchema.fields) {
+    if (field.when && !field.when(formData)) continue
+
+    for (const target of resolvePath(formData[section], field.path.split('.'))) {
+      // Report only the first failing rule per field, as Vuetify does
+      const failed = field.rules.find(rule => !passes(rule, target.value, formData))
+      if (failed) {
+        report(target.path, messageFor(failed, target.indexes), failed.code ?? DEFAULT_CODES[failed.type], failed.severity)
+      }
+    }
+  }
+
+  for (const rule of sectionSchema.crossField ?? []) {
+    if (!rule.test(formData[section] ?? {}, formData)) {
+      rule.fields.forEach(field => report(field, rule.message, rule.code))
+    }
+  }
+
+  return outcome
+}
+
+/**
+ * Cross-step errors and warnings, tagged with the step each is reported on
+ */
+export function validateCrossStepRules(
+  formData: FormDataSnapshot,
+  rules: CrossStepRule[] = CROSS_STEP_RULES
+): FormValidationOutcome {
+  const outcome: FormValidationOutcome = { errors: [], warnings: [] }
+
+  for (const rule of rules) {
+    if ((rule.when && !rule.when(formData)) || rule.test(formData)) continue
+
+    const message = typeof rule.message === 'function' ? rule.message(formData) : rule.message
+    if (rule.severity === 'warning') {
+      outcome.warnings.push({ field: rule.field, message, code: rule.code, step: rule.step })
+    } else {
+      outcome.errors.push({ field: rule.field, message, code: rule.code, severity: 'error', step: rule.step })
+    }
+  }
+
+  return outcome
+}
+
+/**
+ * Errors and warnings for a wizard step; steps without a form section have nothing to validate
+ */
+export function validateFormStep(stepId: number, formData: FormDataSnapshot): FormValidationOutcome {
+  const section = FORM_SECTIONS.find(definition => definition.step === stepId)
+  return section ? validateFormSection(section.key, formData) : { errors: [], warnings: [] }
+}
+
+/**
+ * Vuetify rules for a field, built from the same schema the store validates with
+ * Warnings are left out so they never block the form. `getFormData` supplies the current form for
+ * conditional fields, custom and cross-field rules.
+ */
+export function fieldRules(
+  section: FormSectionKey,
+  path: string,
+  getFormData: () => FormDataSnapshot,
+  schema: Record<FormSectionKey, SectionSchema> = FORM_VALIDATION_SCHEMA
+): VuetifyRule[] {
+  const sectionSchema = schema[section]
+  const field = sectionSchema.fields.find(candidate => candidate.path === path)
+  const active = () =>
+    (!sectionSchema.when || sectionSchema.when(getFormData())) && (!field?.when || field.when(getFormData()))
+
+  const rules: VuetifyRule[] = (field?.rules ?? [])
+    .filter(rule => rule.severity !== 'warning')
+    .map(rule => (value: any) => !active() || passes(rule, value, getFormData()) || messageFor(rule, []))
+
+  for (const crossRule of sectionSchema.crossField ?? []) {
+    if (!crossRule.fields.includes(path)) continue
+    rules.push(() => crossRule.test(getFormData()[section] ?? {}, getFormData()) || crossRule.message)
+  }
+
+  return rules
+}
+
+// =============================================================================
+// Default Export
+// =============================================================================
+
+export default validateFormSection
@@ -0,0 +1,2133 @@
+/**
+ * DSS Transformation Proxy API Client
+ * Generated from architecture/backend-spec/openapi.json by scripts/generate-api-client.mjs - do not edit by hand.
+ * Run `npm run generate:api` after changing the spec; `npm run check:api` fails when this file is out of date.
+ */
+
+import type { ApiRequestConfig, ApiResponse, HttpClient, HttpMethod } from '../../types/api';
+
+// =============================================================================
+// Spec Information
+// =============================================================================
+
+export const PROXY_API_VERSION = '0.1.0';
+export const PROXY_API_SPEC_HASH = '1c8470b63df8fab1';
+
+// =============================================================================
+// Schemas
+// =============================================================================
+
+/**
+ * BranchRequest
+ */
+export interface BranchRequest {
+  /** Repo */
+  repo: string;
+  /** Branch */
+  branch: string;
+}
+
+/**
+ * Model for creating a new dbt Cloud project connection.
+ */
+export interface ConnectionCreate {
+  /** Name */
+  name: string;
+  /** Type */
+  type: string;
+  /** Details */
+  details: Record<string, unknown>;
+}
+
+/**
+ * Model for updating a dbt Cloud project connection.
+ */
+export interface ConnectionUpdate {
+  /** Name */
+  name?: string | null;
+  /** Type */
+  type?: string | null;
+  /** Details */
+  details?: Record<string, unknown> | null;
+}
+
+/**
+ * CreateBranchRequest
+ */
+export interface CreateBranchRequest {
+  /** Repo */
+  repo: string;
+  /** Parent Branch */
+  parent_branch: string;
+  /** Branch Name */
+  branch_name: string;
+}
+
+/**
+ * CreateFileRequest
+ */
+export interface CreateFileRequest {
+  /** Repo */
+  repo: string;
+  /** Branch */
+  branch: string;
+  /** Commit Message */
+  commit_message: string;
+  /** File Name */
+  file_name: string;
+  /** File Content */
+  file_content: string;
+}
+
+/**
+ * CreatePullRequestRequest
+ */
+export interface CreatePullRequestRequest {
+  /** Repo */
+  repo: string;
+  /** Title */
+  title: string;
+  /** Parent Branch */
+  parent_branch: string;
+  /** Branch Name */
+  branch_name: string;
+}
+
+/**
+ * CreateSecretRequest
+ */
+export interface CreateSecretRequest {
+  /** Repo */
+  repo: string;
+  /** Secret Name */
+  secret_name: string;
+  /** Secret Value */
+  secret_value: string;
+}
+
+/**
+ * CredentialCreate
+ */
+export interface CredentialCreate {
+  /** The ID of the project */
+  project_id: number;
+  /** The type of the credential */
+  type: string;
+  /** The details of the credential */
+  details: Record<string, unknown>;
+}
+
+/**
+ * CredentialUpdate
+ */
+export interface CredentialUpdate {
+  /** The details of the credential */
+  details?: Record<string, unknown> | null;
+}
+
+/**
+ * DatabaseDetails
+ */
+export interface DatabaseDetails {
+  /** Warehouse */
+  warehouse: string;
+  /** Database */
+  database: string;
+  /** Schema */
+  schema_: string;
+}
+
+/**
+ * DbtProjectRequest
+ */
+export interface DbtProjectRequest {
+  /** Project Name */
+  project_name: string;
+}
+
+/**
+ * DeleteBranchRequest
+ */
+export interface DeleteBranchRequest {
+  /** Repo */
+  repo: string;
+  /** Branch Name */
+  branch_name: string;
+}
+
+/**
+ * EntitlementRequest
+ */
+export interface EntitlementRequest {
+  /** Project Name */
+  project_name: string;
+  /** Pims Name */
+  pims_name: string;
+  /** Service Manager Id */
+  service_manager_id: string;
+  /** Technical Contact Id */
+  technical_contact_id: string;
+}
+
+/**
+ * EntitlementResponse
+ */
+export interface EntitlementResponse {
+  /** Status */
+  status: string;
+  /** Message */
+  message: string;
+  /** Details */
+  details?: string[];
+}
+
+/**
+ * EnvironmentCreate
+ */
+export interface EnvironmentCreate {
+  /** The name of the environment */
+  name: string;
+  /** The dbt version for the environment */
+  dbt_version: string;
+  /** The ID of the project */
+  project_id: number;
+  /** The ID of the credential */
+  credential_id?: number | null;
+}
+
+/**
+ * EnvironmentUpdate
+ */
+export interface EnvironmentUpdate {
+  /** The name of the environment */
+  name?: string | null;
+  /** The dbt version for the environment */
+  dbt_version?: string | null;
+}
+
+/**
+ * FileRequest
+ */
+export interface FileRequest {
+  /** Repo */
+  repo: string;
+  /** File Name */
+  file_name: string;
+  /** Ref */
+  ref?: string;
+}
+
+/**
+ * Model for creating a new permission group.
+ */
+export interface GroupCreate {
+  /** Id */
+  id: string;
+}
+
+/**
+ * Model for updating an existing permission group.
+ */
+export interface GroupUpdate {
+  /** Permissions */
+  permissions: string[];
+}
+
+/**
+ * HTTPValidationError
+ */
+export interface HTTPValidationError {
+  /** Detail */
+  detail?: ValidationError[];
+}
+
+/**
+ * Infra
+ */
+export interface Infra {
+  action: InfraAction;
+  environment: InfraEnvironment;
+  business_area: InfraBusinessArea;
+  object_type: InfraObjectType;
+  /** Object Name */
+  object_name?: string | null;
+  /** Override Dry Run */
+  override_dry_run?: boolean;
+  /** Confirm Destroy */
+  confirm_destroy?: boolean;
+  /** Github Repo */
+  github_repo?: string | null;
+}
+
+/**
+ * InfraAction
+ */
+export type InfraAction = 'plan' | 'apply' | 'teardown';
+
+/**
+ * InfraBusinessArea
+ */
+export type InfraBusinessArea = 'cl' | 'claims' | 'corporate' | 'crm' | 'it' | 'pl';
+
+/**
+ * InfraEnvironment
+ */
+export type InfraEnvironment = 'DEV' | 'QA' | 'PROD';
+
+/**
+ * InfraObjectType
+ */
+export type InfraObjectType = 'database' | 'warehouse' | 'storage_integration' | 'cicd_combined';
+
+/**
+ * JobCreate
+ */
+export interface JobCreate {
+  /** The name of the job */
+  name: string;
+  /** The ID of the project */
+  project_id: number;
+  /** The ID of the environment */
+  environment_id: number;
+  /** The commands to execute in the job */
+  execute_steps: string[];
+  /** The dbt version for the job */
+  dbt_version?: string | null;
+  /** The triggers for the job */
+  triggers: Record<string, boolean>;
+  /** The settings for the job */
+  settings?: Record<string, unknown> | null;
+  /** The state of the job */
+  state?: number | null;
+  /** Whether to generate docs */
+  generate_docs?: boolean;
+  /** Whether to run generate sources */
+  run_generate_sources?: boolean;
+}
+
+/**
+ * JobUpdate
+ */
+export interface JobUpdate {
+  /** The name of the job */
+  name?: string | null;
+  /** The dbt version for the job */
+  dbt_version?: string | null;
+  /** The commands to execute in the job */
+  execute_steps?: string[] | null;
+  /** The triggers for the job */
+  triggers?: Record<string, boolean> | null;
+  /** The settings for the job */
+  settings?: Record<string, unknown> | null;
+  /** The state of the job */
+  state?: number | null;
+  /** Whether to generate docs */
+  generate_docs?: boolean | null;
+  /** Whether to run generate sources */
+  run_generate_sources?: boolean | null;
+}
+
+/**
+ * Model for creating a new license mapping.
+ */
+export interface LicenseMapCreate {
+  /** License Type */
+  license_type: string;
+  /** Group Id */
+  group_id: number;
+}
+
+/**
+ * Model for updating an existing license mapping.
+ */
+export interface LicenseMapUpdate {
+  /** License Type */
+  license_type?: string | null;
+  /** Group Id */
+  group_id?: number | null;
+}
+
+/**
+ * MergeBranchRequest
+ */
+export interface MergeBranchRequest {
+  /** Repo */
+  repo: string;
+  /** Base */
+  base: string;
+  /** Branch Name */
+  branch_name: string;
+  /** Message */
+  message: string;
+}
+
+/**
+ * ProjectCreate
+ */
+export interface ProjectCreate {
+  /** The name of the dbt project */
+  name: string;
+  /** The subdirectory of the dbt project */
+  dbt_project_subdirectory?: string | null;
+  /** The ID of the repository */
+  repository_id: number;
+  /** The ID of the connection */
+  connection_id: number;
+}
+
+/**
+ * ProjectUpdate
+ */
+export interface ProjectUpdate {
+  /** The name of the dbt project */
+  name?: string | null;
+  /** The subdirectory of the dbt project */
+  dbt_project_subdirectory?: string | null;
+}
+
+/**
+ * ProvisionInfraResponse
+ */
+export interface ProvisionInfraResponse {
+  /** Status */
+  status: string;
+  /** Message */
+  message?: string | null;
+  /** Details */
+  details?: Record<string, unknown> | null;
+}
+
+/**
+ * PullRequestRequest
+ */
+export interface PullRequestRequest {
+  /** Repo */
+  repo: string;
+  /** Title */
+  title: string;
+  /** Parent Branch */
+  parent_branch: string;
+  /** Branch Name */
+  branch_name: string;
+}
+
+/**
+ * RepoRequest
+ */
+export interface RepoRequest {
+  /** Repo */
+  repo: string;
+}
+
+/**
+ * RepositoryCreate
+ */
+export interface RepositoryCreate {
+  /** The ID of the project */
+  project_id: number;
+  /** The remote URL of the repository */
+  remote_url: string;
+  /** The git clone strategy */
+  git_clone_strategy?: string;
+}
+
+/**
+ * RepositoryUpdate
+ */
+export interface RepositoryUpdate {
+  /** The name of the repository */
+  name?: string | null;
+  /** The remote URL of the repository */
+  remote_url?: string | null;
+}
+
+/**
+ * Model for mapping SSO provider groups to dbt Cloud groups.
+ */
+export interface SSOGroupMapping {
+  /** Sso Group Name */
+  sso_group_name: string;
+  /** Group Name */
+  group_name: string;
+  /** Description */
+  description?: string | null;
+}
+
+/**
+ * Model for updating an existing SSO group mapping.
+ */
+export interface SSOGroupUpdate {
+  /** Sso Group Name */
+  sso_group_name?: string | null;
+  /** Group Name */
+  group_name?: string | null;
+  /** Description */
+  description?: string | null;
+}
+
+/**
+ * SecretRequest
+ */
+export interface SecretRequest {
+  /** Repo */
+  repo: string;
+  /** Secret Name */
+  secret_name: string;
+  /** Secret Value */
+  secret_value?: string | null;
+}
+
+/**
+ * ServiceTokenCreate
+ */
+export interface ServiceTokenCreate {
+  /** The name of the service token */
+  name: string;
+  /** A list of permission IDs for the service token */
+  permissions: number[];
+}
+
+/**
+ * ServiceTokenUpdate
+ */
+export interface ServiceTokenUpdate {
+  /** The name of the service token */
+  name?: string | null;
+  /** A list of permission IDs for the service token */
+  permissions?: number[] | null;
+}
+
+/**
+ * SnowflakeConnectionRequest
+ */
+export interface SnowflakeConnectionRequest {
+  /** User */
+  user: string;
+  /** Password */
+  password: string;
+  /** Env */
+  env: string;
+  /** Extra */
+  extra?: Record<string, unknown>;
+}
+
+/**
+ * UpdateBranchProtectionRequest
+ */
+export interface UpdateBranchProtectionRequest {
+  /** Repo */
+  repo: string;
+  /** Branch Name */
+  branch_name: string;
+  /** Team */
+  team: string;
+}
+
+/**
+ * Represents a user in the system with authentication and authorization details.
+ */
+export interface User {
+  /** User's unique object ID from Entra ID */
+  id: string;
+  /** User's email address */
+  email: string;
+  /** List of roles assigned to the user */
+  roles?: string[];
+  /** Whether the user has admin privileges */
+  is_admin?: boolean;
+}
+
+/**
+ * Model for inviting users to dbt Cloud.
+ */
+export interface UserInvite {
+  /** Email */
+  email: string;
+  /** First Name */
+  first_name?: string | null;
+  /** Last Name */
+  last_name?: string | null;
+  /** Group Ids */
+  group_ids?: number[];
+}
+
+/**
+ * Model for batch inviting users to dbt Cloud.
+ */
+export interface UserInviteBatch {
+  /** Invites */
+  invites: UserInvite[];
+}
+
+/**
+ * Model for updating an existing user.
+ */
+export interface UserUpdate {
+  /** Roles */
+  roles?: string[] | null;
+  /** Is Admin */
+  is_admin?: boolean | null;
+}
+
+/**
+ * ValidationError
+ */
+export interface ValidationError {
+  /** Location */
+  loc: Array<string | number>;
+  /** Message */
+  msg: string;
+  /** Error Type */
+  type: string;
+}
+
+/**
+ * VariableRequest
+ */
+export interface VariableRequest {
+  /** Repo */
+  repo: string;
+  /** Variable Name */
+  variable_name: string;
+  /** Variable Value */
+  variable_value: string;
+}
+
+/**
+ * VerifyDatabaseInputRequest
+ */
+export interface VerifyDatabaseInputRequest {
+  /** Env */
+  env: string;
+  /** User */
+  user: string;
+  /** Password */
+  password: string;
+  database_details: DatabaseDetails;
+}
+
+/**
+ * WebhookCreate
+ */
+export interface WebhookCreate {
+  /** The name of the webhook */
+  name: string;
+  /** The client URL for the webhook */
+  client_url: string;
+  /** The event types for the webhook */
+  event_types?: string[];
+  /** Whether the webhook is active */
+  active?: boolean;
+}
+
+/**
+ * WebhookUpdate
+ */
+export interface WebhookUpdate {
+  /** The name of the webhook */
+  name?: string | null;
+  /** The client URL for the webhook */
+  client_url?: string | null;
+  /** The event types for the webhook */
+  event_types?: string[] | null;
+  /** Whether the webhook is active */
+  active?: boolean | null;
+}
+
+/**
+ * WorkflowDispatchRequest
+ */
+export interface WorkflowDispatchRequest {
+  /** Repo */
+  repo: string;
+  /** Workflow Id */
+  workflow_id: string;
+  /** Ref */
+  ref: string;
+  /** Inputs */
+  inputs: Record<string, string>;
+}
+
+// =============================================================================
+// Operations
+// =============================================================================
+
+/**
+ * Per-call request options; URL, method and body come from the operation
+ */
+export type RequestOptions = Partial<Omit<ApiRequestConfig, 'url' | 'method' | 'data'>>;
+
+export interface ProxyApiOperation {
+  name: keyof ProxyApi;
+  method: HttpMethod;
+  path: string;
+  tag: string;
+}
+
+/**
+ * Every operation in the spec, for tooling such as the mock backend
+ */
+export const PROXY_API_OPERATIONS: ProxyApiOperation[] = [
+  { name: 'login', method: 'GET', path: '/api/v1/auth/login', tag: 'Authentication' },
+  { name: 'logout', method: 'GET', path: '/api/v1/auth/logout', tag: 'Authentication' },
+  { name: 'getMe', method: 'GET', path: '/api/v1/auth/me', tag: 'Authentication' },
+  { name: 'root', method: 'GET', path: '/', tag: 'general' },
+  { name: 'healthCheck', method: 'GET', path: '/healthz', tag: 'general' },
+  { name: 'listJobs', method: 'GET', path: '/api/v1/dbt/jobs/', tag: 'dbt Cloud jobs' },
+  { name: 'createJob', method: 'POST', path: '/api/v1/dbt/jobs/', tag: 'dbt Cloud jobs' },
+  { name: 'getJob', method: 'GET', path: '/api/v1/dbt/jobs/{job_id}', tag: 'dbt Cloud jobs' },
+  { name: 'deleteJob', method: 'DELETE', path: '/api/v1/dbt/jobs/{job_id}', tag: 'dbt Cloud jobs' },
+  { name: 'updateJob', method: 'POST', path: '/api/v1/dbt/jobs/{job_id}/', tag: 'dbt Cloud jobs' },
+  { name: 'triggerJobRun', method: 'POST', path: '/api/v1/dbt/jobs/{job_id}/trigger', tag: 'dbt Cloud jobs' },
+  { name: 'getJobArtifact', method: 'GET', path: '/api/v1/dbt/jobs/{job_id}/artifacts/{path}', tag: 'dbt Cloud job-artifacts' },
+  { name: 'listRuns', method: 'GET', path: '/api/v1/dbt/runs/', tag: 'dbt Cloud runs' },
+  { name: 'getRun', method: 'GET', path: '/api/v1/dbt/runs/{run_id}', tag: 'dbt Cloud runs' },
+  { name: 'cancelRun', method: 'POST', path: '/api/v1/dbt/runs/{run_id}/cancel', tag: 'dbt Cloud runs' },
+  { name: 'getRunArtifact', method: 'GET', path: '/api/v1/dbt/runs/{run_id}/artifacts/{path}', tag: 'dbt Cloud runs' },
+  { name: 'runSummaries', method: 'GET', path: '/api/v1/dbt/runs/run_summaries', tag: 'dbt Cloud runs' },
+  { name: 'listWebhooks', method: 'GET', path: '/api/v1/dbt/webhooks/', tag: 'dbt Cloud webhooks' },
+  { name: 'createWebhook', method: 'POST', path: '/api/v1/dbt/webhooks/', tag: 'dbt Cloud webhooks' },
+  { name: 'getWebhook', method: 'GET', path: '/api/v1/dbt/webhooks/{webhook_id}', tag: 'dbt Cloud webhooks' },
+  { name: 'updateWebhook', method: 'POST', path: '/api/v1/dbt/webhooks/{webhook_id}', tag: 'dbt Cloud webhooks' },
+  { name: 'deleteWebhook', method: 'DELETE', path: '/api/v1/dbt/webhooks/{webhook_id}', tag: 'dbt Cloud webhooks' },
+  { name: 'listGroups', method: 'GET', path: '/api/v1/dbt/groups/', tag: 'groups' },
+  { name: 'createGroup', method: 'POST', path: '/api/v1/dbt/groups/', tag: 'groups' },
+  { name: 'getGroup', method: 'GET', path: '/api/v1/dbt/groups/{group_id}', tag: 'groups' },
+  { name: 'updateGroup', method: 'POST', path: '/api/v1/dbt/groups/{group_id}', tag: 'groups' },
+  { name: 'deleteGroup', method: 'DELETE', path: '/api/v1/dbt/groups/{group_id}', tag: 'groups' },
+  { name: 'listSsoGroups', method: 'GET', path: '/api/v1/dbt/groups/sso-groups', tag: 'groups' },
+  { name: 'createSsoGroups', method: 'POST', path: '/api/v1/dbt/groups/sso-groups', tag: 'groups' },
+  { name: 'getSsoGroup', method: 'GET', path: '/api/v1/dbt/groups/sso-groups/{sso_group_id}', tag: 'groups' },
+  { name: 'updateSsoGroup', method: 'POST', path: '/api/v1/dbt/groups/sso-groups/{sso_group_id}', tag: 'groups' },
+  { name: 'deleteSsoGroup', method: 'DELETE', path: '/api/v1/dbt/groups/sso-groups/{sso_group_id}', tag: 'groups' },
+  { name: 'listAuditLogs', method: 'GET', path: '/api/v1/dbt/audit-logs/', tag: 'audit-logs' },
+  { name: 'listServiceTokens', method: 'GET', path: '/api/v1/dbt/service-tokens/', tag: 'service-tokens' },
+  { name: 'createServiceToken', method: 'POST', path: '/api/v1/dbt/service-tokens/', tag: 'service-tokens' },
+  { name: 'getServiceToken', method: 'GET', path: '/api/v1/dbt/service-tokens/{token_id}', tag: 'service-tokens' },
+  { name: 'updateServiceToken', method: 'POST', path: '/api/v1/dbt/service-tokens/{token_id}', tag: 'service-tokens' },
+  { name: 'deleteServiceToken', method: 'DELETE', path: '/api/v1/dbt/service-tokens/{token_id}', tag: 'service-tokens' },
+  { name: 'listLicenseMaps', method: 'GET', path: '/api/v1/dbt/license-maps/', tag: 'license-maps' },
+  { name: 'createLicenseMap', method: 'POST', path: '/api/v1/dbt/license-maps/', tag: 'license-maps' },
+  { name: 'getLicenseMap', method: 'GET', path: '/api/v1/dbt/license-maps/{license_map_id}', tag: 'license-maps' },
+  { name: 'updateLicenseMap', method: 'POST', path: '/api/v1/dbt/license-maps/{license_map_id}', tag: 'license-maps' },
+  { name: 'deleteLicenseMap', method: 'DELETE', path: '/api/v1/dbt/license-maps/{license_map_id}', tag: 'license-maps' },
+  { name: 'listInvites', method: 'GET', path: '/api/v1/dbt/invites/', tag: 'invites' },
+  { name: 'createInvite', method: 'POST', path: '/api/v1/dbt/invites/', tag: 'invites' },
+  { name: 'createInviteBatch', method: 'POST', path: '/api/v1/dbt/invites/batch', tag: 'invites' },
+  { name: 'getInvite', method: 'GET', path: '/api/v1/dbt/invites/{invite_id}', tag: 'invites' },
+  { name: 'deleteInvite', method: 'DELETE', path: '/api/v1/dbt/invites/{invite_id}', tag: 'invites' },
+  { name: 'createRepository', method: 'POST', path: '/api/v1/dbt/projects/{project_id}/repositories/', tag: 'dbt Cloud repositories' },
+  { name: 'listRepositories', method: 'GET', path: '/api/v1/dbt/projects/{project_id}/repositories/', tag: 'dbt Cloud repositories' },
+  { name: 'getRepository', method: 'GET', path: '/api/v1/dbt/projects/{project_id}/repositories/{repository_id}', tag: 'dbt Cloud repositories' },
+  { name: 'updateRepository', method: 'POST', path: '/api/v1/dbt/projects/{project_id}/repositories/{repository_id}', tag: 'dbt Cloud repositories' },
+  { name: 'deleteRepository', method: 'DELETE', path: '/api/v1/dbt/projects/{project_id}/repositories/{repository_id}', tag: 'dbt Cloud repositories' },
+  { name: 'createEnvironment', method: 'POST', path: '/api/v1/dbt/projects/{project_id}/environments/', tag: 'environments' },
+  { name: 'listEnvironments', method: 'GET', path: '/api/v1/dbt/projects/{project_id}/environments/', tag: 'environments' },
+  { name: 'getEnvironment', method: 'GET', path: '/api/v1/dbt/projects/{project_id}/environments/{environment_id}', tag: 'environments' },
+  { name: 'updateEnvironment', method: 'POST', path: '/api/v1/dbt/projects/{project_id}/environments/{environment_id}', tag: 'environments' },
+  { name: 'deleteEnvironment', method: 'DELETE', path: '/api/v1/dbt/projects/{project_id}/environments/{environment_id}', tag: 'environments' },
+  { name: 'createCredential', method: 'POST', path: '/api/v1/dbt/projects/{project_id}/credentials/', tag: 'credentials' },
+  { name: 'listCredentials', method: 'GET', path: '/api/v1/dbt/projects/{project_id}/credentials/', tag: 'credentials' },
+  { name: 'getCredential', method: 'GET', path: '/api/v1/dbt/projects/{project_id}/credentials/{credential_id}', tag: 'credentials' },
+  { name: 'updateCredential', method: 'POST', path: '/api/v1/dbt/projects/{project_id}/credentials/{credential_id}', tag: 'credentials' },
+  { name: 'deleteCredential', method: 'DELETE', path: '/api/v1/dbt/projects/{project_id}/credentials/{credential_id}', tag: 'credentials' },
+  { name: 'listProjectConnections', method: 'GET', path: '/api/v1/dbt/projects/{project_id}/connections/', tag: 'connections' },
+  { name: 'createProjectConnection', method: 'POST', path: '/api/v1/dbt/projects/{project_id}/connections/', tag: 'connections' },
+  { name: 'getProjectConnection', method: 'GET', path: '/api/v1/dbt/projects/{project_id}/connections/{connection_id}', tag: 'connections' },
+  { name: 'updateProjectConnection', method: 'POST', path: '/api/v1/dbt/projects/{project_id}/connections/{connection_id}', tag: 'connections' },
+  { name: 'deleteProjectConnection', method: 'DELETE', path: '/api/v1/dbt/projects/{project_id}/connections/{connection_id}', tag: 'connections' },
+  { name: 'listProjects', method: 'GET', path: '/api/v1/dbt/projects/', tag: 'projects' },
+  { name: 'createProject', method: 'POST', path: '/api/v1/dbt/projects/', tag: 'projects' },
+  { name: 'getProject', method: 'GET', path: '/api/v1/dbt/projects/{project_id}', tag: 'projects' },
+  { name: 'updateProject', method: 'POST', path: '/api/v1/dbt/projects/{project_id}', tag: 'projects' },
+  { name: 'deleteProject', method: 'DELETE', path: '/api/v1/dbt/projects/{project_id}', tag: 'projects' },
+  { name: 'listUsers', method: 'GET', path: '/api/v1/dbt/users/', tag: 'users' },
+  { name: 'getUser', method: 'GET', path: '/api/v1/dbt/users/{user_id}', tag: 'users' },
+  { name: 'updateUser', method: 'POST', path: '/api/v1/dbt/users/{user_id}', tag: 'users' },
+  { name: 'deleteUser', method: 'DELETE', path: '/api/v1/dbt/users/{user_id}', tag: 'users' },
+  { name: 'getAccount', method: 'GET', path: '/api/v1/dbt/accounts/{account_id}', tag: 'general' },
+  { name: 'getConstants', method: 'GET', path: '/api/v1/dbt/constants', tag: 'general' },
+  { name: 'createEntitlements', method: 'POST', path: '/api/v1/admin/pims/entitlements', tag: 'Admin - PIMS' },
+  { name: 'connectSnowflake', method: 'POST', path: '/api/v1/admin/snowflake/connect', tag: 'Snowflake' },
+  { name: 'verifyDatabase', method: 'POST', path: '/api/v1/admin/snowflake/verify-database', tag: 'Snowflake' },
+  { name: 'provisionInfra', method: 'POST', path: '/api/v1/admin/datacloud/provision-infra', tag: 'Datacloud' },
+  { name: 'createSecret', method: 'POST', path: '/api/v1/admin/github/create-secret', tag: 'GitHub' },
+  { name: 'createBranch', method: 'POST', path: '/api/v1/admin/github/create-branch', tag: 'GitHub' },
+  { name: 'createPullRequest', method: 'POST', path: '/api/v1/admin/github/create-pull-request', tag: 'GitHub' },
+  { name: 'checkSecretExists', method: 'POST', path: '/api/v1/admin/github/check-secret-exists', tag: 'GitHub' },
+  { name: 'createFile', method: 'POST', path: '/api/v1/admin/github/create-file', tag: 'GitHub' },
+  { name: 'createRepo', method: 'POST', path: '/api/v1/admin/github/create-repo', tag: 'GitHub' },
+  { name: 'createVariable', method: 'POST', path: '/api/v1/admin/github/create-variable', tag: 'GitHub' },
+  { name: 'deleteBranch', method: 'POST', path: '/api/v1/admin/github/delete-branch', tag: 'GitHub' },
+  { name: 'dispatchWorkflowEvent', method: 'POST', path: '/api/v1/admin/github/dispatch-workflow-event', tag: 'GitHub' },
+  { name: 'getBranch', method: 'POST', path: '/api/v1/admin/github/get-branch', tag: 'GitHub' },
+  { name: 'getBranches', method: 'POST', path: '/api/v1/admin/github/get-branches', tag: 'GitHub' },
+  { name: 'getPublicKey', method: 'POST', path: '/api/v1/admin/github/get-public-key', tag: 'GitHub' },
+  { name: 'listPullRequests', method: 'POST', path: '/api/v1/admin/github/list-pull-requests', tag: 'GitHub' },
+  { name: 'mergeBranch', method: 'POST', path: '/api/v1/admin/github/merge-branch', tag: 'GitHub' },
+  { name: 'mergePullRequest', method: 'POST', path: '/api/v1/admin/github/merge-pull-request', tag: 'GitHub' },
+  { name: 'readFile', method: 'POST', path: '/api/v1/admin/github/read-file', tag: 'GitHub' },
+  { name: 'updateBranchProtection', method: 'POST', path: '/api/v1/admin/github/update-branch-protection', tag: 'GitHub' },
+  { name: 'createDbtGithubProject', method: 'POST', path: '/api/v1/admin/dbt/github-project', tag: 'dbt' }
+];
+
+/**
+ * Typed wrappers for every proxy endpoint, sent through the given client; only its request method is used
+ */
+export class ProxyApi {
+  constructor(private readonly client: Pick<HttpClient, 'request'>) {}
+
+  // ---------------------------------------------------------------------------
+  // Authentication
+  // ---------------------------------------------------------------------------
+
+  /**
+   * User login endpoint
+   * GET /api/v1/auth/login (response is not described by the spec)
+   */
+  login<TResponse = unknown>(config?: RequestOptions): Promise<ApiResponse<TResponse>> {
+    return this.client.request<TResponse>({
+      url: `/api/v1/auth/login`,
+      method: 'GET',
+      ...config
+    });
+  }
+
+  /**
+   * User logout endpoint
+   * GET /api/v1/auth/logout (response is not described by the spec)
+   */
+  logout<TResponse = unknown>(config?: RequestOptions): Promise<ApiResponse<TResponse>> {
+    return this.client.request<TResponse>({
+      url: `/api/v1/auth/logout`,
+      method: 'GET',
+      ...config
+    });
+  }
+
+  /**
+   * Current user info
+   * GET /api/v1/auth/me
+   */
+  getMe(config?: RequestOptions): Promise<ApiResponse<User>> {
+    return this.client.request<User>({
+      url: `/api/v1/auth/me`,
+      method: 'GET',
+      ...config
+    });
+  }
+
+  // ---------------------------------------------------------------------------
+  // general
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Root
+   * GET / (response is not described by the spec)
+   */
+  root<TResponse = unknown>(config?: RequestOptions): Promise<ApiResponse<TResponse>> {
+    return this.client.request<TResponse>({
+      url: `/`,
+      method: 'GET',
+      ...config
+    });
+  }
+
+  /**
+   * Health Check
+   * GET /healthz (response is not described by the spec)
+   */
+  healthCheck<TResponse = unknown>(config?: RequestOptions): Promise<ApiResponse<TResponse>> {
+    return this.client.request<TResponse>({
+      url: `/healthz`,
+      method: 'GET',
+      ...config
+    });
+  }
+
+  /**
+   * Get Account
+   * GET /api/v1/dbt/accounts/{account_id} (response is not described by the spec)
+   */
+  getAccount<TResponse = unknown>(accountId: number, config?: RequestOptions): Promise<ApiResponse<TResponse>> {
+    return this.client.request<TResponse>({
+      url: `/api/v1/dbt/accounts/${encodeURIComponent(String(accountId))}`,
+      method: 'GET',
+      ...config
+    });
+  }
+
+  /**
+   * Get Constants
+   * GET /api/v1/dbt/constants (response is not described by the spec)
+   */
+  getConstants<TResponse = unknown>(config?: RequestOptions): Promise<ApiResponse<TResponse>> {
+    return this.client.request<TResponse>({
+      url: `/api/v1/dbt/constants`,
+      method: 'GET',
+      ...config
+    });
+  }
+
+  // ---------------------------------------------------------------------------
+  // dbt Cloud jobs
+  // ---------------------------------------------------------------------------
+
+  /**
+   * List Jobs
+   * GET /api/v1/dbt/jobs/ (response is not described by the spec)
+   */
+  listJobs<TResponse = unknown>(config?: RequestOptions): Promise<ApiResponse<TResponse>> {
+    return this.client.request<TResponse>({
+      url: `/api/v1/dbt/jobs/`,
+      method: 'GET',
+      ...config
+    });
+  }
+
+  /**
+   * Create Job
+   * POST /api/v1/dbt/jobs/ (response is not described by the spec)
+   */
+  createJob<TResponse = unknown>(data: JobCreate, config?: RequestOptions): Promise<ApiResponse<TResponse>> {
+    return this.client.request<TResponse>({
+      url: `/api/v1/dbt/jobs/`,
+      method: 'POST',
+      data,
+      ...config
+    });
+  }
+
+  /**
+   * Get Job
+   * GET /api/v1/dbt/jobs/{job_id} (response is not described by the spec)
+   */
+  getJob<TResponse = unknown>(jobId: number, config?: RequestOptions): Promise<ApiResponse<TResponse>> {
+    return this.client.request<TResponse>({
+      url: `/api/v1/dbt/jobs/${encodeURIComponent(String(jobId))}`,
+      method: 'GET',
+      ...config
+    });
+  }
+
+  /**
+   * Delete Job
+   * DELETE /api/v1/dbt/jobs/{job_id} (response is not described by the spec)
+   */
+  deleteJob<TResponse = unknown>(jobId: number, config?: RequestOptions): Promise<ApiResponse<TResponse>> {
+    return this.client.request<TResponse>({
+      url: `/api/v1/dbt/jobs/${encodeURIComponent(String(jobId))}`,
+      method: 'DELETE',
+      ...config
+    });
+  }
+
+  /**
+   * Update Job
+   * POST /api/v1/dbt/jobs/{job_id}/ (response is not described by the spec)
+   */
+  updateJob<TResponse = unknown>(jobId: number, data: JobUpdate, config?: RequestOptions): Promise<ApiResponse<TResponse>> {
+    return this.client.request<TResponse>({
+      url: `/api/v1/dbt/jobs/${encodeURIComponent(String(jobId))}/`,
+      method: 'POST',
+      data,
+      ...config
+    });
+  }
+
+  /**
+   * Trigger Job Run
+   * POST /api/v1/dbt/jobs/{job_id}/trigger (response is not described by the spec)
+   */
+  triggerJobRun<TResponse = unknown>(jobId: number, data: Record<string, unknown>, config?: RequestOptions): Promise<ApiResponse<TResponse>> {
+    return this.client.request<TResponse>({
+      url: `/api/v1/dbt/jobs/${encodeURIComponent(String(jobId))}/trigger`,
+      method: 'POST',
+      data,
+      ...config
+    });
+  }
+
+  // ---------------------------------------------------------------------------
+  // dbt Cloud job-artifacts
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Get Job Artifact
+   * GET /api/v1/dbt/jobs/{job_id}/artifacts/{path} (response is not described by the spec)
+   */
+  getJobArtifact<TResponse = unknown>(jobId: number, path: string, config?: RequestOptions): Promise<ApiResponse<TResponse>> {
+    return this.client.request<TResponse>({
+      url: `/api/v1/dbt/jobs/${encodeURIComponent(String(jobId))}/artifacts/${encodeURIComponent(String(path))}`,
+      method: 'GET',
+      ...config
+    });
+  }
+
+  // ---------------------------------------------------------------------------
+  // dbt Cloud runs
+  // ---------------------------------------------------------------------------
+
+  /**
+   * List Runs
+   * GET /api/v1/dbt/runs/ (response is not described by the spec)
+   */
+  listRuns<TResponse = unknown>(config?: RequestOptions): Promise<ApiResponse<TResponse>> {
+    return this.client.request<TResponse>({
+      url: `/api/v1/dbt/runs/`,
+      method: 'GET',
+      ...config
+    });
+  }
+
+  /**
+   * Get Run
+   * GET /api/v1/dbt/runs/{run_id} (response is not described by the spec)
+   */
+  getRun<TResponse = unknown>(runId: number, config?: RequestOptions): Promise<ApiResponse<TResponse>> {
+    return this.client.request<TResponse>({
+      url: `/api/v1/dbt/runs/${encodeURIComponent(String(runId))}`,
+      method: 'GET',
+      ...config
+    });
+  }
+
+  /**
+   * Cancel Run
+   * POST /api/v1/dbt/runs/{run_id}/cancel (response is not described by the spec)
+   */
+  cancelRun<TResponse = unknown>(runId: number, config?: RequestOptions): Promise<ApiResponse<TResponse>> {
+    return this.client.request<TResponse>({
+      url: `/api/v1/dbt/runs/${encodeURIComponent(String(runId))}/cancel`,
+      method: 'POST',
+      ...config
+    });
+  }
+
+  /**
+   * Get Run Artifact
+   * GET /api/v1/dbt/runs/{run_id}/artifacts/{path} (response is not described by the spec)
+   */
+  getRunArtifact<TResponse = unknown>(runId: number, path: string, config?: RequestOptions): Promise<ApiResponse<TResponse>> {
+    return this.client.request<TResponse>({
+      url: `/api/v1/dbt/runs/${encodeURIComponent(String(runId))}/artifacts/${encodeURIComponent(String(path))}`,
+      method: 'GET',
+      ...config
+    });
+  }
+
+  /**
+   * Run Summaries
+   * GET /api/v1/dbt/runs/run_summaries (response is not described by the spec)
+   */
+  runSummaries<TResponse = unknown>(config?: RequestOptions): Promise<ApiResponse<TResponse>> {
+    return this.client.request<TResponse>({
+      url: `/api/v1/dbt/runs/run_summaries`,
+      method: 'GET',
+      ...config
+    });
+  }
+
+  // ---------------------------------------------------------------------------
+  // dbt Cloud webhooks
+  // ---------------------------------------------------------------------------
+
+  /**
+   * List Webhooks
+   * GET /api/v1/dbt/webhooks/ (response is not described by the spec)
+   */
+  listWebhooks<TResponse = unknown>(config?: RequestOptions): Promise<ApiResponse<TResponse>> {
+    return this.client.request<TResponse>({
+      url: `/api/v1/dbt/webhooks/`,
+      method: 'GET',
+      ...config
+    });
+  }
+
+  /**
+   * Create Webhook
+   * POST /api/v1/dbt/webhooks/ (response is not described by the spec)
+   */
+  createWebhook<TResponse = unknown>(data: WebhookCreate, config?: RequestOptions): Promise<ApiResponse<TResponse>> {
+    return this.client.request<TResponse>({
+      url: `/api/v1/dbt/webhooks/`,
+      method: 'POST',
+      data,
+      ...config
+    });
+  }
+
+  /**
+   * Get Webhook
+   * GET /api/v1/dbt/webhooks/{webhook_id} (response is not described by the spec)
+   */
+  getWebhook<TResponse = unknown>(webhookId: string, config?: RequestOptions): Promise<ApiResponse<TResponse>> {
+    return this.client.request<TResponse>({
+      url: `/api/v1/dbt/webhooks/${encodeURIComponent(String(webhookId))}`,
+      method: 'GET',
+      ...config
+    });
+  }
+
+  /**
+   * Update Webhook
+   * POST /api/v1/dbt/webhooks/{webhook_id} (response is not described by the spec)
+   */
+  updateWebhook<TResponse = unknown>(webhookId: string, data: WebhookUpdate, config?: RequestOptions): Promise<ApiResponse<TResponse>> {
+    return this.client.request<TResponse>({
+      url: `/api/v1/dbt/webhooks/${encodeURIComponent(String(webhookId))}`,
+      method: 'POST',
+      data,
+      ...config
+    });
+  }
+
+  /**
+   * Delete Webhook
+   * DELETE /api/v1/dbt/webhooks/{webhook_id} (response is not described by the spec)
+   */
+  deleteWebhook<TResponse = unknown>(webhookId: string, config?: RequestOptions): Promise<ApiResponse<TResponse>> {
+    return this.client.request<TResponse>({
+      url: `/api/v1/dbt/webhooks/${encodeURIComponent(String(webhookId))}`,
+      method: 'DELETE',
+      ...config
+    });
+  }
+
+  // ---------------------------------------------------------------------------
+  // groups
+  // ---------------------------------------------------------------------------
+
+  /**
+   * List Groups
+   * GET /api/v1/dbt/groups/ (response is not described by the spec)
+   */
+  listGroups<TResponse = unknown>(config?: RequestOptions): Promise<ApiResponse<TResponse>> {
+    return this.client.request<TResponse>({
+      url: `/api/v1/dbt/groups/`,
+      method: 'GET',
+      ...config
+    });
+  }
+
+  /**
+   * Create Group
+   * POST /api/v1/dbt/groups/ (response is not described by the spec)
+   */
+  createGroup<TResponse = unknown>(data: GroupCreate, config?: RequestOptions): Promise<ApiResponse<TResponse>> {
+    return this.client.request<TResponse>({
+      url: `/api/v1/dbt/groups/`,
+      method: 'POST',
+      data,
+      ...config
+    });
+  }
+
+  /**
+   * Get Group
+   * GET /api/v1/dbt/groups/{group_id} (response is not described by the spec)
+   */
+  getGroup<TResponse = unknown>(groupId: number, config?: RequestOptions): Promise<ApiResponse<TResponse>> {
+    return this.client.request<TResponse>({
+      url: `/api/v1/dbt/groups/${encodeURIComponent(String(groupId))}`,
+      method: 'GET',
+      ...config
+    });
+  }
+
+  /**
+   * Update Group
+   * POST /api/v1/dbt/groups/{group_id} (response is not described by the spec)
+   */
+  updateGroup<TResponse = unknown>(groupId: number, data: GroupUpdate, config?: RequestOptions): Promise<ApiResponse<TResponse>> {
+    return this.client.request<TResponse>({
+      url: `/api/v1/dbt/groups/${encodeURIComponent(String(groupId))}`,
+      method: 'POST',
+      data,
+      ...config
+    });
+  }
+
+  /**
+   * Delete Group
+   * DELETE /api/v1/dbt/groups/{group_id} (response is not described by the spec)
+   */
+  deleteGroup<TResponse = unknown>(groupId: number, config?: RequestOptions): Promise<ApiResponse<TResponse>> {
+    return this.client.request<TResponse>({
+      url: `/api/v1/dbt/groups/${encodeURIComponent(String(groupId))}`,
+      method: 'DELETE',
+      ...config
+    });
+  }
+
+  /**
+   * List Sso Groups
+   * GET /api/v1/dbt/groups/sso-groups (response is not described by the spec)
+   */
+  listSsoGroups<TResponse = unknown>(config?: RequestOptions): Promise<ApiResponse<TResponse>> {
+    return this.client.request<TResponse>({
+      url: `/api/v1/dbt/groups/sso-groups`,
+      method: 'GET',
+      ...config
+    });
+  }
+
+  /**
+   * Create Sso Groups
+   * POST /api/v1/dbt/groups/sso-groups (response is not described by the spec)
+   */
+  createSsoGroups<TResponse = unknown>(data: SSOGroupMapping[], config?: RequestOptions): Promise<ApiResponse<TResponse>> {
+    return this.client.request<TResponse>({
+      url: `/api/v1/dbt/groups/sso-groups`,
+      method: 'POST',
+      data,
+      ...config
+    });
+  }
+
+  /**
+   * Get Sso Group
+   * GET /api/v1/dbt/groups/sso-groups/{sso_group_id} (response is not described by the spec)
+   */
+  getSsoGroup<TResponse = unknown>(ssoGroupId: number, config?: RequestOptions): Promise<ApiResponse<TResponse>> {
+    return this.client.request<TResponse>({
+      url: `/api/v1/dbt/groups/sso-groups/${encodeURIComponent(String(ssoGroupId))}`,
+      method: 'GET',
+      ...config
+    });
+  }
+
+  /**
+   * Update Sso Group
+   * POST /api/v1/dbt/groups/sso-groups/{sso_group_id} (response is not described by the spec)
+   */
+  updateSsoGroup<TResponse = unknown>(ssoGroupId: number, data: SSOGroupUpdate, config?: RequestOptions): Promise<ApiResponse<TResponse>> {
+    return this.client.request<TResponse>({
+      url: `/api/v1/dbt/groups/sso-groups/${encodeURIComponent(String(ssoGroupId))}`,
+      method: 'POST',
+      data,
+      ...config
+    });
+  }
+
+  /**
+   * Delete Sso Group
+   * DELETE /api/v1/dbt/groups/sso-groups/{sso_group_id} (response is not described by the spec)
+   */
+  deleteSsoGroup<TResponse = unknown>(ssoGroupId: number, config?: RequestOptions): Promise<ApiResponse<TResponse>> {
+    return this.client.request<TResponse>({
+      url: `/api/v1/dbt/groups/sso-groups/${encodeURIComponent(String(ssoGroupId))}`,
+      method: 'DELETE',
+      ...config
+    });
+  }
+
+  // ---------------------------------------------------------------------------
+  // audit-logs
+  // ---------------------------------------------------------------------------
+
+  /**
+   * List Audit Logs
+   * GET /api/v1/dbt/audit-logs/ (response is not described by the spec)
+   */
+  listAuditLogs<TResponse = unknown>(config?: RequestOptions): Promise<ApiResponse<TResponse>> {
+    return this.client.request<TResponse>({
+      url: `/api/v1/dbt/audit-logs/`,
+      method: 'GET',
+      ...config
+    });
+  }
+
+  // ---------------------------------------------------------------------------
+  // service-tokens
+  // ---------------------------------------------------------------------------
+
+  /**
+   * List Service Tokens
+   * GET /api/v1/dbt/service-tokens/ (response is not described by the spec)
+   */
+  listServiceTokens<TResponse = unknown>(config?: RequestOptions): Promise<ApiResponse<TResponse>> {
+    return this.client.request<TResponse>({
+      url: `/api/v1/dbt/service-tokens/`,
+      method: 'GET',
+      ...config
+    });
+  }
+
+  /**
+   * Create Service Token
+   * POST /api/v1/dbt/service-tokens/ (response is not described by the spec)
+   */
+  createServiceToken<TResponse = unknown>(data: ServiceTokenCreate, config?: RequestOptions): Promise<ApiResponse<TResponse>> {
+    return this.client.request<TResponse>({
+      url: `/api/v1/dbt/service-tokens/`,
+      method: 'POST',
+      data,
+      ...config
+    });
+  }
+
+  /**
+   * Get Service Token
+   * GET /api/v1/dbt/service-tokens/{token_id} (response is not described by the spec)
+   */
+  getServiceToken<TResponse = unknown>(tokenId: number, config?: RequestOptions): Promise<ApiResponse<TResponse>> {
+    return this.client.request<TResponse>({
+      url: `/api/v1/dbt/service-tokens/${encodeURIComponent(String(tokenId))}`,
+      method: 'GET',
+      ...config
+    });
+  }
+
+  /**
+   * Update Service Token
+   * POST /api/v1/dbt/service-tokens/{token_id} (response is not described by the spec)
+   */
+  updateServiceToken<TResponse = unknown>(tokenId: number, data: ServiceTokenUpdate, config?: RequestOptions): Promise<ApiResponse<TResponse>> {
+    return this.client.request<TResponse>({
+      url: `/api/v1/dbt/service-tokens/${encodeURIComponent(String(tokenId))}`,
+      method: 'POST',
+      data,
+      ...config
+    });
+  }
+
+  /**
+   * Delete Service Token
+   * DELETE /api/v1/dbt/service-tokens/{token_id} (response is not described by the spec)
+   */
+  deleteServiceToken<TResponse = unknown>(tokenId: number, config?: RequestOptions): Promise<ApiResponse<TResponse>> {
+    return this.client.request<TResponse>({
+      url: `/api/v1/dbt/service-tokens/${encodeURIComponent(String(tokenId))}`,
+      method: 'DELETE',
+      ...config
+    });
+  }
+
+  // ---------------------------------------------------------------------------
+  // license-maps
+  // ---------------------------------------------------------------------------
+
+  /**
+   * List License Maps
+   * GET /api/v1/dbt/license-maps/ (response is not described by the spec)
+   */
+  listLicenseMaps<TResponse = unknown>(config?: RequestOptions): Promise<ApiResponse<TResponse>> {
+    return this.client.request<TResponse>({
+      url: `/api/v1/dbt/license-maps/`,
+      method: 'GET',
+      ...config
+    });
+  }
+
+  /**
+   * Create License Map
+   * POST /api/v1/dbt/license-maps/ (response is not described by the spec)
+   */
+  createLicenseMap<TResponse = unknown>(data: LicenseMapCreate, config?: RequestOptions): Promise<ApiResponse<TResponse>> {
+    return this.client.request<TResponse>({
+      url: `/api/v1/dbt/license-maps/`,
+      method: 'POST',
+      data,
+      ...config
+    });
+  }
+
+  /**
+   * Get License Map
+   * GET /api/v1/dbt/license-maps/{license_map_id} (response is not described by the spec)
+   */
+  getLicenseMap<TResponse = unknown>(licenseMapId: number, config?: RequestOptions): Promise<ApiResponse<TResponse>> {
+    return this.client.request<TResponse>({
+      url: `/api/v1/dbt/license-maps/${encodeURIComponent(String(licenseMapId))}`,
+      method: 'GET',
+      ...config
+    });
+  }
+
+  /**
+   * Update License Map
+   * POST /api/v1/dbt/license-maps/{license_map_id} (response is not described by the spec)
+   */
+  updateLicenseMap<TResponse = unknown>(licenseMapId: number, data: LicenseMapUpdate, config?: RequestOptions): Promise<ApiResponse<TResponse>> {
+    return this.client.request<TResponse>({
+      url: `/api/v1/dbt/license-maps/${encodeURIComponent(String(licenseMapId))}`,
+      method: 'POST',
+      data,
+      ...config
+    });
+  }
+
+  /**
+   * Delete License Map
+   * DELETE /api/v1/dbt/license-maps/{license_map_id} (response is not described by the spec)
+   */
+  deleteLicenseMap<TResponse = unknown>(licenseMapId: number, config?: RequestOptions): Promise<ApiResponse<TResponse>> {
+    return this.client.request<TResponse>({
+      url: `/api/v1/dbt/license-maps/${encodeURIComponent(String(licenseMapId))}`,
+      method: 'DELETE',
+      ...config
+    });
+  }
+
+  // ---------------------------------------------------------------------------
+  // invites
+  // ---------------------------------------------------------------------------
+
+  /**
+   * List Invites
+   * GET /api/v1/dbt/invites/ (response is not described by the spec)
+   */
+  listInvites<TResponse = unknown>(config?: RequestOptions): Promise<ApiResponse<TResponse>> {
+    return this.client.request<TResponse>({
+      url: `/api/v1/dbt/invites/`,
+      method: 'GET',
+      ...config
+    });
+  }
+
+  /**
+   * Create Invite
+   * POST /api/v1/dbt/invites/ (response is not described by the spec)
+   */
+  createInvite<TResponse = unknown>(data: UserInvite, config?: RequestOptions): Promise<ApiResponse<TResponse>> {
+    return this.client.request<TResponse>({
+      url: `/api/v1/dbt/invites/`,
+      method: 'POST',
+      data,
+      ...config
+    });
+  }
+
+  /**
+   * Create Invite Batch
+   * POST /api/v1/dbt/invites/batch (response is not described by the spec)
+   */
+  createInviteBatch<TResponse = unknown>(data: UserInviteBatch, config?: RequestOptions): Promise<ApiResponse<TResponse>> {
+    return this.client.request<TResponse>({
+      url: `/api/v1/dbt/invites/batch`,
+      method: 'POST',
+      data,
+      ...config
+    });
+  }
+
+  /**
+   * Get Invite
+   * GET /api/v1/dbt/invites/{invite_id} (response is not described by the spec)
+   */
+  getInvite<TResponse = unknown>(inviteId: number, config?: RequestOptions): Promise<ApiResponse<TResponse>> {
+    return this.client.request<TResponse>({
+      url: `/api/v1/dbt/invites/${encodeURIComponent(String(inviteId))}`,
+      method: 'GET',
+      ...config
+    });
+  }
+
+  /**
+   * Delete Invite
+   * DELETE /api/v1/dbt/invites/{invite_id} (response is not described by the spec)
+   */
+  deleteInvite<TResponse = unknown>(inviteId: number, config?: RequestOptions): Promise<ApiResponse<TResponse>> {
+    return this.client.request<TResponse>({
+      url: `/api/v1/dbt/invites/${encodeURIComponent(String(inviteId))}`,
+      method: 'DELETE',
+      ...config
+    });
+  }
+
+  // ---------------------------------------------------------------------------
+  // dbt Cloud repositories
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Create Repository
+   * POST /api/v1/dbt/projects/{project_id}/repositories/ (response is not described by the spec)
+   */
+  createRepository<TResponse = unknown>(projectId: number, data: RepositoryCreate, config?: RequestOptions): Promise<ApiResponse<TResponse>> {
+    return this.client.request<TResponse>({
+      url: `/api/v1/dbt/projects/${encodeURIComponent(String(projectId))}/repositories/`,
+      method: 'POST',
+      data,
+      ...config
+    });
+  }
+
+  /**
+   * List Repositories
+   * GET /api/v1/dbt/projects/{project_id}/repositories/ (response is not described by the spec)
+   */
+  listRepositories<TResponse = unknown>(projectId: number, config?: RequestOptions): Promise<ApiResponse<TResponse>> {
+    return this.client.request<TResponse>({
+      url: `/api/v1/dbt/projects/${encodeURIComponent(String(projectId))}/repositories/`,
+      method: 'GET',
+      ...config
+    });
+  }
+
+  /**
+   * Get Repository
+   * GET /api/v1/dbt/projects/{project_id}/repositories/{repository_id} (response is not described by the spec)
+   */
+  getRepository<TResponse = unknown>(projectId: number, repositoryId: number, config?: RequestOptions): Promise<ApiResponse<TResponse>> {
+    return this.client.request<TResponse>({
+      url: `/api/v1/dbt/projects/${encodeURIComponent(String(projectId))}/repositories/${encodeURIComponent(String(repositoryId))}`,
+      method: 'GET',
+      ...config
+    });
+  }
+
+  /**
+   * Update Repository
+   * POST /api/v1/dbt/projects/{project_id}/repositories/{repository_id} (response is not described by the spec)
+   */
+  updateRepository<TResponse = unknown>(projectId: number, repositoryId: number, data: RepositoryUpdate, config?: RequestOptions): Promise<ApiResponse<TResponse>> {
+    return this.client.request<TResponse>({
+      url: `/api/v1/dbt/projects/${encodeURIComponent(String(projectId))}/repositories/${encodeURIComponent(String(repositoryId))}`,
+      method: 'POST',
+      data,
+      ...config
+    });
+  }
+
+  /**
+   * Delete Repository
+   * DELETE /api/v1/dbt/projects/{project_id}/repositories/{repository_id} (response is not described by the spec)
+   */
+  deleteRepository<TResponse = unknown>(projectId: number, repositoryId: number, config?: RequestOptions): Promise<ApiResponse<TResponse>> {
+    return this.client.request<TResponse>({
+      url: `/api/v1/dbt/projects/${encodeURIComponent(String(projectId))}/repositories/${encodeURIComponent(String(repositoryId))}`,
+      method: 'DELETE',
+      ...config
+    });
+  }
+
+  // ---------------------------------------------------------------------------
+  // environments
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Create Environment
+   * POST /api/v1/dbt/projects/{project_id}/environments/ (response is not described by the spec)
+   */
+  createEnvironment<TResponse = unknown>(projectId: number, data: EnvironmentCreate, config?: RequestOptions): Promise<ApiResponse<TResponse>> {
+    return this.client.request<TResponse>({
+      url: `/api/v1/dbt/projects/${encodeURIComponent(String(projectId))}/environments/`,
+      method: 'POST',
+      data,
+      ...config
+    });
+  }
+
+  /**
+   * List Environments
+   * GET /api/v1/dbt/projects/{project_id}/environments/ (response is not described by the spec)
+   */
+  listEnvironments<TResponse = unknown>(projectId: number, config?: RequestOptions): Promise<ApiResponse<TResponse>> {
+    return this.client.request<TResponse>({
+      url: `/api/v1/dbt/projects/${encodeURIComponent(String(projectId))}/environments/`,
+      method: 'GET',
+      ...config
+    });
+  }
+
+  /**
+   * Get Environment
+   * GET /api/v1/dbt/projects/{project_id}/environments/{environment_id} (response is not described by the spec)
+   */
+  getEnvironment<TResponse = unknown>(projectId: number, environmentId: number, config?: RequestOptions): Promise<ApiResponse<TResponse>> {
+    return this.client.request<TResponse>({
+      url: `/api/v1/dbt/projects/${encodeURIComponent(String(projectId))}/environments/${encodeURIComponent(String(environmentId))}`,
+      method: 'GET',
+      ...config
+    });
+  }
+
+  /**
+   * Update Environment
+   * POST /api/v1/dbt/projects/{project_id}/environments/{environment_id} (response is not described by the spec)
+   */
+  updateEnvironment<TResponse = unknown>(projectId: number, environmentId: number, data: EnvironmentUpdate, config?: RequestOptions): Promise<ApiResponse<TResponse>> {
+    return this.client.request<TResponse>({
+      url: `/api/v1/dbt/projects/${encodeURIComponent(String(projectId))}/environments/${encodeURIComponent(String(environmentId))}`,
+      method: 'POST',
+      data,
+      ...config
+    });
+  }
+
+  /**
+   * Delete Environment
+   * DELETE /api/v1/dbt/projects/{project_id}/environments/{environment_id} (response is not described by the spec)
+   */
+  deleteEnvironment<TResponse = unknown>(projectId: number, environmentId: number, config?: RequestOptions): Promise<ApiResponse<TResponse>> {
+    return this.client.request<TResponse>({
+      url: `/api/v1/dbt/projects/${encodeURIComponent(String(projectId))}/environments/${encodeURIComponent(String(environmentId))}`,
+      method: 'DELETE',
+      ...config
+    });
+  }
+
+  // ---------------------------------------------------------------------------
+  // credentials
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Create Credential
+   * POST /api/v1/dbt/projects/{project_id}/credentials/ (response is not described by the spec)
+   */
+  createCredential<TResponse = unknown>(projectId: number, data: CredentialCreate, config?: RequestOptions): Promise<ApiResponse<TResponse>> {
+    return this.client.request<TResponse>({
+      url: `/api/v1/dbt/projects/${encodeURIComponent(String(projectId))}/credentials/`,
+      method: 'POST',
+      data,
+      ...config
+    });
+  }
+
+  /**
+   * List Credentials
+   * GET /api/v1/dbt/projects/{project_id}/credentials/ (response is not described by the spec)
+   */
+  listCredentials<TResponse = unknown>(projectId: number, config?: RequestOptions): Promise<ApiResponse<TResponse>> {
+    return this.client.request<TResponse>({
+      url: `/api/v1/dbt/projects/${encodeURIComponent(String(projectId))}/credentials/`,
+      method: 'GET',
+      ...config
+    });
+  }
+
+  /**
+   * Get Credential
+   * GET /api/v1/dbt/projects/{project_id}/credentials/{credential_id} (response is not described by the spec)
+   */
+  getCredential<TResponse = unknown>(projectId: number, credentialId: number, config?: RequestOptions): Promise<ApiResponse<TResponse>> {
+    return this.client.request<TResponse>({
+      url: `/api/v1/dbt/projects/${encodeURIComponent(String(projectId))}/credentials/${encodeURIComponent(String(credentialId))}`,
+      method: 'GET',
+      ...config
+    });
+  }
+
+  /**
+   * Update Credential
+   * POST /api/v1/dbt/projects/{project_id}/credentials/{credential_id} (response is not described by the spec)
+   */
+  updateCredential<TResponse = unknown>(projectId: number, credentialId: number, data: CredentialUpdate, config?: RequestOptions): Promise<ApiResponse<TResponse>> {
+    return this.client.request<TResponse>({
+      url: `/api/v1/dbt/projects/${encodeURIComponent(String(projectId))}/credentials/${encodeURIComponent(String(credentialId))}`,
+      method: 'POST',
+      data,
+      ...config
+    });
+  }
+
+  /**
+   * Delete Credential
+   * DELETE /api/v1/dbt/projects/{project_id}/credentials/{credential_id} (response is not described by the spec)
+   */
+  deleteCredential<TResponse = unknown>(projectId: number, credentialId: number, config?: RequestOptions): Promise<ApiResponse<TResponse>> {
+    return this.client.request<TResponse>({
+      url: `/api/v1/dbt/projects/${encodeURIComponent(String(projectId))}/credentials/${encodeURIComponent(String(credentialId))}`,
+      method: 'DELETE',
+      ...config
+    });
+  }
+
+  // ---------------------------------------------------------------------------
+  // connections
+  // ---------------------------------------------------------------------------
+
+  /**
+   * List Project Connections
+   * GET /api/v1/dbt/projects/{project_id}/connections/ (response is not described by the spec)
+   */
+  listProjectConnections<TResponse = unknown>(projectId: number, config?: RequestOptions): Promise<ApiResponse<TResponse>> {
+    return this.client.request<TResponse>({
+      url: `/api/v1/dbt/projects/${encodeURIComponent(String(projectId))}/connections/`,
+      method: 'GET',
+      ...config
+    });
+  }
+
+  /**
+   * Create Project Connection
+   * POST /api/v1/dbt/projects/{project_id}/connections/ (response is not described by the spec)
+   */
+  createProjectConnection<TResponse = unknown>(projectId: number, data: ConnectionCreate, config?: RequestOptions): Promise<ApiResponse<TResponse>> {
+    return this.client.request<TResponse>({
+      url: `/api/v1/dbt/projects/${encodeURIComponent(String(projectId))}/connections/`,
+      method: 'POST',
+      data,
+      ...config
+    });
+  }
+
+  /**
+   * Get Project Connection
+   * GET /api/v1/dbt/projects/{project_id}/connections/{connection_id} (response is not described by the spec)
+   */
+  getProjectConnection<TResponse = unknown>(projectId: number, connectionId: number, config?: RequestOptions): Promise<ApiResponse<TResponse>> {
+    return this.client.request<TResponse>({
+      url: `/api/v1/dbt/projects/${encodeURIComponent(String(projectId))}/connections/${encodeURIComponent(String(connectionId))}`,
+      method: 'GET',
+      ...config
+    });
+  }
+
+  /**
+   * Update Project Connection
+   * POST /api/v1/dbt/projects/{project_id}/connections/{connection_id} (response is not described by the spec)
+   */
+  updateProjectConnection<TResponse = unknown>(projectId: number, connectionId: number, data: ConnectionUpdate, config?: RequestOptions): Promise<ApiResponse<TResponse>> {
+    return this.client.request<TResponse>({
+      url: `/api/v1/dbt/projects/${encodeURIComponent(String(projectId))}/connections/${encodeURIComponent(String(connectionId))}`,
+      method: 'POST',
+      data,
+      ...config
+    });
+  }
+
+  /**
+   * Delete Project Connection
+   * DELETE /api/v1/dbt/projects/{project_id}/connections/{connection_id} (response is not described by the spec)
+   */
+  deleteProjectConnection<TResponse = unknown>(projectId: number, connectionId: number, config?: RequestOptions): Promise<ApiResponse<TResponse>> {
+    return this.client.request<TResponse>({
+      url: `/api/v1/dbt/projects/${encodeURIComponent(String(projectId))}/connections/${encodeURIComponent(String(connectionId))}`,
+      method: 'DELETE',
+      ...config
+    });
+  }
+
+  // ---------------------------------------------------------------------------
+  // projects
+  // ---------------------------------------------------------------------------
+
+  /**
+   * List Projects
+   * GET /api/v1/dbt/projects/ (response is not described by the spec)
+   */
+  listProjects<TResponse = unknown>(config?: RequestOptions): Promise<ApiResponse<TResponse>> {
+    return this.client.request<TResponse>({
+      url: `/api/v1/dbt/projects/`,
+      method: 'GET',
+      ...config
+    });
+  }
+
+  /**
+   * Create Project
+   * POST /api/v1/dbt/projects/ (response is not described by the spec)
+   */
+  createProject<TResponse = unknown>(data: ProjectCreate, config?: RequestOptions): Promise<ApiResponse<TResponse>> {
+    return this.client.request<TResponse>({
+      url: `/api/v1/dbt/projects/`,
+      method: 'POST',
+      data,
+      ...config
+    });
+  }
+
+  /**
+   * Get Project
+   * GET /api/v1/dbt/projects/{project_id} (response is not described by the spec)
+   */
+  getProject<TResponse = unknown>(projectId: number, config?: RequestOptions): Promise<ApiResponse<TResponse>> {
+    return this.client.request<TResponse>({
+      url: `/api/v1/dbt/projects/${encodeURIComponent(String(projectId))}`,
+      method: 'GET',
+      ...config
+    });
+  }
+
+  /**
+   * Update Project
+   * POST /api/v1/dbt/projects/{project_id} (response is not described by the spec)
+   */
+  updateProject<TResponse = unknown>(projectId: number, data: ProjectUpdate, config?: RequestOptions): Promise<ApiResponse<TResponse>> {
+    return this.client.request<TResponse>({
+      url: `/api/v1/dbt/projects/${encodeURIComponent(String(projectId))}`,
+      method: 'POST',
+      data,
+      ...config
+    });
+  }
+
+  /**
+   * Delete Project
+   * DELETE /api/v1/dbt/projects/{project_id} (response is not described by the spec)
+   */
+  deleteProject<TResponse = unknown>(projectId: number, config?: RequestOptions): Promise<ApiResponse<TResponse>> {
+    return this.client.request<TResponse>({
+      url: `/api/v1/dbt/projects/${encodeURIComponent(String(projectId))}`,
+      method: 'DELETE',
+      ...config
+    });
+  }
+
+  // ---------------------------------------------------------------------------
+  // users
+  // ---------------------------------------------------------------------------
+
+  /**
+   * List Users
+   * GET /api/v1/dbt/users/ (response is not described by the spec)
+   */
+  listUsers<TResponse = unknown>(config?: RequestOptions): Promise<ApiResponse<TResponse>> {
+    return this.client.request<TResponse>({
+      url: `/api/v1/dbt/users/`,
+      method: 'GET',
+      ...config
+    });
+  }
+
+  /**
+   * Get User
+   * GET /api/v1/dbt/users/{user_id} (response is not described by the spec)
+   */
+  getUser<TResponse = unknown>(userId: number, config?: RequestOptions): Promise<ApiResponse<TResponse>> {
+    return this.client.request<TResponse>({
+      url: `/api/v1/dbt/users/${encodeURIComponent(String(userId))}`,
+      method: 'GET',
+      ...config
+    });
+  }
+
+  /**
+   * Update User
+   * POST /api/v1/dbt/users/{user_id} (response is not described by the spec)
+   */
+  updateUser<TResponse = unknown>(userId: number, data: UserUpdate, config?: RequestOptions): Promise<ApiResponse<TResponse>> {
+    return this.client.request<TResponse>({
+      url: `/api/v1/dbt/users/${encodeURIComponent(String(userId))}`,
+      method: 'POST',
+      data,
+      ...config
+    });
+  }
+
+  /**
+   * Delete User
+   * DELETE /api/v1/dbt/users/{user_id} (response is not described by the spec)
+   */
+  deleteUser<TResponse = unknown>(userId: number, config?: RequestOptions): Promise<ApiResponse<TResponse>> {
+    return this.client.request<TResponse>({
+      url: `/api/v1/dbt/users/${encodeURIComponent(String(userId))}`,
+      method: 'DELETE',
+      ...config
+    });
+  }
+
+  // ---------------------------------------------------------------------------
+  // Admin - PIMS
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Create Entitlements
+   * POST /api/v1/admin/pims/entitlements
+   */
+  createEntitlements(data: EntitlementRequest, config?: RequestOptions): Promise<ApiResponse<EntitlementResponse>> {
+    return this.client.request<EntitlementResponse>({
+      url: `/api/v1/admin/pims/entitlements`,
+      method: 'POST',
+      data,
+      ...config
+    });
+  }
+
+  // ---------------------------------------------------------------------------
+  // Snowflake
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Connect Snowflake
+   * POST /api/v1/admin/snowflake/connect (response is not described by the spec)
+   */
+  connectSnowflake<TResponse = unknown>(data: SnowflakeConnectionRequest, config?: RequestOptions): Promise<ApiResponse<TResponse>> {
+    return this.client.request<TResponse>({
+      url: `/api/v1/admin/snowflake/connect`,
+      method: 'POST',
+      data,
+      ...config
+    });
+  }
+
+  /**
+   * Verify Database
+   * POST /api/v1/admin/snowflake/verify-database (response is not described by the spec)
+   */
+  verifyDatabase<TResponse = unknown>(data: VerifyDatabaseInputRequest, config?: RequestOptions): Promise<ApiResponse<TResponse>> {
+    return this.client.request<TResponse>({
+      url: `/api/v1/admin/snowflake/verify-database`,
+      method: 'POST',
+      data,
+      ...config
+    });
+  }
+
+  // ---------------------------------------------------------------------------
+  // Datacloud
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Provision Infra
+   * POST /api/v1/admin/datacloud/provision-infra
+   */
+  provisionInfra(data: Infra, config?: RequestOptions): Promise<ApiResponse<ProvisionInfraResponse>> {
+    return this.client.request<ProvisionInfraResponse>({
+      url: `/api/v1/admin/datacloud/provision-infra`,
+      method: 'POST',
+      data,
+      ...config
+    });
+  }
+
+  // ---------------------------------------------------------------------------
+  // GitHub
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Create Secret
+   * POST /api/v1/admin/github/create-secret (response is not described by the spec)
+   */
+  createSecret<TResponse = unknown>(data: CreateSecretRequest, config?: RequestOptions): Promise<ApiResponse<TResponse>> {
+    return this.client.request<TResponse>({
+      url: `/api/v1/admin/github/create-secret`,
+      method: 'POST',
+      data,
+      ...config
+    });
+  }
+
+  /**
+   * Create Branch
+   * POST /api/v1/admin/github/create-branch (response is not described by the spec)
+   */
+  createBranch<TResponse = unknown>(data: CreateBranchRequest, config?: RequestOptions): Promise<ApiResponse<TResponse>> {
+    return this.client.request<TResponse>({
+      url: `/api/v1/admin/github/create-branch`,
+      method: 'POST',
+      data,
+      ...config
+    });
+  }
+
+  /**
+   * Create Pull Request
+   * POST /api/v1/admin/github/create-pull-request (response is not described by the spec)
+   */
+  createPullRequest<TResponse = unknown>(data: CreatePullRequestRequest, config?: RequestOptions): Promise<ApiResponse<TResponse>> {
+    return this.client.request<TResponse>({
+      url: `/api/v1/admin/github/create-pull-request`,
+      method: 'POST',
+      data,
+      ...config
+    });
+  }
+
+  /**
+   * Check Secret Exists
+   * POST /api/v1/admin/github/check-secret-exists (response is not described by the spec)
+   */
+  checkSecretExists<TResponse = unknown>(data: SecretRequest, config?: RequestOptions): Promise<ApiResponse<TResponse>> {
+    return this.client.request<TResponse>({
+      url: `/api/v1/admin/github/check-secret-exists`,
+      method: 'POST',
+      data,
+      ...config
+    });
+  }
+
+  /**
+   * Create File
+   * POST /api/v1/admin/github/create-file (response is not described by the spec)
+   */
+  createFile<TResponse = unknown>(data: CreateFileRequest, config?: RequestOptions): Promise<ApiResponse<TResponse>> {
+    return this.client.request<TResponse>({
+      url: `/api/v1/admin/github/create-file`,
+      method: 'POST',
+      data,
+      ...config
+    });
+  }
+
+  /**
+   * Create Repo
+   * POST /api/v1/admin/github/create-repo (response is not described by the spec)
+   */
+  createRepo<TResponse = unknown>(data: RepoRequest, config?: RequestOptions): Promise<ApiResponse<TResponse>> {
+    return this.client.request<TResponse>({
+      url: `/api/v1/admin/github/create-repo`,
+      method: 'POST',
+      data,
+      ...config
+    });
+  }
+
+  /**
+   * Create Variable
+   * POST /api/v1/admin/github/create-variable (response is not described by the spec)
+   */
+  createVariable<TResponse = unknown>(data: VariableRequest, config?: RequestOptions): Promise<ApiResponse<TResponse>> {
+    return this.client.request<TResponse>({
+      url: `/api/v1/admin/github/create-variable`,
+      method: 'POST',
+      data,
+      ...config
+    });
+  }
+
+  /**
+   * Delete Branch
+   * POST /api/v1/admin/github/delete-branch (response is not described by the spec)
+   */
+  deleteBranch<TResponse = unknown>(data: DeleteBranchRequest, config?: RequestOptions): Promise<ApiResponse<TResponse>> {
+    return this.client.request<TResponse>({
+      url: `/api/v1/admin/github/delete-branch`,
+      method: 'POST',
+      data,
+      ...config
+    });
+  }
+
+  /**
+   * Dispatch Workflow Event
+   * POST /api/v1/admin/github/dispatch-workflow-event (response is not described by the spec)
+   */
+  dispatchWorkflowEvent<TResponse = unknown>(data: WorkflowDispatchRequest, config?: RequestOptions): Promise<ApiResponse<TResponse>> {
+    return this.client.request<TResponse>({
+      url: `/api/v1/admin/github/dispatch-workflow-event`,
+      method: 'POST',
+      data,
+      ...config
+    });
+  }
+
+  /**
+   * Get Branch
+   * POST /api/v1/admin/github/get-branch (response is not described by the spec)
+   */
+  getBranch<TResponse = unknown>(data: BranchRequest, config?: RequestOptions): Promise<ApiResponse<TResponse>> {
+    return this.client.request<TResponse>({
+      url: `/api/v1/admin/github/get-branch`,
+      method: 'POST',
+      data,
+      ...config
+    });
+  }
+
+  /**
+   * Get Branches
+   * POST /api/v1/admin/github/get-branches (response is not described by the spec)
+   */
+  getBranches<TResponse = unknown>(data: RepoRequest, config?: RequestOptions): Promise<ApiResponse<TResponse>> {
+    return this.client.request<TResponse>({
+      url: `/api/v1/admin/github/get-branches`,
+      method: 'POST',
+      data,
+      ...config
+    });
+  }
+
+  /**
+   * Get Public Key
+   * POST /api/v1/admin/github/get-public-key (response is not described by the spec)
+   */
+  getPublicKey<TResponse = unknown>(data: RepoRequest, config?: RequestOptions): Promise<ApiResponse<TResponse>> {
+    return this.client.request<TResponse>({
+      url: `/api/v1/admin/github/get-public-key`,
+      method: 'POST',
+      data,
+      ...config
+    });
+  }
+
+  /**
+   * List Pull Requests
+   * POST /api/v1/admin/github/list-pull-requests (response is not described by the spec)
+   */
+  listPullRequests<TResponse = unknown>(data: RepoRequest, config?: RequestOptions): Promise<ApiResponse<TResponse>> {
+    return this.client.request<TResponse>({
+      url: `/api/v1/admin/github/list-pull-requests`,
+      method: 'POST',
+      data,
+      ...config
+    });
+  }
+
+  /**
+   * Merge Branch
+   * POST /api/v1/admin/github/merge-branch (response is not described by the spec)
+   */
+  mergeBranch<TResponse = unknown>(data: MergeBranchRequest, config?: RequestOptions): Promise<ApiResponse<TResponse>> {
+    return this.client.request<TResponse>({
+      url: `/api/v1/admin/github/merge-branch`,
+      method: 'POST',
+      data,
+      ...config
+    });
+  }
+
+  /**
+   * Merge Pull Request
+   * POST /api/v1/admin/github/merge-pull-request (response is not described by the spec)
+   */
+  mergePullRequest<TResponse = unknown>(data: PullRequestRequest, config?: RequestOptions): Promise<ApiResponse<TResponse>> {
+    return this.client.request<TResponse>({
+      url: `/api/v1/admin/github/merge-pull-request`,
+      method: 'POST',
+      data,
+      ...config
+    });
+  }
+
+  /**
+   * Read File
+   * POST /api/v1/admin/github/read-file (response is not described by the spec)
+   */
+  readFile<TResponse = unknown>(data: FileRequest, config?: RequestOptions): Promise<ApiResponse<TResponse>> {
+    return this.client.request<TResponse>({
+      url: `/api/v1/admin/github/read-file`,
+      method: 'POST',
+      data,
+      ...config
+    });
+  }
+
+  /**
+   * Update Branch Protection
+   * POST /api/v1/admin/github/update-branch-protection (response is not described by the spec)
+   */
+  updateBranchProtection<TResponse = unknown>(data: UpdateBranchProtectionRequest, config?: RequestOptions): Promise<ApiResponse<TResponse>> {
+    return this.client.request<TResponse>({
+      url: `/api/v1/admin/github/update-branch-protection`,
+      method: 'POST',
+      data,
+      ...config
+    });
+  }
+
+  // ---------------------------------------------------------------------------
+  // dbt
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Create Dbt Github Project
+   * POST /api/v1/admin/dbt/github-project (response is not described by the spec)
+   */
+  createDbtGithubProject<TResponse = unknown>(data: DbtProjectRequest, config?: RequestOptions): Promise<ApiResponse<TResponse>> {
+    return this.client.request<TResponse>({
+      url: `/api/v1/admin/dbt/github-project`,
+      method: 'POST',
+      data,
+      ...config
+    });
+  }
+}
+
+// =============================================================================
+// Default Export
+// =============================================================================
+
+export default ProxyApi;
@@ -0,0 +1,428 @@
+/**
+ * HTTP Response Cache
+ * CacheOperations implementation used by BaseHttpClient to cache GET responses
+ */
+
+import type {
+  ApiRequestConfig,
+  CacheConfig,
+  CacheEntry,
+  CacheOperations,
+  CacheStats,
+  CacheStorageType
+} from '../types/api';
+
+// =============================================================================
+// Types and Interfaces
+// =============================================================================
+
+/**
+ * Entry as persisted by a backend; the URL is kept so entries can be invalidated by pattern
+ */
+interface StoredCacheEntry<TData = any> extends CacheEntry<TData> {
+  url: string;
+}
+
+/**
+ * Storage backend for cache entries
+ */
+interface CacheBackend {
+  get(key: string): Promise<StoredCacheEntry | null>;
+  set(entry: StoredCacheEntry): Promise<void>;
+  delete(key: string): Promise<boolean>;
+  entries(): Promise<StoredCacheEntry[]>;
+  clear(): Promise<void>;
+}
+
+const CACHE_NAMESPACE = 'vue-layout-http-cache';
+
+// =============================================================================
+// Storage Backends
+// =============================================================================
+
+class MemoryCacheBackend implements CacheBackend {
+  private store = new Map<string, StoredCacheEntry>();
+
+  async get(key: string): Promise<StoredCacheEntry | null> {
+    return this.store.get(key) ?? null;
+  }
+
+  async set(entry: StoredCacheEntry): Promise<void> {
+    this.store.set(entry.key, entry);
+  }
+
+  async delete(key: string): Promise<boolean> {
+    return this.store.delete(key);
+  }
+
+  async entries(): Promise<StoredCacheEntry[]> {
+    return Array.from(this.store.values());
+  }
+
+  async clear(): Promise<void> {
+    this.store.clear();
+  }
+}
+
+/**
+ * Backend for localStorage and sessionStorage; every entry is stored under a namespaced key
+ */
+class WebStorageCacheBackend implements CacheBackend {
+  constructor(private storage: Storage, private prefix: string = `${CACHE_NAMESPACE}:`) {}
+
+  async get(key: string): Promise<StoredCacheEntry | null> {
+    const stored = this.storage.getItem(this.prefix + key);
+    if (!stored) return null;
+
+    try {
+      return JSON.parse(stored);
+    } catch {
+      this.storage.removeItem(this.prefix + key);
+      return null;
+    }
+  }
+
+  async set(entry: StoredCacheEntry): Promise<void> {
+    this.storage.setItem(this.prefix + entry.key, JSON.stringify(entry));
+  }
+
+  async delete(key: string): Promise<boolean> {
+    const existed = this.storage.getItem(this.prefix + key) !== null;
+    this.storage.removeItem(this.prefix + key);
+    return existed;
+  }
+
+  async entries(): Promise<StoredCacheEntry[]> {
+    const entries: StoredCacheEntry[] = [];
+    for (const key of this.getStorageKeys()) {
+      const entry = await this.get(key.slice(this.prefix.length));
+      if (entry) entries.push(entry);
+    }
+    return entries;
+  }
+
+  async clear(): Promise<void> {
+    this.getStorageKeys().forEach(key => this.storage.removeItem(key));
+  }
+
+  private getStorageKeys(): string[] {
+    const keys: string[] = [];
+    for (let i = 0; i < this.storage.length; i++) {
+      const key = this.storage.key(i);
+      if (key?.startsWith(this.prefix)) keys.push(key);
+    }
+    return keys;
+  }
+}
+
+class IndexedDBCacheBackend implements CacheBackend {
+  private static readonly STORE_NAME = 'entries';
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  constructor(private databaseName: string = CACHE_NAMESPACE) {}
+
+  async get(key: string): Promise<StoredCacheEntry | null> {
+    const result = await this.run<StoredCacheEntry | undefined>('readonly', store => store.get(key));
+    return result ?? null;
+  }
+
+  async set(entry: StoredCacheEntry): Promise<void> {
+    await this.run('readwrite', store => store.put(entry));
+  }
+
+  async delete(key: string): Promise<boolean> {
+    const existing = await this.get(key);
+    if (!existing) return false;
+
+    await this.run('readwrite', store => store.delete(key));
+    return true;
+  }
+
+  async entries(): Promise<StoredCacheEntry[]> {
+    return this.run<StoredCacheEntry[]>('readonly', store => store.getAll());
+  }
+
+  async clear(): Promise<void> {
+    await this.run('readwrite', store => store.clear());
+  }
+
+  private openDatabase(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this.databaseName, 1);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(IndexedDBCacheBackend.STORE_NAME, { keyPath: 'key' });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async run<T>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest
+  ): Promise<T> {
+    const db = await this.openDatabase();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(IndexedDBCacheBackend.STORE_NAME, mode);
+      const request = operation(transaction.objectStore(IndexedDBCacheBackend.STORE_NAME));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+}
+
+/**
+ * Create the backend for a storage type, falling back to memory where the browser API is unavailable
+ */
+function createBackend(storage: CacheStorageType): CacheBackend {
+  switch (storage) {
+    case 'localStorage':
+      if (typeof localStorage !== 'undefined') return new WebStorageCacheBackend(localStorage);
+      break;
+    case 'sessionStorage':
+      if (typeof sessionStorage !== 'undefined') return new WebStorageCacheBackend(sessionStorage);
+      break;
+    case 'indexedDB':
+      if (typeof indexedDB !== 'undefined') return new IndexedDBCacheBackend();
+      break;
+  }
+  return new MemoryCacheBackend();
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Simple string hash (djb2), used for the 'hash' key strategy and config hashes
+ */
+function hashString(value: string): string {
+  let hash = 5381;
+  for (let i = 0; i < value.length; i++) {
+    hash = ((hash << 5) + hash + value.charCodeAt(i)) | 0;
+  }
+  return (hash >>> 0).toString(36);
+}
+
+/**
+ * Convert a glob-style pattern (`*` matches anything) into a regular expression
+ */
+function patternToRegExp(pattern: string): RegExp {
+  const escaped = pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*');
+  return new RegExp(`^${escaped}$`);
+}
+
+function serializeParams(params?: Record<string, any>): string {
+  if (!params) return '';
+
+  return Object.keys(params)
+    .filter(key => params[key] !== undefined && params[key] !== null)
+    .sort()
+    .map(key => `${key}=${JSON.stringify(params[key])}`)
+    .join('&');
+}
+
+// =============================================================================
+// HTTP Cache
+// =============================================================================
+
+/**
+ * Response cache with TTL expiry, least-recently-used eviction past `maxSize` and pattern invalidation
+ * Cache failures are logged and treated as misses so they never fail a request
+ */
+export class HttpCache implements CacheOperations {
+  readonly config: CacheConfig;
+  private backend: CacheBackend;
+  private hits = 0;
+  private misses = 0;
+  private createdAt = Date.now();
+  private lastCleanup = Date.now();
+
+  constructor(config: Partial<CacheConfig> = {}) {
+    this.config = {
+      enabled: false,
+      storage: 'memory',
+      defaultTTL: 5 * 60 * 1000, // 5 minutes
+      keyStrategy: 'url',
+      ...config
+    };
+    this.backend = createBackend(this.config.storage);
+  }
+
+  /**
+   * Whether a request's response may be served from and stored in the cache
+   * Only GET requests are cached; `metadata.cache === false` opts a request out
+   */
+  isCacheable(config: ApiRequestConfig): boolean {
+    return this.config.enabled && config.method === 'GET' && config.metadata?.cache !== false;
+  }
+
+  /**
+   * Whether a successful request writes data and so should apply `invalidationPatterns`
+   * PUT, PATCH and DELETE do unless they set `metadata.invalidatesCache === false`; POST only with
+   * `metadata.invalidatesCache === true`, because the proxy also answers lookups such as get-branches over POST
+   */
+  invalidatesCache(config: ApiRequestConfig): boolean {
+    return config.metadata?.invalidatesCache ?? ['PUT', 'PATCH', 'DELETE'].includes(config.method);
+  }
+
+  /**
+   * Build the cache key for a request according to the configured key strategy
+   */
+  getCacheKey(config: ApiRequestConfig): string {
+    const urlKey = `${config.method} ${config.url}?${serializeParams(config.params)}`;
+
+    switch (this.config.keyStrategy) {
+      case 'hash':
+        return hashString(urlKey);
+      case 'custom':
+        return this.config.keyGenerator ? this.config.keyGenerator(config) : urlKey;
+      default:
+        return urlKey;
+    }
+  }
+
+  async get<TData = any>(key: string): Promise<CacheEntry<TData> | null> {
+    try {
+      const entry = await this.backend.get(key);
+
+      if (!entry || Date.now() - entry.timestamp > entry.ttl) {
+        if (entry) await this.backend.delete(key);
+        this.misses++;
+        return null;
+      }
+
+      entry.accessCount++;
+      entry.lastAccess = Date.now();
+      await this.backend.set(entry);
+
+      this.hits++;
+      return entry;
+    } catch (error) {
+      console.warn('Cache read failed:', error);
+      this.misses++;
+      return null;
+    }
+  }
+
+  /**
+   * Store an entry
+   * @param url - Request URL the entry belongs to, used for pattern invalidation (defaults to the key)
+   */
+  async set<TData = any>(key: string, data: TData, ttl?: number, url: string = key): Promise<void> {
+    const now = Date.now();
+
+    try {
+      await this.backend.set({
+        data,
+        timestamp: now,
+        ttl: ttl ?? this.config.defaultTTL,
+        key,
+        configHash: hashString(key),
+        accessCount: 0,
+        lastAccess: now,
+        url
+      });
+      await this.enforceMaxSize();
+    } catch (error) {
+      console.warn('Cache write failed:', error);
+    }
+  }
+
+  async delete(key: string): Promise<boolean> {
+    return this.backend.delete(key);
+  }
+
+  async clear(): Promise<void> {
+    await this.backend.clear();
+    this.hits = 0;
+    this.misses = 0;
+  }
+
+  /**
+   * Remove every entry whose URL matches a glob-style pattern
+   * @returns Number of entries removed
+   */
+  async invalidate(pattern: string): Promise<number> {
+    const regex = patternToRegExp(pattern);
+    const entries = await this.backend.entries();
+    const matching = entries.filter(entry => regex.test(entry.url));
+
+    await Promise.all(matching.map(entry => this.backend.delete(entry.key)));
+    return matching.length;
+  }
+
+  /**
+   * Apply `invalidationPatterns` after a successful mutating request:
+   * each pattern the URL matches has all of its cached entries removed
+   */
+  async invalidateForMutation(url: string): Promise<void> {
+    const patterns = (this.config.invalidationPatterns ?? []).filter(pattern => patternToRegExp(pattern).test(url));
+
+    try {
+      for (const pattern of patterns) {
+        await this.invalidate(pattern);
+      }
+    } catch (error) {
+      console.warn('Cache invalidation failed:', error);
+    }
+  }
+
+  /**
+   * Remove expired entries
+   * @returns Number of entries removed
+   */
+  async cleanup(): Promise<number> {
+    const now = Date.now();
+    const entries = await this.backend.entries();
+    const expired = entries.filter(entry => now - entry.timestamp > entry.ttl);
+
+    await Promise.all(expired.map(entry => this.backend.delete(entry.key)));
+    this.lastCleanup = now;
+    return expired.length;
+  }
+
+  async getStats(): Promise<CacheStats> {
+    const entries = await this.backend.entries();
+    const lookups = this.hits + this.misses;
+
+    return {
+      totalEntries: entries.length,
+      hitRate: lookups > 0 ? this.hits / lookups : 0,
+      missRate: lookups > 0 ? this.misses / lookups : 0,
+      totalSize: entries.reduce((total, entry) => total + JSON.stringify(entry).length * 2, 0), // UTF-16
+      createdAt: this.createdAt,
+      lastCleanup: this.lastCleanup
+    };
+  }
+
+  /**
+   * Drop expired entries, then evict least recently used entries until `maxSize` is respected
+   */
+  private async enforceMaxSize(): Promise<void> {
+    if (!this.config.maxSize) return;
+
+    let entries = await this.backend.entries();
+    if (entries.length <= this.config.maxSize) return;
+
+    await this.cleanup();
+    entries = await this.backend.entries();
+
+    const overflow = entries.length - this.config.maxSize;
+    if (overflow <= 0) return;
+
+    const leastRecentlyUsed = entries
+      .sort((a, b) => a.lastAccess - b.lastAccess)
+      .slice(0, overflow);
+    await Promise.all(leastRecentlyUsed.map(entry => this.backend.delete(entry.key)));
+  }
+}
+
+// =============================================================================
+// Default Export
+// =============================================================================
+
+export default HttpCache;
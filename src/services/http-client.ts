@@ -9,13 +9,20 @@ import type {
   FileUploadConfig,
   InterceptorConfig,
   RequestInterceptor,
-  AuthConfig,
-  CacheOperations,
-  AuthManager,
-  LoadingStateManager,
-  RequestCancellationManager,
-  PerformanceMonitor
+  ResponseInterceptor,
+  ErrorInterceptor,
+  ErrorRecoveryStrategy,
+  AuthConfig
 } from '../types/api.ts';
+import { RequestCancellationRegistry } from './request-cancellation';
+import { HttpCache } from './http-cache';
+import { RetryPolicy } from './retry-policy';
+import { HttpAuthManager } from './auth-manager';
+import { RequestQueue } from './request-queue';
+import { ReactiveLoadingManager } from './loading-state';
+import { HttpPerformanceMonitor } from './performance-monitor';
+import type { MeasurementOutcome } from './performance-monitor';
+import { RequestLogger } from './request-logger';
 
 /**
  * Utility function to serialize query parameters into a URL search string
@@ -133,8 +140,8 @@ export function createRequestIdInterceptor(headerName: string = 'X-Request-ID'):
     const newConfig = { ...config };
     newConfig.headers = { ...config.headers };
     
-    // Generate unique request ID
-    const requestId = generateUUID();
+    // Reuse the ID BaseHttpClient assigned so the header matches loading and performance tracking
+    const requestId = config.metadata?.requestId ?? generateUUID();
     
     // Add request ID to headers
     newConfig.headers[headerName] = requestId;
@@ -221,20 +228,71 @@ export function createHeaderInterceptor(
   };
 }
 
+/**
+ * Built-in response interceptor that unwraps dbt Cloud style `{ data, status }` envelopes
+ * @param key - Envelope property holding the payload (default: 'data')
+ * @returns Response interceptor function
+ */
+export function createEnvelopeUnwrapInterceptor(key: string = 'data'): ResponseInterceptor {
+  return (response: ApiResponse): ApiResponse => {
+    const body = response.data;
+    
+    // Only unwrap plain objects that actually carry the envelope property
+    if (!body || typeof body !== 'object' || Array.isArray(body) || !(key in body)) {
+      return response;
+    }
+    
+    return {
+      ...response,
+      data: body[key]
+    };
+  };
+}
+
+/**
+ * Built-in error interceptor that replaces generic HTTP messages with the proxy's `detail` message
+ * Handles FastAPI string details as well as validation error lists
+ * @returns Error interceptor function
+ */
+export function createErrorDetailInterceptor(): ErrorInterceptor {
+  return (error: ApiError): ApiError => {
+    const detail = error.response?.data?.detail;
+    
+    if (typeof detail === 'string' && detail) {
+      error.message = detail;
+    } else if (Array.isArray(detail) && detail.length > 0) {
+      // FastAPI validation errors: [{ loc: ['body', 'field'], msg: '...' }]
+      error.message = detail
+        .map((item: any) => {
+          const field = Array.isArray(item.loc) ? item.loc.filter((part: any) => part !== 'body').join('.') : '';
+          return field ? `${field}: ${item.msg}` : item.msg;
+        })
+        .join('; ');
+    }
+    
+    return error;
+  };
+}
+
 /**
  * Interceptor registration entry with metadata
  */
-interface InterceptorEntry {
+interface InterceptorEntry<TInterceptor = RequestInterceptor> {
   /** Unique identifier for the interceptor */
   id: string;
   /** The interceptor function */
-  interceptor: RequestInterceptor;
+  interceptor: TInterceptor;
   /** Priority for execution order (higher = earlier execution) */
   priority: number;
   /** Optional name for debugging */
   name?: string;
 }
 
+/**
+ * Response fields stored in the cache; config and timing are filled in on each hit
+ */
+type CachedResponse = Pick<ApiResponse, 'data' | 'status' | 'statusText' | 'headers'>;
+
 /**
  * Core HTTP client implementation using the Fetch API
  * Provides basic HTTP functionality with proper TypeScript typing
@@ -246,17 +304,41 @@ export class BaseHttpClient implements HttpClient {
   /** Private array to store registered request interceptors */
   private requestInterceptors: InterceptorEntry[] = [];
   
+  /** Private array to store registered response interceptors */
+  private responseInterceptors: InterceptorEntry<ResponseInterceptor>[] = [];
+  
+  /** Private array to store registered error interceptors */
+  private errorInterceptors: InterceptorEntry<ErrorInterceptor>[] = [];
+  
+  /** Private array to store registered error recovery strategies */
+  private recoveryStrategies: InterceptorEntry<ErrorRecoveryStrategy>[] = [];
+  
   /** Private counter for generating unique interceptor IDs */
   private interceptorIdCounter = 0;
   
-  // Placeholder implementations for interface compliance
-  // These will be implemented in subsequent steps
-  readonly interceptors: InterceptorConfig = {};
-  readonly cache: CacheOperations = {} as CacheOperations;
-  readonly auth: AuthManager = {} as AuthManager;
-  readonly loading: LoadingStateManager = {} as LoadingStateManager;
-  readonly cancellation: RequestCancellationManager = {} as RequestCancellationManager;
-  readonly performance: PerformanceMonitor = {} as PerformanceMonitor;
+  /** Reactive loading state of in-flight requests, for global loading indicators */
+  readonly loading = new ReactiveLoadingManager();
+
+  /** Tracks in-flight requests so they can be cancelled */
+  readonly cancellation = new RequestCancellationRegistry();
+
+  /** GET response cache, disabled unless `cacheConfig.enabled` is set */
+  readonly cache: HttpCache;
+
+  /** Retry policy, disabled unless `retryConfig.enabled` is set */
+  readonly retryPolicy: RetryPolicy;
+
+  /** Token storage and refresh, inactive unless `authConfig` is set */
+  readonly auth: HttpAuthManager;
+
+  /** Enforces `maxConcurrentRequests`; excess requests wait according to `queueConfig` */
+  readonly queue: RequestQueue;
+
+  /** Request timings and per-endpoint statistics, configured by `performanceConfig` */
+  readonly performance: HttpPerformanceMonitor;
+
+  /** Structured, redacted request log configured by `loggingConfig` */
+  readonly logger: RequestLogger;
 
   /**
    * Initialize the HTTP client with configuration
@@ -274,6 +356,31 @@ export class BaseHttpClient implements HttpClient {
       maxConcurrentRequests: 10,
       ...config
     };
+
+    this.cache = new HttpCache(this.config.cacheConfig);
+    this.retryPolicy = new RetryPolicy(this.config.retryConfig);
+    this.queue = new RequestQueue(this.config.maxConcurrentRequests, this.config.queueConfig);
+    this.performance = new HttpPerformanceMonitor(this.config.performanceConfig);
+    this.logger = new RequestLogger(this.config.loggingConfig);
+    this.auth = new HttpAuthManager(this.config.authConfig, (url, data) =>
+      // Sent without interceptors, retries or auth handling so a failing refresh cannot recurse
+      this.sendRequest(this.mergeConfig({ url, method: 'POST', data }), Date.now()).then(response => response.data)
+    );
+    
+    if (this.config.authConfig) {
+      this.addRequestInterceptor(createAuthTokenInterceptor(this.config.authConfig), 1000, 'AuthTokenInterceptor');
+    }
+  }
+
+  /**
+   * Registered interceptors in execution order
+   */
+  get interceptors(): InterceptorConfig {
+    return {
+      request: this.requestInterceptors.map(entry => entry.interceptor),
+      response: this.responseInterceptors.map(entry => entry.interceptor),
+      error: this.errorInterceptors.map(entry => entry.interceptor)
+    };
   }
 
   /**
@@ -352,7 +459,7 @@ export class BaseHttpClient implements HttpClient {
         processedConfig = result;
       } catch (error) {
         // Log interceptor error but continue with other interceptors
-        console.warn(`Request interceptor "${entry.name || entry.id}" failed:`, error);
+        this.logger.warn(`Request interceptor "${entry.name || entry.id}" failed`, processedConfig, error);
         // Continue with the current config if interceptor fails
       }
     }
@@ -360,13 +467,283 @@ export class BaseHttpClient implements HttpClient {
     return processedConfig;
   }
 
+  /**
+   * Add a response interceptor to the client
+   * @param interceptor - The response interceptor function
+   * @param priority - Priority for execution order (higher = earlier execution, default: 0)
+   * @param name - Optional name for debugging purposes
+   * @returns Unique identifier for the interceptor (used for removal)
+   */
+  addResponseInterceptor(
+    interceptor: ResponseInterceptor,
+    priority: number = 0,
+    name?: string
+  ): string {
+    const id = `interceptor_${++this.interceptorIdCounter}`;
+    this.responseInterceptors.push({ id, interceptor, priority, name });
+    this.responseInterceptors.sort((a, b) => b.priority - a.priority);
+    return id;
+  }
+
+  /**
+   * Remove a response interceptor from the client
+   * @param interceptorId - The unique identifier returned by addResponseInterceptor
+   * @returns True if the interceptor was found and removed, false otherwise
+   */
+  removeResponseInterceptor(interceptorId: string): boolean {
+    const initialLength = this.responseInterceptors.length;
+    this.responseInterceptors = this.responseInterceptors.filter(entry => entry.id !== interceptorId);
+    return this.responseInterceptors.length < initialLength;
+  }
+
+  /**
+   * Clear all response interceptors from the client
+   * @returns Number of interceptors that were removed
+   */
+  clearResponseInterceptors(): number {
+    const removedCount = this.responseInterceptors.length;
+    this.responseInterceptors = [];
+    return removedCount;
+  }
+
+  /**
+   * Add an error interceptor to the client
+   * @param interceptor - The error interceptor function
+   * @param priority - Priority for execution order (higher = earlier execution, default: 0)
+   * @param name - Optional name for debugging purposes
+   * @returns Unique identifier for the interceptor (used for removal)
+   */
+  addErrorInterceptor(
+    interceptor: ErrorInterceptor,
+    priority: number = 0,
+    name?: string
+  ): string {
+    const id = `interceptor_${++this.interceptorIdCounter}`;
+    this.errorInterceptors.push({ id, interceptor, priority, name });
+    this.errorInterceptors.sort((a, b) => b.priority - a.priority);
+    return id;
+  }
+
+  /**
+   * Remove an error interceptor from the client
+   * @param interceptorId - The unique identifier returned by addErrorInterceptor
+   * @returns True if the interceptor was found and removed, false otherwise
+   */
+  removeErrorInterceptor(interceptorId: string): boolean {
+    const initialLength = this.errorInterceptors.length;
+    this.errorInterceptors = this.errorInterceptors.filter(entry => entry.id !== interceptorId);
+    return this.errorInterceptors.length < initialLength;
+  }
+
+  /**
+   * Clear all error interceptors from the client
+   * @returns Number of interceptors that were removed
+   */
+  clearErrorInterceptors(): number {
+    const removedCount = this.errorInterceptors.length;
+    this.errorInterceptors = [];
+    return removedCount;
+  }
+
+  /**
+   * Add an error recovery strategy, tried after error interceptors have run
+   * @param strategy - The recovery strategy
+   * @param priority - Priority for execution order (higher = tried first, default: 0)
+   * @param name - Optional name for debugging purposes
+   * @returns Unique identifier for the strategy (used for removal)
+   */
+  addRecoveryStrategy(
+    strategy: ErrorRecoveryStrategy,
+    priority: number = 0,
+    name?: string
+  ): string {
+    const id = `recovery_${++this.interceptorIdCounter}`;
+    this.recoveryStrategies.push({ id, interceptor: strategy, priority, name });
+    this.recoveryStrategies.sort((a, b) => b.priority - a.priority);
+    return id;
+  }
+
+  /**
+   * Remove an error recovery strategy from the client
+   * @param strategyId - The unique identifier returned by addRecoveryStrategy
+   * @returns True if the strategy was found and removed, false otherwise
+   */
+  removeRecoveryStrategy(strategyId: string): boolean {
+    const initialLength = this.recoveryStrategies.length;
+    this.recoveryStrategies = this.recoveryStrategies.filter(entry => entry.id !== strategyId);
+    return this.recoveryStrategies.length < initialLength;
+  }
+
+  /**
+   * Execute response interceptors on a successful response
+   * An interceptor that throws an ApiError turns the response into a failure; other errors are logged and skipped
+   * @param response - API response
+   * @returns Promise resolving to processed response
+   */
+  private async executeResponseInterceptors<TResponse>(
+    response: ApiResponse<TResponse>
+  ): Promise<ApiResponse<TResponse>> {
+    let processedResponse = response;
+    
+    for (const entry of this.responseInterceptors) {
+      try {
+        processedResponse = await entry.interceptor(processedResponse);
+      } catch (error) {
+        if ((error as ApiError).type) {
+          throw error;
+        }
+        this.logger.warn(`Response interceptor "${entry.name || entry.id}" failed`, processedResponse.config, error);
+      }
+    }
+    
+    return processedResponse;
+  }
+
+  /**
+   * Execute error interceptors on a failed request
+   * An interceptor may return or throw a replacement ApiError; other thrown values are logged and skipped
+   * @param error - API error
+   * @returns Promise resolving to processed error
+   */
+  private async executeErrorInterceptors(error: ApiError): Promise<ApiError> {
+    let processedError = error;
+    
+    for (const entry of this.errorInterceptors) {
+      try {
+        processedError = await entry.interceptor(processedError);
+      } catch (thrown) {
+        if ((thrown as ApiError).type) {
+          processedError = thrown as ApiError;
+        } else {
+          this.logger.warn(`Error interceptor "${entry.name || entry.id}" failed`, processedError.config, thrown);
+        }
+      }
+    }
+    
+    return processedError;
+  }
+
+  /**
+   * Try each recovery strategy that handles the error type, up to its maxAttempts
+   * @param error - API error after error interceptors
+   * @returns Recovered response, or null when no strategy recovered
+   */
+  private async attemptRecovery(error: ApiError): Promise<ApiResponse | null> {
+    for (const entry of this.recoveryStrategies) {
+      const strategy = entry.interceptor;
+      if (!strategy.errorTypes.includes(error.type)) continue;
+      
+      for (let attempt = 1; attempt <= strategy.maxAttempts; attempt++) {
+        try {
+          const response = await strategy.recover(error);
+          if (response) return response;
+        } catch (recoveryError) {
+          this.logger.warn(
+            `Recovery strategy "${entry.name || entry.id}" attempt ${attempt} failed`,
+            error.config,
+            recoveryError
+          );
+        }
+      }
+    }
+    
+    return null;
+  }
+
   /**
    * Make a generic HTTP request
+   * Successful responses pass through response interceptors; failures pass through error interceptors
+   * and then recovery strategies before being thrown
+   * Every request is measured in `performance` and tracked in `loading` for its whole lifetime,
+   * unless `metadata.trackLoading` is false
    * @param config - Request configuration
    * @returns Promise resolving to API response
    */
   async request<TResponse = any, TData = any>(
     config: ApiRequestConfig<TData>
+  ): Promise<ApiResponse<TResponse>> {
+    // One ID ties together the loading state, the measurement and the X-Request-ID header
+    const requestId: string = config.metadata?.requestId ?? generateUUID();
+    config = { ...config, metadata: { ...config.metadata, requestId } };
+    
+    const trackLoading = config.metadata?.trackLoading !== false;
+    if (trackLoading) {
+      this.loading.start(requestId, config.metadata?.loadingMessage);
+    }
+    this.performance.startMeasurement(requestId, config);
+    this.logger.logRequest(config);
+    
+    try {
+      const response = await this.executeWithAuth<TResponse, TData>(config);
+      this.endMeasurement(requestId, config, { status: response.status });
+      this.logger.logResponse(response);
+      return await this.executeResponseInterceptors(response);
+    } catch (error) {
+      this.endMeasurement(requestId, config, { status: (error as ApiError).status, failed: true });
+      
+      const apiError = await this.executeErrorInterceptors(error as ApiError);
+      const recovered = await this.attemptRecovery(apiError);
+      
+      if (recovered) {
+        this.logger.log('info', `${config.method} ${config.url} recovered after ${apiError.type} error`, config);
+        return recovered as ApiResponse<TResponse>;
+      }
+      this.logger.logError(apiError);
+      throw apiError;
+    } finally {
+      if (trackLoading) {
+        this.loading.stop(requestId);
+      }
+    }
+  }
+
+  /**
+   * Finish a measurement and log its timings
+   */
+  private endMeasurement(requestId: string, config: ApiRequestConfig, outcome: MeasurementOutcome): void {
+    const metrics = this.performance.endMeasurement(requestId, outcome);
+    if (metrics) {
+      this.logger.logPerformance(metrics, config, metrics.duration >= this.performance.config.slowRequestThreshold);
+    }
+  }
+
+  /**
+   * Send a request, handling authentication
+   * A 401 triggers a single token refresh shared by all failing requests, after which the request is replayed once
+   * @param config - Request configuration
+   * @returns Promise resolving to API response
+   */
+  private async executeWithAuth<TResponse = any, TData = any>(
+    config: ApiRequestConfig<TData>
+  ): Promise<ApiResponse<TResponse>> {
+    // Refresh ahead of expiry (or wait for a refresh in flight) so the request carries a valid token
+    await this.auth.refreshIfNeeded();
+    const tokenBefore = this.auth.getToken()?.value;
+    
+    try {
+      return await this.executeRequest<TResponse, TData>(config);
+    } catch (error) {
+      if ((error as ApiError).type !== 'authentication' || !this.auth.canRefresh) {
+        throw error;
+      }
+      
+      // Another request may already have refreshed the token while this one was in flight
+      const tokenChanged = this.auth.getToken()?.value !== tokenBefore;
+      if (!tokenChanged && !(await this.auth.refresh())) {
+        throw error;
+      }
+      
+      return this.executeRequest<TResponse, TData>(config);
+    }
+  }
+
+  /**
+   * Run a request through interceptors, cache and retry policy
+   * @param config - Request configuration
+   * @returns Promise resolving to API response
+   */
+  private async executeRequest<TResponse = any, TData = any>(
+    config: ApiRequestConfig<TData>
   ): Promise<ApiResponse<TResponse>> {
     const startTime = Date.now();
     
@@ -376,20 +753,80 @@ export class BaseHttpClient implements HttpClient {
     // Execute request interceptors
     mergedConfig = await this.executeRequestInterceptors(mergedConfig);
     
+    // Serve cacheable requests from the cache when a fresh entry exists
+    const cacheKey = this.cache.isCacheable(mergedConfig) ? this.cache.getCacheKey(mergedConfig) : null;
+    if (cacheKey) {
+      const cached = await this.cache.get<CachedResponse>(cacheKey);
+      this.performance.annotate(mergedConfig.metadata?.requestId, { cacheStatus: cached ? 'hit' : 'miss' });
+      if (cached) {
+        return {
+          ...cached.data,
+          config: mergedConfig,
+          timestamp: Date.now(),
+          duration: Date.now() - startTime
+        };
+      }
+    }
+    
+    // Each attempt waits for a concurrency slot, so retry delays do not hold one
+    const attempt = () => this.queue.run(mergedConfig, () => this.sendRequest<TResponse>(mergedConfig, startTime));
+    
+    // Send the request, retrying transient failures; `metadata.retry === false` opts a request out
+    const apiResponse = mergedConfig.metadata?.retry === false
+      ? await attempt()
+      : await this.retryPolicy.execute(attempt, mergedConfig.cancelToken);
+    
+    // Cache successful reads; successful writes invalidate the reads they affect
+    if (cacheKey) {
+      const { data, status, statusText, headers } = apiResponse;
+      await this.cache.set<CachedResponse>(
+        cacheKey,
+        { data, status, statusText, headers },
+        mergedConfig.metadata?.cacheTTL,
+        mergedConfig.url
+      );
+    } else if (this.cache.invalidatesCache(mergedConfig)) {
+      await this.cache.invalidateForMutation(mergedConfig.url);
+    }
+    
+    return apiResponse;
+  }
+
+  /**
+   * Perform a single fetch attempt for an already prepared request
+   * @param mergedConfig - Request configuration after defaults and interceptors
+   * @param startTime - Timestamp the request was started, used for durations
+   * @returns Promise resolving to API response
+   */
+  private async sendRequest<TResponse>(
+    mergedConfig: ApiRequestConfig,
+    startTime: number
+  ): Promise<ApiResponse<TResponse>> {
     // Build the complete URL
     const url = this.buildUrl(mergedConfig.url, mergedConfig.params);
+    this.performance.annotate(mergedConfig.metadata?.requestId, { url });
     
     // Create AbortController for request cancellation
     const abortController = new AbortController();
+    const unregister = this.cancellation.register(
+      mergedConfig.metadata?.requestId ?? generateUUID(),
+      abortController
+    );
     
     // Set up timeout if specified
     let timeoutId: NodeJS.Timeout | undefined;
+    let timedOut = false;
     if (mergedConfig.timeout && mergedConfig.timeout > 0) {
       timeoutId = setTimeout(() => {
+        timedOut = true;
         abortController.abort();
       }, mergedConfig.timeout);
     }
     
+    // Abort when the caller's token is cancelled (immediately if it already was); long-lived tokens
+    // outlive the request, so the listener is removed once it settles
+    const unsubscribe = mergedConfig.cancelToken?.onCancelled(() => abortController.abort());
+    
     try {
       // Prepare fetch options
       const fetchOptions: RequestInit = {
@@ -410,8 +847,13 @@ export class BaseHttpClient implements HttpClient {
         }
       }
       
-      // Make the fetch request
-      const response = await fetch(url, fetchOptions);
+      // Make the request; fetch cannot report upload progress, so uploads that track it use XMLHttpRequest
+      const response = mergedConfig.onUploadProgress
+        ? await this.sendWithUploadProgress(url, fetchOptions, progress => {
+            this.loading.update(mergedConfig.metadata?.requestId, progress);
+            mergedConfig.onUploadProgress?.(progress);
+          })
+        : await fetch(url, fetchOptions);
       
       // Clear timeout if request completed
       if (timeoutId) {
@@ -427,11 +869,76 @@ export class BaseHttpClient implements HttpClient {
         clearTimeout(timeoutId);
       }
       
+      // HTTP errors from transformResponse are already typed
+      if ((error as ApiError).type) {
+        throw error;
+      }
+      
       // Handle and transform errors
-      throw this.transformError(error, mergedConfig, startTime);
+      throw this.transformError(error, mergedConfig, startTime, !timedOut);
+    } finally {
+      unsubscribe?.();
+      unregister();
     }
   }
 
+  /**
+   * Send a request with XMLHttpRequest so upload progress can be observed
+   * Resolves with a fetch Response and rejects the way fetch does (AbortError on abort, TypeError on
+   * network failure), so the rest of the pipeline does not need to know which transport was used
+   * @param url - Complete request URL
+   * @param options - Fetch options, including the abort signal
+   * @param onProgress - Called with the percentage of the body sent
+   * @returns Promise resolving to the response
+   */
+  private sendWithUploadProgress(
+    url: string,
+    options: RequestInit,
+    onProgress: (progress: number) => void
+  ): Promise<Response> {
+    return new Promise((resolve, reject) => {
+      const xhr = new XMLHttpRequest();
+      xhr.open(options.method ?? 'GET', url);
+      xhr.responseType = 'blob';
+      xhr.withCredentials = options.credentials === 'include';
+      
+      Object.entries((options.headers ?? {}) as Record<string, string>).forEach(([key, value]) => {
+        xhr.setRequestHeader(key, value);
+      });
+      
+      xhr.upload.onprogress = event => {
+        if (event.lengthComputable && event.total > 0) {
+          onProgress(Math.round((event.loaded / event.total) * 100));
+        }
+      };
+      
+      xhr.onload = () => {
+        const headers = new Headers();
+        xhr.getAllResponseHeaders().trim().split(/[\r\n]+/).forEach(line => {
+          const separator = line.indexOf(':');
+          if (separator > 0) {
+            headers.append(line.slice(0, separator).trim(), line.slice(separator + 1).trim());
+          }
+        });
+        
+        // Null-body statuses cannot be constructed with a body
+        const body = [204, 205, 304].includes(xhr.status) ? null : xhr.response;
+        resolve(new Response(body, { status: xhr.status, statusText: xhr.statusText, headers }));
+      };
+      xhr.onerror = () => reject(new TypeError('Failed to fetch'));
+      xhr.onabort = () => reject(new DOMException('The upload was aborted', 'AbortError'));
+      
+      const signal = options.signal;
+      if (signal?.aborted) {
+        reject(new DOMException('The upload was aborted', 'AbortError'));
+        return;
+      }
+      signal?.addEventListener('abort', () => xhr.abort(), { once: true });
+      
+      xhr.send(options.body as XMLHttpRequestBodyInit | null | undefined);
+    });
+  }
+
   /**
    * Merge request configuration with client defaults
    * @param config - Request configuration
@@ -540,17 +1047,35 @@ export class BaseHttpClient implements HttpClient {
    * @param error - Original error
    * @param config - Request configuration
    * @param startTime - Request start timestamp
+   * @param cancelled - Whether an abort was caused by cancellation rather than the timeout
    * @returns Transformed ApiError
    */
-  private transformError(error: any, config: ApiRequestConfig, startTime: number): ApiError {
+  private transformError(
+    error: any,
+    config: ApiRequestConfig,
+    startTime: number,
+    cancelled: boolean = false
+  ): ApiError {
     const timestamp = Date.now();
     const duration = timestamp - startTime;
     
-    // Handle AbortError (timeout or manual cancellation)
+    // Handle AbortError from manual cancellation
+    if (error.name === 'AbortError' && cancelled) {
+      const reason = config.cancelToken?.reason;
+      return this.createApiError(
+        'abort',
+        reason ? `Request was cancelled: ${reason}` : 'Request was cancelled',
+        config,
+        timestamp,
+        duration
+      );
+    }
+    
+    // Handle AbortError from the request timeout
     if (error.name === 'AbortError') {
       return this.createApiError(
         'timeout',
-        'Request was aborted due to timeout or cancellation',
+        'Request was aborted due to timeout',
         config,
         timestamp,
         duration
@@ -756,6 +1281,7 @@ export class BaseHttpClient implements HttpClient {
 
   /**
    * Upload a file
+   * Progress is reported to `fileConfig.onProgress` and to the loading state; pass `config.cancelToken` to cancel
    * @param url - Upload URL
    * @param fileConfig - File upload configuration
    * @param config - Additional request configuration
@@ -807,7 +1333,12 @@ export class BaseHttpClient implements HttpClient {
       url,
       method: 'POST',
       data: formData,
-      ...config
+      onUploadProgress: progress => fileConfig.onProgress?.(progress),
+      ...config,
+      metadata: {
+        loadingMessage: `Uploading ${fileConfig.file.name}`,
+        ...config?.metadata
+      }
     });
   }
 }
\ No newline at end of file
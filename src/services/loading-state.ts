@@ -0,0 +1,99 @@
+/**
+ * Loading State Manager
+ * Reactive registry of in-flight requests used to drive global loading indicators
+ */
+
+import { reactive } from 'vue';
+import type {
+  LoadingState,
+  LoadingStateManager
+} from '../types/api';
+
+// =============================================================================
+// Loading State Manager
+// =============================================================================
+
+/**
+ * LoadingStateManager backed by a reactive Map, so getters can be used directly in computed properties
+ * Completion estimates use a moving average of recent request durations
+ */
+export class ReactiveLoadingManager implements LoadingStateManager {
+  readonly activeRequests: Map<string, LoadingState> = reactive(new Map<string, LoadingState>());
+  private averageDuration = 0;
+
+  get isAnyLoading(): boolean {
+    return this.activeRequests.size > 0;
+  }
+
+  get activeCount(): number {
+    return this.activeRequests.size;
+  }
+
+  /**
+   * Average progress of the requests that report it; 0 when none do
+   */
+  get globalProgress(): number {
+    const reported = Array.from(this.activeRequests.values())
+      .map(state => state.progress)
+      .filter((progress): progress is number => progress !== undefined);
+
+    if (reported.length === 0) return 0;
+    return Math.round(reported.reduce((total, progress) => total + progress, 0) / reported.length);
+  }
+
+  start(requestId: string, message?: string): void {
+    const startTime = Date.now();
+
+    this.activeRequests.set(requestId, {
+      isLoading: true,
+      message,
+      startTime,
+      estimatedCompletion: this.averageDuration > 0 ? startTime + this.averageDuration : undefined
+    });
+  }
+
+  update(requestId: string, progress: number, message?: string): void {
+    const state = this.activeRequests.get(requestId);
+    if (!state) return;
+
+    const clamped = Math.min(Math.max(progress, 0), 100);
+    let estimatedCompletion = state.estimatedCompletion;
+
+    // Extrapolate from observed progress once there is enough of it to be meaningful
+    if (state.startTime && clamped >= 5 && clamped < 100) {
+      const elapsed = Date.now() - state.startTime;
+      estimatedCompletion = state.startTime + Math.round(elapsed / (clamped / 100));
+    }
+
+    this.activeRequests.set(requestId, {
+      ...state,
+      progress: clamped,
+      message: message ?? state.message,
+      estimatedCompletion
+    });
+  }
+
+  stop(requestId: string): void {
+    const state = this.activeRequests.get(requestId);
+    if (!state) return;
+
+    if (state.startTime) {
+      const duration = Date.now() - state.startTime;
+      this.averageDuration = this.averageDuration > 0
+        ? Math.round(this.averageDuration * 0.8 + duration * 0.2)
+        : duration;
+    }
+
+    this.activeRequests.delete(requestId);
+  }
+
+  clearAll(): void {
+    this.activeRequests.clear();
+  }
+}
+
+// =============================================================================
+// Default Export
+// =============================================================================
+
+export default ReactiveLoadingManager;
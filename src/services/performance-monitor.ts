@@ -0,0 +1,301 @@
+/**
+ * Performance Monitor
+ * Per-request timing, rolling per-endpoint statistics and slow-request reporting for BaseHttpClient
+ */
+
+import type {
+  ApiRequestConfig,
+  EndpointPerformanceStats,
+  PerformanceMetrics,
+  PerformanceMonitor,
+  PerformanceMonitorConfig,
+  PerformanceStats
+} from '../types/api';
+
+// =============================================================================
+// Types and Interfaces
+// =============================================================================
+
+/**
+ * Details learned while a request is in flight
+ */
+export interface MeasurementAnnotations {
+  /** Absolute or relative URL passed to fetch, used to find the Resource Timing entry */
+  url?: string;
+  /** Whether the response came from the HTTP cache */
+  cacheStatus?: PerformanceMetrics['cacheStatus'];
+}
+
+/**
+ * How a measured request ended
+ */
+export interface MeasurementOutcome {
+  status?: number;
+  failed?: boolean;
+}
+
+interface ActiveMeasurement extends MeasurementAnnotations {
+  startTime: number;
+  /** High resolution start, comparable with Resource Timing entries */
+  startMark: number;
+  endpoint?: string;
+  requestSize?: number;
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const ID_SEGMENT = /^(\d+|[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})$/i;
+
+/**
+ * Group requests by method and path, with numeric and UUID segments replaced by `:id`
+ */
+export function normalizeEndpoint(method: string, url: string): string {
+  const path = url.split(/[?#]/)[0]
+    .split('/')
+    .map(segment => (ID_SEGMENT.test(segment) ? ':id' : segment))
+    .join('/');
+
+  return `${method.toUpperCase()} ${path}`;
+}
+
+/**
+ * Approximate body size in bytes; multipart bodies are not measured
+ */
+function estimateRequestSize(data: unknown): number | undefined {
+  if (data === undefined || data === null || data instanceof FormData) return undefined;
+  if (data instanceof Blob) return data.size;
+
+  try {
+    const body = typeof data === 'string' ? data : JSON.stringify(data);
+    return new Blob([body]).size;
+  } catch {
+    return undefined;
+  }
+}
+
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  return sorted[Math.max(0, Math.ceil(p * sorted.length) - 1)];
+}
+
+function average(values: number[]): number {
+  return values.length === 0 ? 0 : Math.round(values.reduce((total, value) => total + value, 0) / values.length);
+}
+
+function summarize(samples: PerformanceMetrics[]): PerformanceStats {
+  const durations = samples.map(sample => sample.duration).sort((a, b) => a - b);
+  const cacheable = samples.filter(sample => sample.cacheStatus !== undefined);
+
+  return {
+    totalRequests: samples.length,
+    averageResponseTime: average(durations),
+    minResponseTime: durations[0] ?? 0,
+    maxResponseTime: durations[durations.length - 1] ?? 0,
+    p95ResponseTime: percentile(durations, 0.95),
+    cacheHitRate: cacheable.length === 0
+      ? 0
+      : cacheable.filter(sample => sample.cacheStatus === 'hit').length / cacheable.length,
+    errorRate: samples.length === 0
+      ? 0
+      : samples.filter(sample => sample.failed).length / samples.length
+  };
+}
+
+// =============================================================================
+// Performance Monitor
+// =============================================================================
+
+/**
+ * PerformanceMonitor that keeps the last `maxSamples` measurements
+ * Where the browser exposes a Resource Timing entry for the request, the total duration is split into
+ * network time (the dbt proxy and the wire) and client overhead (queueing, interceptors, retries, parsing)
+ */
+export class HttpPerformanceMonitor implements PerformanceMonitor {
+  readonly config: PerformanceMonitorConfig;
+  private active = new Map<string, ActiveMeasurement>();
+  private samples: PerformanceMetrics[] = [];
+  private slowListeners = new Set<(metrics: PerformanceMetrics) => void>();
+
+  constructor(config: Partial<PerformanceMonitorConfig> = {}) {
+    this.config = {
+      enabled: true,
+      maxSamples: 500,
+      slowRequestThreshold: 3000, // 3 seconds
+      ...config
+    };
+  }
+
+  startMeasurement(requestId: string, config?: ApiRequestConfig): void {
+    if (!this.config.enabled) return;
+
+    this.active.set(requestId, {
+      startTime: Date.now(),
+      startMark: performance.now(),
+      endpoint: config ? normalizeEndpoint(config.method, config.url) : undefined,
+      requestSize: config ? estimateRequestSize(config.data) : undefined
+    });
+  }
+
+  /**
+   * Attach details that are only known once the request reaches the cache or the network
+   */
+  annotate(requestId: string, annotations: MeasurementAnnotations): void {
+    const measurement = this.active.get(requestId);
+    if (measurement) {
+      Object.assign(measurement, annotations);
+    }
+  }
+
+  endMeasurement(requestId: string, outcome: MeasurementOutcome = {}): PerformanceMetrics | null {
+    const measurement = this.active.get(requestId);
+    if (!measurement) return null;
+    this.active.delete(requestId);
+
+    const endTime = Date.now();
+    const duration = endTime - measurement.startTime;
+    const metrics: PerformanceMetrics = {
+      requestId,
+      startTime: measurement.startTime,
+      endTime,
+      duration,
+      requestSize: measurement.requestSize,
+      cacheStatus: measurement.cacheStatus,
+      endpoint: measurement.endpoint,
+      status: outcome.status,
+      failed: outcome.failed ?? false
+    };
+
+    const entry = measurement.url && measurement.cacheStatus !== 'hit'
+      ? this.findResourceEntry(measurement.url, measurement.startMark)
+      : null;
+    if (entry) {
+      Object.assign(metrics, this.readResourceTiming(entry, duration));
+    }
+
+    this.samples.push(metrics);
+    if (this.samples.length > this.config.maxSamples) {
+      this.samples.splice(0, this.samples.length - this.config.maxSamples);
+    }
+
+    if (duration >= this.config.slowRequestThreshold) {
+      this.reportSlowRequest(metrics);
+    }
+
+    return metrics;
+  }
+
+  getStats(): PerformanceStats {
+    return summarize(this.samples);
+  }
+
+  /**
+   * Statistics per normalized endpoint, slowest (by p95) first
+   */
+  getEndpointStats(): EndpointPerformanceStats[] {
+    const groups = new Map<string, PerformanceMetrics[]>();
+    for (const sample of this.samples) {
+      const key = sample.endpoint ?? 'unknown';
+      groups.set(key, [...(groups.get(key) ?? []), sample]);
+    }
+
+    return Array.from(groups.entries())
+      .map(([endpoint, samples]) => {
+        const timed = samples.filter(sample => sample.networkTime !== undefined);
+
+        return {
+          ...summarize(samples),
+          endpoint,
+          averageTimeToFirstByte: timed.length > 0
+            ? average(timed.map(sample => sample.timeToFirstByte ?? 0))
+            : undefined,
+          averageClientOverhead: timed.length > 0
+            ? average(timed.map(sample => sample.clientOverhead ?? 0))
+            : undefined,
+          slowRequests: samples.filter(sample => sample.duration >= this.config.slowRequestThreshold).length,
+          lastMeasuredAt: samples[samples.length - 1].endTime
+        };
+      })
+      .sort((a, b) => b.p95ResponseTime - a.p95ResponseTime);
+  }
+
+  /**
+   * Recent requests slower than `slowRequestThreshold`, newest first
+   */
+  getSlowRequests(): PerformanceMetrics[] {
+    return this.samples
+      .filter(sample => sample.duration >= this.config.slowRequestThreshold)
+      .reverse();
+  }
+
+  /**
+   * Register a listener for slow requests
+   * @returns Function that removes the listener
+   */
+  onSlowRequest(listener: (metrics: PerformanceMetrics) => void): () => void {
+    this.slowListeners.add(listener);
+    return () => {
+      this.slowListeners.delete(listener);
+    };
+  }
+
+  clear(): void {
+    this.active.clear();
+    this.samples = [];
+  }
+
+  /**
+   * Most recent Resource Timing entry for the URL that started after the measurement did, i.e. the final attempt
+   */
+  private findResourceEntry(url: string, startMark: number): PerformanceResourceTiming | null {
+    if (typeof performance === 'undefined' || typeof performance.getEntriesByName !== 'function') {
+      return null;
+    }
+
+    const absoluteUrl = new URL(url, typeof location !== 'undefined' ? location.href : 'http://localhost').href;
+    const entries = performance.getEntriesByName(absoluteUrl, 'resource') as PerformanceResourceTiming[];
+
+    for (let i = entries.length - 1; i >= 0; i--) {
+      if (entries[i].startTime >= startMark) return entries[i];
+    }
+    return null;
+  }
+
+  private readResourceTiming(entry: PerformanceResourceTiming, duration: number): Partial<PerformanceMetrics> {
+    // Cross-origin entries without Timing-Allow-Origin report zeros for the detailed phases
+    const phase = (start: number, end: number): number | undefined =>
+      start > 0 && end >= start ? Math.round(end - start) : undefined;
+    const networkTime = Math.round(entry.duration);
+
+    return {
+      dnsLookupTime: phase(entry.domainLookupStart, entry.domainLookupEnd),
+      tcpConnectionTime: phase(entry.connectStart, entry.connectEnd),
+      tlsHandshakeTime: phase(entry.secureConnectionStart, entry.connectEnd),
+      timeToFirstByte: phase(entry.requestStart, entry.responseStart),
+      responseSize: entry.transferSize || entry.encodedBodySize || undefined,
+      networkTime,
+      clientOverhead: Math.max(duration - networkTime, 0)
+    };
+  }
+
+  /**
+   * Notify listeners; the warning itself is written by BaseHttpClient's RequestLogger
+   */
+  private reportSlowRequest(metrics: PerformanceMetrics): void {
+    this.config.onSlowRequest?.(metrics);
+    this.slowListeners.forEach(listener => {
+      try {
+        listener(metrics);
+      } catch (error) {
+        console.warn('Slow request listener failed:', error);
+      }
+    });
+  }
+}
+
+// =============================================================================
+// Default Export
+// =============================================================================
+
+export default HttpPerformanceMonitor;
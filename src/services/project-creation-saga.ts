@@ -0,0 +1,917 @@
+/**
+ * Project Creation Saga
+ * Orchestrates the sequence of admin API calls that provision a dbt Cloud project end to end
+ */
+
+import { ProxyApi } from './generated/proxy-api'
+import type { Infra, RequestOptions } from './generated/proxy-api'
+import type { HttpClient, ApiRequestConfig, ApiResponse, ApiError, CancellationToken } from '../types/api'
+import type {
+  NewProjectFormData,
+  EnvironmentType,
+  DatabaseAuth,
+  ExecutionStep,
+  ProgressEvent,
+  ProgressStage,
+  ProjectCreationResult,
+  RollbackStatus
+} from '../types/project-creation'
+
+// =============================================================================
+// Types and Interfaces
+// =============================================================================
+
+/**
+ * Identifier returned by the proxy for a created resource; dbt Cloud IDs are integers
+ */
+export type ResourceId = number
+
+/**
+ * Part of the HTTP client the saga uses; plan mode substitutes a client that records requests instead
+ */
+export type SagaClient = Pick<HttpClient, 'request'>
+
+/**
+ * Resources created so far, filled in as saga steps complete
+ */
+export interface SagaResources {
+  repositoryName?: string
+  branchName?: string
+  projectId?: ResourceId
+  repositoryId?: ResourceId
+  connectionId?: ResourceId
+  credentialIds: Partial<Record<EnvironmentType, ResourceId>>
+  environmentIds: Partial<Record<EnvironmentType, ResourceId>>
+  provisionedDatabases: Array<{ environment: EnvironmentType; name: string }>
+  /** PIMS name the entitlements were assigned to */
+  pimsName?: string
+}
+
+/**
+ * Action that undoes a single forward action of the saga
+ * Kept as plain data so it can be listed, persisted and replayed later
+ */
+export interface CompensatingAction {
+  name: string
+  /** Request that undoes the forward action; omitted when the proxy has no undo endpoint */
+  request?: Pick<ApiRequestConfig, 'method' | 'url' | 'data'>
+  /** Cleanup instructions reported when no request is available */
+  manualCleanup?: string
+}
+
+/**
+ * Final rollback status; manual cleanup is reported separately because nothing actually failed
+ */
+export type RollbackOutcome = Exclude<RollbackStatus, 'rolling_back'>
+
+/**
+ * Context shared by all saga steps of a single run
+ */
+export interface SagaContext {
+  formData: NewProjectFormData
+  resources: SagaResources
+  api: ProxyApi
+  config: ProjectCreationSagaConfig
+  /** Compensations registered so far, in forward order */
+  compensations: CompensatingAction[]
+  /** Register the compensation for a resource that was just created; the run journals it straight away */
+  registerCompensation: (action: CompensatingAction) => void
+  /** Token that aborts in-flight requests when the run is cancelled */
+  cancelToken?: CancellationToken
+}
+
+/**
+ * A single forward action of the saga
+ */
+export interface SagaStep {
+  id: string
+  name: string
+  stage: ProgressStage
+  /** Whether the step applies to the submitted form data */
+  shouldRun: (formData: NewProjectFormData) => boolean
+  /** Performs the step and returns a human readable summary */
+  execute: (context: SagaContext) => Promise<string>
+}
+
+/**
+ * Persistable record of a saga run, used to resume creation after the page was closed mid-run
+ */
+export interface ExecutionJournal {
+  startedAt: number
+  updatedAt: number
+  /** Form data snapshot the run was started with; a resumed run must use the same data */
+  formData: NewProjectFormData
+  completedStepIds: string[]
+  resources: SagaResources
+  compensations: CompensatingAction[]
+  steps: ExecutionStep[]
+}
+
+export interface SagaCallbacks {
+  onStepUpdate?: (steps: ExecutionStep[]) => void
+  onProgress?: (event: ProgressEvent) => void
+  onRollbackStatus?: (status: RollbackStatus) => void
+  /** Called with a fresh journal snapshot whenever a forward step completes or registers a compensation */
+  onJournalUpdate?: (journal: ExecutionJournal) => void
+}
+
+/**
+ * Request a step would send, as recorded by plan mode
+ */
+export type PlannedRequest = Pick<ApiRequestConfig, 'method' | 'url' | 'data'>
+
+export interface PlannedStep {
+  id: string
+  name: string
+  stage: ProgressStage
+  summary: string
+  requests: PlannedRequest[]
+  /** Compensations that would be registered, i.e. how the step is undone on failure */
+  compensations: CompensatingAction[]
+}
+
+/**
+ * Reviewable dry run of a saga: every request in execution order, with secrets redacted
+ * IDs returned by earlier steps appear as `{step-id.field}` placeholders
+ */
+export interface ExecutionPlan {
+  generatedAt: number
+  steps: PlannedStep[]
+  totalRequests: number
+}
+
+export interface ProjectCreationSagaConfig {
+  requestTimeout: number // milliseconds
+  dbtVersion: string
+  dbtCloudUrl: string
+}
+
+/**
+ * Error thrown when a saga run fails; carries the failed result including rollback entries
+ */
+export class SagaExecutionError extends Error {
+  readonly result: ProjectCreationResult
+
+  constructor(message: string, result: ProjectCreationResult) {
+    super(message)
+    this.name = 'SagaExecutionError'
+    this.result = result
+  }
+}
+
+/**
+ * Error thrown when a run is cancelled; nothing is rolled back so the caller can choose to resume or roll back
+ * Carries the journal as of the cancellation so it can be persisted before the cancel is reported.
+ */
+export class SagaCancelledError extends SagaExecutionError {
+  readonly journal: ExecutionJournal
+
+  constructor(message: string, result: ProjectCreationResult, journal: ExecutionJournal) {
+    super(message, result)
+    this.name = 'SagaCancelledError'
+    this.journal = journal
+  }
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Read a resource ID from a proxy response, which may or may not use the dbt Cloud `data` envelope
+ */
+function extractId(data: unknown, key: string = 'id'): ResourceId | undefined {
+  const id = asRecord(data)[key] ?? asRecord(asRecord(data).data)[key]
+  const value = typeof id === 'string' && id.trim() ? Number(id) : id
+  return typeof value === 'number' && Number.isInteger(value) ? value : undefined
+}
+
+/**
+ * Proxy responses are untyped JSON; anything that is not an object reads as an empty one
+ */
+function asRecord(value: unknown): Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value) ? (value as Record<string, unknown>) : {}
+}
+
+/**
+ * Working branch created next to `main` in every new repository; dbt Cloud development happens here
+ */
+const DEVELOPMENT_BRANCH = 'develop'
+
+const SECRET_KEYS = ['password', 'private_key', 'secret', 'token']
+
+function redactValue(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(redactValue)
+  if (!value || typeof value !== 'object') return value
+
+  return Object.fromEntries(Object.entries(value).map(([key, child]) => [
+    key,
+    SECRET_KEYS.some(secret => key.toLowerCase().includes(secret)) && child ? '********' : redactValue(child)
+  ]))
+}
+
+/**
+ * Copy of a request body or compensation with secret values masked; the shape is unchanged
+ */
+function redactSecrets<T>(data: T): T {
+  return redactValue(data) as T
+}
+
+/**
+ * Request the given generated client call would send, captured without sending it
+ * Compensations are stored as plain requests, so they are built from the same typed operations as forward calls.
+ */
+function describeRequest(call: (api: ProxyApi) => Promise<unknown>): PlannedRequest {
+  let captured: ApiRequestConfig | undefined
+
+  // The call is never answered; only the request it builds is kept
+  void call(new ProxyApi({
+    request: config => {
+      captured = config
+      return new Promise(() => {})
+    }
+  }))
+
+  if (!captured) {
+    throw new Error('The operation did not build a request')
+  }
+  return { method: captured.method, url: captured.url, data: captured.data }
+}
+
+interface RecordingClient {
+  client: SagaClient
+  /** Swap the stand-in IDs in a recorded request for their `{step-id.field}` placeholders */
+  withPlaceholders: (request: PlannedRequest) => PlannedRequest
+}
+
+/**
+ * Client used by plan mode: records requests instead of sending them
+ * Answers carry negative stand-in IDs, which cannot clash with real ones and keep the generated operations' number types.
+ */
+function createRecordingClient(
+  onRequest: (request: PlannedRequest) => void,
+  getStepId: () => string
+): RecordingClient {
+  const placeholders = new Map<number, string>()
+  const standIn = (field: string): number => {
+    const id = -(placeholders.size + 1)
+    placeholders.set(id, `{${getStepId()}.${field}}`)
+    return id
+  }
+
+  const replaceIds = (value: unknown): unknown => {
+    if (typeof value === 'number') return placeholders.get(value) ?? value
+    if (Array.isArray(value)) return value.map(replaceIds)
+    if (!value || typeof value !== 'object') return value
+    return Object.fromEntries(Object.entries(value).map(([key, child]) => [key, replaceIds(child)]))
+  }
+
+  const withPlaceholders = ({ method, url, data }: PlannedRequest): PlannedRequest => ({
+    method,
+    url: url.replace(/(?<=\/)-\d+/g, id => placeholders.get(Number(id)) ?? id),
+    data: replaceIds(data)
+  })
+
+  // Steps only read IDs from the answer, which stands in for whatever the endpoint returns
+  const request = async <TResponse, TData>(config: ApiRequestConfig<TData>): Promise<ApiResponse<TResponse>> => {
+    onRequest(redactSecrets(withPlaceholders({ method: config.method, url: config.url, data: config.data })))
+
+    return {
+      data: { id: standIn('id'), repository_id: standIn('repository_id') } as TResponse,
+      status: 200,
+      statusText: 'OK',
+      headers: {},
+      config,
+      timestamp: Date.now()
+    }
+  }
+
+  return { client: { request }, withPlaceholders }
+}
+
+/**
+ * Options for a call that creates or removes something; the proxy also answers lookups over POST,
+ * so writes are flagged for the response cache to drop the reads they affect
+ * @param retry Opt a POST into automatic retries; only for calls that are safe to repeat
+ */
+function writeOptions(config: ProjectCreationSagaConfig, cancelToken?: CancellationToken, retry?: boolean): RequestOptions {
+  return { timeout: config.requestTimeout, cancelToken, metadata: { invalidatesCache: true, retry } }
+}
+
+function requireResource<T>(value: T | undefined, label: string): T {
+  if (value === undefined) {
+    throw new Error(`${label} is missing from previous steps`)
+  }
+  return value
+}
+
+function getTargetDatabase(formData: NewProjectFormData): string {
+  if (formData.databaseSelection.createNewDatabase) {
+    return formData.newDatabase?.databases[0]?.name ?? ''
+  }
+  return formData.databaseSelection.existingDatabase ?? ''
+}
+
+/**
+ * Step 5 only collects deployment credentials for QA and PROD; DEV uses personal developer credentials
+ */
+function getEnvironmentAuth(formData: NewProjectFormData, environment: EnvironmentType): DatabaseAuth | undefined {
+  switch (environment) {
+    case 'QA':
+      return formData.databaseAuth.qaAuth
+    case 'PROD':
+      return formData.databaseAuth.prodAuth
+    default:
+      return undefined
+  }
+}
+
+function buildCredentialDetails(auth: DatabaseAuth, database: string): Record<string, string> {
+  if (auth.method === 'keypair') {
+    return {
+      auth_type: 'keypair',
+      user: auth.serviceAccount ?? '',
+      private_key: auth.privateKey ?? '',
+      database
+    }
+  }
+
+  return {
+    auth_type: 'password',
+    user: auth.serviceAccount ?? '',
+    password: auth.password ?? '',
+    database
+  }
+}
+
+// =============================================================================
+// Step Definitions
+// =============================================================================
+
+export const PROJECT_CREATION_STEPS: SagaStep[] = [
+  {
+    id: 'provision-infra',
+    name: 'Provision Snowflake Infrastructure',
+    stage: 'preparing',
+    shouldRun: formData => formData.databaseSelection.createNewDatabase && !!formData.newDatabase,
+    execute: async ({ formData, resources, api, config, registerCompensation, cancelToken }) => {
+      const newDatabase = formData.newDatabase!
+
+      for (const environment of newDatabase.environments) {
+        for (const database of newDatabase.databases) {
+          // A resumed run skips databases the journal already records
+          const provisioned = resources.provisionedDatabases.some(
+            entry => entry.environment === environment && entry.name === database.name
+          )
+          if (provisioned) continue
+
+          const infra: Omit<Infra, 'action'> = {
+            environment,
+            business_area: newDatabase.businessArea,
+            object_type: 'database',
+            object_name: database.name,
+            github_repo: formData.github.repositoryName
+          }
+          // An apply converges on the declared database, so repeating it after a gateway timeout is safe
+          await api.provisionInfra({ ...infra, action: 'apply' }, writeOptions(config, cancelToken, true))
+
+          resources.provisionedDatabases.push({ environment, name: database.name })
+          registerCompensation({
+            name: `Tear down ${environment} database ${database.name}`,
+            request: describeRequest(proxy => proxy.provisionInfra({ ...infra, action: 'teardown', confirm_destroy: true }))
+          })
+        }
+      }
+
+      return `Provisioned ${resources.provisionedDatabases.length} database(s) in ${newDatabase.environments.join(', ')}`
+    }
+  },
+  {
+    id: 'github-repo',
+    name: 'Create GitHub Repository',
+    stage: 'creating',
+    shouldRun: () => true,
+    execute: async ({ formData, resources, api, config, registerCompensation, cancelToken }) => {
+      const repo = formData.github.repositoryName.trim()
+      if (resources.repositoryName === repo) return `Repository ${repo} already created`
+
+      // A repeated create cannot duplicate the repository; the name is unique in the organization
+      await api.createRepo({ repo }, writeOptions(config, cancelToken, true))
+
+      resources.repositoryName = repo
+      registerCompensation({
+        name: `Delete GitHub repository ${repo}`,
+        manualCleanup: `The proxy has no repository delete endpoint; delete ${repo} in GitHub manually`
+      })
+      return `Repository ${repo} created`
+    }
+  },
+  {
+    id: 'github-branch',
+    name: 'Create Development Branch',
+    stage: 'creating',
+    shouldRun: () => true,
+    execute: async ({ formData, resources, api, config, registerCompensation, cancelToken }) => {
+      const repo = requireResource(resources.repositoryName, 'GitHub repository')
+      const team = formData.github.githubTeam.trim()
+
+      if (resources.branchName !== DEVELOPMENT_BRANCH) {
+        await api.createBranch(
+          { repo, parent_branch: 'main', branch_name: DEVELOPMENT_BRANCH },
+          writeOptions(config, cancelToken)
+        )
+
+        resources.branchName = DEVELOPMENT_BRANCH
+        registerCompensation({
+          name: `Delete branch ${DEVELOPMENT_BRANCH} of ${repo}`,
+          request: describeRequest(proxy => proxy.deleteBranch({ repo, branch_name: DEVELOPMENT_BRANCH }))
+        })
+      }
+
+      // Protection is set again on resume; updating it is idempotent and goes away with the branch
+      if (!team) return `Branch ${DEVELOPMENT_BRANCH} created`
+      await api.updateBranchProtection(
+        { repo, branch_name: DEVELOPMENT_BRANCH, team },
+        writeOptions(config, cancelToken)
+      )
+      return `Branch ${DEVELOPMENT_BRANCH} created and protected for ${team}`
+    }
+  },
+  {
+    id: 'dbt-project',
+    name: 'Register dbt Project',
+    stage: 'creating',
+    shouldRun: () => true,
+    execute: async ({ formData, resources, api, config, registerCompensation, cancelToken }) => {
+      if (resources.projectId !== undefined) return `dbt project ${resources.projectId} already registered`
+
+      const response = await api.createDbtGithubProject({
+        project_name: formData.generalInfo.name.trim()
+      }, writeOptions(config, cancelToken))
+
+      const projectId = requireResource(extractId(response.data), 'dbt project ID')
+      resources.projectId = projectId
+      resources.repositoryId = extractId(response.data, 'repository_id')
+      registerCompensation({
+        name: `Delete dbt project ${projectId}`,
+        request: describeRequest(proxy => proxy.deleteProject(projectId))
+      })
+      return `dbt project ${resources.projectId} registered`
+    }
+  },
+  {
+    id: 'dbt-connection',
+    name: 'Create Snowflake Connection',
+    stage: 'configuring',
+    shouldRun: () => true,
+    execute: async ({ formData, resources, api, config, registerCompensation, cancelToken }) => {
+      const projectId = requireResource(resources.projectId, 'dbt project ID')
+      const database = getTargetDatabase(formData)
+      if (resources.connectionId !== undefined) return `Connection ${resources.connectionId} already created`
+
+      const response = await api.createProjectConnection(projectId, {
+        name: `${formData.generalInfo.name.trim()} Snowflake`,
+        type: 'snowflake',
+        details: { database }
+      }, writeOptions(config, cancelToken))
+
+      const connectionId = requireResource(extractId(response.data), 'Connection ID')
+      resources.connectionId = connectionId
+      registerCompensation({
+        name: `Delete connection ${connectionId}`,
+        request: describeRequest(proxy => proxy.deleteProjectConnection(projectId, connectionId))
+      })
+      return `Connection ${resources.connectionId} created for ${database}`
+    }
+  },
+  {
+    id: 'dbt-credentials',
+    name: 'Create Deployment Credentials',
+    stage: 'configuring',
+    shouldRun: formData => formData.environments.environments.some(env => !!getEnvironmentAuth(formData, env)),
+    execute: async ({ formData, resources, api, config, registerCompensation, cancelToken }) => {
+      const projectId = requireResource(resources.projectId, 'dbt project ID')
+      const database = getTargetDatabase(formData)
+
+      for (const environment of formData.environments.environments) {
+        const auth = getEnvironmentAuth(formData, environment)
+        if (!auth || resources.credentialIds[environment] !== undefined) continue
+
+        const response = await api.createCredential(projectId, {
+          project_id: projectId,
+          type: 'snowflake',
+          details: buildCredentialDetails(auth, database)
+        }, writeOptions(config, cancelToken))
+
+        const credentialId = requireResource(extractId(response.data), `${environment} credential ID`)
+        resources.credentialIds[environment] = credentialId
+        registerCompensation({
+          name: `Delete ${environment} credential ${credentialId}`,
+          request: describeRequest(proxy => proxy.deleteCredential(projectId, credentialId))
+        })
+      }
+
+      return `Credentials created for ${Object.keys(resources.credentialIds).join(', ')}`
+    }
+  },
+  {
+    id: 'dbt-environments',
+    name: 'Create dbt Environments',
+    stage: 'configuring',
+    shouldRun: () => true,
+    execute: async ({ formData, resources, api, config, registerCompensation, cancelToken }) => {
+      const projectId = requireResource(resources.projectId, 'dbt project ID')
+
+      for (const environment of formData.environments.environments) {
+        if (resources.environmentIds[environment] !== undefined) continue
+
+        const response = await api.createEnvironment(projectId, {
+          name: environment,
+          dbt_version: config.dbtVersion,
+          project_id: projectId,
+          credential_id: resources.credentialIds[environment] ?? null
+        }, writeOptions(config, cancelToken))
+
+        const environmentId = requireResource(extractId(response.data), `${environment} environment ID`)
+        resources.environmentIds[environment] = environmentId
+        registerCompensation({
+          name: `Delete ${environment} environment ${environmentId}`,
+          request: describeRequest(proxy => proxy.deleteEnvironment(projectId, environmentId))
+        })
+      }
+
+      return `Environments created: ${Object.keys(resources.environmentIds).join(', ')}`
+    }
+  },
+  {
+    id: 'pims-entitlements',
+    name: 'Assign PIMS Entitlements',
+    stage: 'finalizing',
+    shouldRun: () => true,
+    execute: async ({ formData, resources, api, config, registerCompensation, cancelToken }) => {
+      const pimsName = formData.github.repositoryName.trim()
+      if (resources.pimsName === pimsName) return `Entitlements for ${pimsName} already assigned`
+
+      const response = await api.createEntitlements({
+        project_name: formData.generalInfo.name.trim(),
+        pims_name: pimsName,
+        service_manager_id: formData.entitlements.entitlementOwner.trim(),
+        technical_contact_id: formData.entitlements.technicalOwner.trim()
+      }, writeOptions(config, cancelToken))
+
+      resources.pimsName = pimsName
+      registerCompensation({
+        name: `Revoke PIMS entitlement ${pimsName}`,
+        manualCleanup: `The proxy has no entitlement revoke endpoint; revoke ${pimsName} in PIMS manually`
+      })
+      return response.data.message || 'Entitlements assigned'
+    }
+  }
+]
+
+// =============================================================================
+// Saga Orchestrator
+// =============================================================================
+
+export class ProjectCreationSaga {
+  private client: SagaClient
+  private config: ProjectCreationSagaConfig
+  private steps: SagaStep[]
+
+  constructor(
+    client: SagaClient,
+    config: Partial<ProjectCreationSagaConfig> = {},
+    steps: SagaStep[] = PROJECT_CREATION_STEPS
+  ) {
+    this.client = client
+    this.config = {
+      requestTimeout: 300000, // 5 minutes
+      dbtVersion: 'versionless',
+      dbtCloudUrl: 'https://cloud.getdbt.com',
+      ...config
+    }
+    this.steps = steps
+  }
+
+  /**
+   * Steps that will run for the given form data, in execution order
+   */
+  public getApplicableSteps(formData: NewProjectFormData): SagaStep[] {
+    return this.steps.filter(step => step.shouldRun(formData))
+  }
+
+  /**
+   * Build the plan for the given form data by running every step against a recording client
+   * Nothing is sent; the payloads come from the same code that performs the real run
+   */
+  public async plan(formData: NewProjectFormData): Promise<ExecutionPlan> {
+    const steps = this.getApplicableSteps(formData)
+    const plannedSteps: PlannedStep[] = []
+    let currentStepId = ''
+    let requests: PlannedRequest[] = []
+
+    const { client, withPlaceholders } = createRecordingClient(request => requests.push(request), () => currentStepId)
+    const context = this.createContext(formData, undefined, undefined, client)
+
+    for (const step of steps) {
+      currentStepId = step.id
+      requests = []
+      const registeredBefore = context.compensations.length
+
+      const summary = await step.execute(context)
+
+      plannedSteps.push({
+        id: step.id,
+        name: step.name,
+        stage: step.stage,
+        summary,
+        requests,
+        compensations: redactSecrets(context.compensations.slice(registeredBefore).map(action => ({
+          ...action,
+          request: action.request && withPlaceholders(action.request)
+        })))
+      })
+    }
+
+    return {
+      generatedAt: Date.now(),
+      steps: plannedSteps,
+      totalRequests: plannedSteps.reduce((total, step) => total + step.requests.length, 0)
+    }
+  }
+
+  /**
+   * Run every applicable step in order, rolling back completed actions on the first failure
+   */
+  public async execute(
+    formData: NewProjectFormData,
+    callbacks: SagaCallbacks = {},
+    cancelToken?: CancellationToken
+  ): Promise<ProjectCreationResult> {
+    return this.run(formData, callbacks, cancelToken)
+  }
+
+  /**
+   * Continue an interrupted run from its first incomplete step, reusing the resources it already created
+   * A step that was in flight when the run was interrupted is executed again and skips the resources its journal records
+   */
+  public async resume(
+    journal: ExecutionJournal,
+    callbacks: SagaCallbacks = {},
+    cancelToken?: CancellationToken
+  ): Promise<ProjectCreationResult> {
+    return this.run(journal.formData, callbacks, cancelToken, journal)
+  }
+
+  /**
+   * Undo everything a cancelled or interrupted run created, using the compensations recorded in its journal
+   */
+  public async rollback(
+    journal: ExecutionJournal,
+    callbacks: SagaCallbacks = {}
+  ): Promise<RollbackOutcome> {
+    const context = this.createContext(journal.formData, journal)
+    const executionSteps = journal.steps.map(step => ({ ...step }))
+    const notifySteps = () => callbacks.onStepUpdate?.(executionSteps.map(step => ({ ...step })))
+
+    callbacks.onRollbackStatus?.('rolling_back')
+    const outcome = await this.compensate(context, executionSteps, notifySteps, callbacks)
+    callbacks.onRollbackStatus?.(outcome)
+
+    return outcome
+  }
+
+  private async run(
+    formData: NewProjectFormData,
+    callbacks: SagaCallbacks,
+    cancelToken?: CancellationToken,
+    journal?: ExecutionJournal
+  ): Promise<ProjectCreationResult> {
+    const startTime = journal?.startedAt ?? Date.now()
+    const steps = this.getApplicableSteps(formData)
+    const completedStepIds = new Set(journal?.completedStepIds ?? [])
+    const executionSteps: ExecutionStep[] = steps.map(step => {
+      const journaled = journal?.steps.find(entry => entry.name === step.name)
+      return completedStepIds.has(step.id) && journaled
+        ? { ...journaled, status: 'completed' }
+        : { name: step.name, status: 'pending' }
+    })
+
+    const context = this.createContext(formData, journal, cancelToken, this.client, () => notifyJournal())
+
+    const notifySteps = () => callbacks.onStepUpdate?.(executionSteps.map(step => ({ ...step })))
+    const snapshotJournal = (): ExecutionJournal => JSON.parse(JSON.stringify({
+      startedAt: startTime,
+      updatedAt: Date.now(),
+      formData,
+      completedStepIds: [...completedStepIds],
+      resources: context.resources,
+      compensations: context.compensations,
+      steps: executionSteps
+    }))
+    const notifyJournal = () => callbacks.onJournalUpdate?.(snapshotJournal())
+    notifySteps()
+    notifyJournal()
+
+    for (let index = 0; index < steps.length; index++) {
+      const step = steps[index]
+      const executionStep = executionSteps[index]
+
+      if (completedStepIds.has(step.id)) continue
+
+      // Never start another step once cancelled; completed work is left for the caller to resume or roll back
+      if (cancelToken?.isCancellationRequested) {
+        throw new SagaCancelledError(
+          'Project creation cancelled',
+          this.buildResult(context, executionSteps, startTime, 'failed'),
+          snapshotJournal()
+        )
+      }
+
+      executionStep.status = 'running'
+      executionStep.startTime = Date.now()
+      notifySteps()
+
+      callbacks.onProgress?.({
+        stage: step.stage,
+        progress: Math.round((index / steps.length) * 100),
+        message: `${step.name}...`,
+        details: {
+          currentStep: step.name,
+          totalSteps: steps.length
+        }
+      })
+
+      try {
+        executionStep.message = await step.execute(context)
+        executionStep.status = 'completed'
+        completedStepIds.add(step.id)
+      } catch (error) {
+        executionStep.status = 'failed'
+        executionStep.error = error instanceof Error ? error.message : 'Unknown error'
+      } finally {
+        executionStep.endTime = Date.now()
+        executionStep.duration = executionStep.endTime - executionStep.startTime
+        notifySteps()
+      }
+
+      if (executionStep.status === 'completed') {
+        notifyJournal()
+      }
+
+      if (executionStep.status === 'failed' && cancelToken?.isCancellationRequested) {
+        throw new SagaCancelledError(
+          `${step.name} cancelled`,
+          this.buildResult(context, executionSteps, startTime, 'failed'),
+          snapshotJournal()
+        )
+      }
+
+      if (executionStep.status === 'failed') {
+        if (context.compensations.length > 0) {
+          callbacks.onRollbackStatus?.('rolling_back')
+          callbacks.onRollbackStatus?.(await this.compensate(context, executionSteps, notifySteps, callbacks))
+        }
+
+        throw new SagaExecutionError(
+          `${step.name} failed: ${executionStep.error}`,
+          this.buildResult(context, executionSteps, startTime, 'failed')
+        )
+      }
+    }
+
+    callbacks.onProgress?.({
+      stage: 'finalizing',
+      progress: 100,
+      message: 'Project created successfully',
+      details: {
+        currentStep: 'Complete',
+        totalSteps: steps.length
+      }
+    })
+
+    return this.buildResult(context, executionSteps, startTime, 'created')
+  }
+
+  /**
+   * Run registered compensations in reverse order, recording each one as its own execution step
+   * Actions without a request are listed as manual cleanup rather than failures.
+   */
+  private async compensate(
+    context: SagaContext,
+    executionSteps: ExecutionStep[],
+    notifySteps: () => void,
+    callbacks: SagaCallbacks
+  ): Promise<RollbackOutcome> {
+    const actions = [...context.compensations].reverse()
+    let failed = false
+    let manualCleanup = false
+
+    for (let index = 0; index < actions.length; index++) {
+      const action = actions[index]
+      const rollbackStep: ExecutionStep = {
+        name: `Rollback: ${action.name}`,
+        status: 'running',
+        startTime: Date.now()
+      }
+      executionSteps.push(rollbackStep)
+      notifySteps()
+
+      callbacks.onProgress?.({
+        stage: 'finalizing',
+        progress: Math.round((index / actions.length) * 100),
+        message: `Rolling back: ${action.name}...`,
+        details: {
+          currentStep: rollbackStep.name,
+          totalSteps: actions.length
+        }
+      })
+
+      try {
+        if (!action.request) {
+          rollbackStep.status = 'manual_cleanup'
+          rollbackStep.message = action.manualCleanup || 'No compensating request available; remove it manually'
+          manualCleanup = true
+          continue
+        }
+
+        await this.client.request({ ...action.request, ...writeOptions(this.config) })
+        rollbackStep.status = 'completed'
+        rollbackStep.message = 'Rolled back'
+      } catch (error) {
+        // Compensations must be idempotent - a resource that is already gone counts as rolled back
+        if ((error as ApiError).type === 'not_found') {
+          rollbackStep.status = 'completed'
+          rollbackStep.message = 'Already removed'
+        } else {
+          rollbackStep.status = 'failed'
+          rollbackStep.error = error instanceof Error ? error.message : 'Unknown error'
+          failed = true
+        }
+      } finally {
+        rollbackStep.endTime = Date.now()
+        rollbackStep.duration = rollbackStep.endTime - rollbackStep.startTime!
+        notifySteps()
+      }
+    }
+
+    context.compensations = []
+    if (failed) return 'rollback_failed'
+    return manualCleanup ? 'manual_cleanup_required' : 'rolled_back'
+  }
+
+  private createContext(
+    formData: NewProjectFormData,
+    journal?: ExecutionJournal,
+    cancelToken?: CancellationToken,
+    client: SagaClient = this.client,
+    onCompensationRegistered?: () => void
+  ): SagaContext {
+    const context: SagaContext = {
+      formData,
+      resources: journal
+        ? JSON.parse(JSON.stringify(journal.resources))
+        : {
+            credentialIds: {},
+            environmentIds: {},
+            provisionedDatabases: []
+          },
+      api: new ProxyApi(client),
+      config: this.config,
+      compensations: journal ? [...journal.compensations] : [],
+      registerCompensation: action => {
+        context.compensations.push(action)
+        onCompensationRegistered?.()
+      },
+      cancelToken
+    }
+    return context
+  }
+
+  private buildResult(
+    context: SagaContext,
+    executionSteps: ExecutionStep[],
+    startTime: number,
+    status: ProjectCreationResult['status']
+  ): ProjectCreationResult {
+    const projectId = context.resources.projectId !== undefined ? String(context.resources.projectId) : ''
+    const endTime = Date.now()
+
+    return {
+      projectId,
+      status,
+      url: projectId ? `${this.config.dbtCloudUrl}/projects/${projectId}` : '',
+      metadata: {
+        createdAt: endTime,
+        duration: endTime - startTime,
+        steps: executionSteps.map(step => ({ ...step }))
+      }
+    }
+  }
+}
+
+// =============================================================================
+// Default Export
+// =============================================================================
+
+export default ProjectCreationSaga
@@ -0,0 +1,112 @@
+/**
+ * Request Cancellation
+ * Cancellation tokens and the manager that tracks in-flight requests for BaseHttpClient
+ */
+
+import type {
+  CancellationToken,
+  CancellationTokenSource,
+  RequestCancellationManager
+} from '../types/api';
+
+// =============================================================================
+// Cancellation Tokens
+// =============================================================================
+
+/**
+ * Create a token source whose token can be passed to any number of requests
+ * @returns Cancellation token source
+ */
+export function createCancellationTokenSource(): CancellationTokenSource {
+  const callbacks: Array<(reason?: string) => void> = [];
+
+  const token: CancellationToken = {
+    isCancellationRequested: false,
+    reason: undefined,
+    cancel: (reason?: string) => {
+      if (token.isCancellationRequested) return;
+
+      token.isCancellationRequested = true;
+      token.reason = reason;
+      callbacks.splice(0).forEach(callback => {
+        try {
+          callback(reason);
+        } catch (error) {
+          console.warn('Cancellation callback failed:', error);
+        }
+      });
+    },
+    onCancelled: (callback: (reason?: string) => void) => {
+      // Late subscribers are notified straight away so no cancellation is missed
+      if (token.isCancellationRequested) {
+        callback(token.reason);
+        return () => {};
+      }
+      callbacks.push(callback);
+      return () => {
+        const index = callbacks.indexOf(callback);
+        if (index !== -1) callbacks.splice(index, 1);
+      };
+    }
+  };
+
+  return {
+    token,
+    cancel: (reason?: string) => token.cancel(reason)
+  };
+}
+
+// =============================================================================
+// Cancellation Manager
+// =============================================================================
+
+/**
+ * Tracks the abort controller of every in-flight request so it can be cancelled by ID
+ */
+export class RequestCancellationRegistry implements RequestCancellationManager {
+  private activeRequests = new Map<string, AbortController>();
+
+  createTokenSource(): CancellationTokenSource {
+    return createCancellationTokenSource();
+  }
+
+  /**
+   * Register an in-flight request
+   * @param requestId - Unique request identifier
+   * @param controller - Abort controller driving the request
+   * @returns Function that unregisters the request once it settles
+   */
+  register(requestId: string, controller: AbortController): () => void {
+    this.activeRequests.set(requestId, controller);
+    return () => {
+      this.activeRequests.delete(requestId);
+    };
+  }
+
+  cancelRequest(requestId: string, reason?: string): boolean {
+    const controller = this.activeRequests.get(requestId);
+    if (!controller) return false;
+
+    // Abort without a reason so fetch rejects with a standard AbortError
+    if (reason) console.debug(`Cancelling request ${requestId}: ${reason}`);
+    controller.abort();
+    this.activeRequests.delete(requestId);
+    return true;
+  }
+
+  cancelAll(reason?: string): void {
+    if (reason) console.debug(`Cancelling ${this.activeRequests.size} request(s): ${reason}`);
+    this.activeRequests.forEach(controller => controller.abort());
+    this.activeRequests.clear();
+  }
+
+  getActiveRequestCount(): number {
+    return this.activeRequests.size;
+  }
+}
+
+// =============================================================================
+// Default Export
+// =============================================================================
+
+export default RequestCancellationRegistry;
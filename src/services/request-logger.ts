@@ -0,0 +1,255 @@
+/**
+ * Request Logger
+ * Structured, redacted request logging for BaseHttpClient with an in-memory ring buffer for support exports
+ */
+
+import type {
+  ApiError,
+  ApiRequestConfig,
+  ApiResponse,
+  LogLevel,
+  LoggingConfig,
+  PerformanceMetrics,
+  RequestLogEntry
+} from '../types/api';
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const LEVEL_ORDER: Record<LogLevel, number> = {
+  debug: 0,
+  info: 1,
+  warn: 2,
+  error: 3
+};
+
+/** Key fragments whose values are never written to the log */
+const SENSITIVE_KEYS = [
+  'password',
+  'private_key',
+  'privatekey',
+  'secret',
+  'token',
+  'authorization',
+  'api-key',
+  'api_key',
+  'apikey',
+  'cookie'
+];
+
+const REDACTED = '********';
+
+/** Stand-in for entries not tied to a specific request */
+const NO_REQUEST: ApiRequestConfig = { method: 'GET', url: '' };
+const MAX_DEPTH = 8;
+
+function isSensitiveKey(key: string): boolean {
+  const normalized = key.toLowerCase();
+  return SENSITIVE_KEYS.some(fragment => normalized.includes(fragment));
+}
+
+/**
+ * Deep copy with sensitive values masked; functions are dropped and cycles are cut
+ */
+export function redactSensitive(value: unknown, depth: number = 0, seen: WeakSet<object> = new WeakSet()): unknown {
+  if (value === null || typeof value !== 'object') {
+    return typeof value === 'function' ? undefined : value;
+  }
+  if (value instanceof FormData) return '[FormData]';
+  if (value instanceof Blob) return `[Blob ${value.size} bytes]`;
+  if (depth >= MAX_DEPTH || seen.has(value)) return '[Truncated]';
+  seen.add(value);
+
+  if (Array.isArray(value)) {
+    return value.map(item => redactSensitive(item, depth + 1, seen));
+  }
+
+  return Object.fromEntries(
+    Object.entries(value)
+      .filter(([, entry]) => typeof entry !== 'function')
+      .map(([key, entry]) => [
+        key,
+        isSensitiveKey(key) && entry ? REDACTED : redactSensitive(entry, depth + 1, seen)
+      ])
+  );
+}
+
+/**
+ * The parts of a request config worth logging, redacted; the cancel token and callbacks are left out
+ */
+function summarizeConfig(config: ApiRequestConfig): ApiRequestConfig {
+  return {
+    method: config.method,
+    url: config.url,
+    params: redactSensitive(config.params) as ApiRequestConfig['params'],
+    headers: redactSensitive(config.headers) as ApiRequestConfig['headers'],
+    data: redactSensitive(config.data),
+    metadata: redactSensitive(config.metadata) as ApiRequestConfig['metadata']
+  };
+}
+
+// =============================================================================
+// Request Logger
+// =============================================================================
+
+/**
+ * Logger driven by LoggingConfig
+ * Entries at or above `level` in an enabled category go to `customLogger` (or the console, unless `writeToConsole`
+ * is off) and into a ring buffer of the last `maxEntries` entries, which `export()` serializes for support tickets
+ */
+export class RequestLogger {
+  readonly config: LoggingConfig;
+  private entries: RequestLogEntry[] = [];
+  private entryCounter = 0;
+
+  constructor(config: Partial<LoggingConfig> = {}) {
+    this.config = {
+      enabled: true,
+      level: 'warn',
+      logRequests: false,
+      logResponses: false,
+      logErrors: true,
+      logPerformance: false,
+      writeToConsole: true,
+      maxEntries: 200,
+      ...config
+    };
+  }
+
+  /**
+   * Log an outgoing request (debug)
+   */
+  logRequest(config: ApiRequestConfig): void {
+    if (!this.config.logRequests) return;
+    this.log('debug', `${config.method} ${config.url}`, config);
+  }
+
+  /**
+   * Log a completed response (info)
+   */
+  logResponse(response: ApiResponse): void {
+    if (!this.config.logResponses) return;
+
+    const { config } = response;
+    this.log(
+      'info',
+      `${config.method} ${config.url} → ${response.status}` +
+        (response.duration !== undefined ? ` in ${response.duration}ms` : ''),
+      config,
+      { status: response.status, duration: response.duration }
+    );
+  }
+
+  /**
+   * Log a failed request (error); cancellations are logged at debug
+   */
+  logError(error: ApiError): void {
+    if (!this.config.logErrors) return;
+
+    const config = error.config ?? NO_REQUEST;
+    this.log(
+      error.type === 'abort' ? 'debug' : 'error',
+      `${config.method} ${config.url} failed: ${error.message}`,
+      config,
+      {
+        type: error.type,
+        status: error.status,
+        retryAttempt: error.retryAttempt,
+        response: error.response?.data,
+        context: error.context
+      }
+    );
+  }
+
+  /**
+   * Log request timings (info) when `logPerformance` is on; slow requests are logged as warnings either way
+   */
+  logPerformance(metrics: PerformanceMetrics, config: ApiRequestConfig, slow: boolean = false): void {
+    if (!this.config.logPerformance && !slow) return;
+    this.log(slow ? 'warn' : 'info', `${metrics.endpoint ?? config.url} took ${metrics.duration}ms`, config, metrics);
+  }
+
+  /**
+   * Log a warning about the client itself, such as a failing interceptor; governed by `logErrors`
+   */
+  warn(message: string, config?: ApiRequestConfig, data?: unknown): void {
+    if (!this.config.logErrors) return;
+    this.log('warn', message, config, data instanceof Error ? { name: data.name, message: data.message } : data);
+  }
+
+  /**
+   * Record an entry if logging is enabled and the level passes the threshold
+   */
+  log(level: LogLevel, message: string, config: ApiRequestConfig = NO_REQUEST, data?: unknown): RequestLogEntry | null {
+    if (!this.config.enabled || LEVEL_ORDER[level] < LEVEL_ORDER[this.config.level]) {
+      return null;
+    }
+
+    const entry: RequestLogEntry = {
+      id: `log_${++this.entryCounter}`,
+      level,
+      message,
+      config: summarizeConfig(config),
+      timestamp: Date.now(),
+      data: redactSensitive(data)
+    };
+
+    this.entries.push(entry);
+    const maxEntries = this.config.maxEntries ?? 200;
+    if (this.entries.length > maxEntries) {
+      this.entries.splice(0, this.entries.length - maxEntries);
+    }
+
+    this.write(entry);
+    return entry;
+  }
+
+  /**
+   * Buffered entries, oldest first
+   */
+  getEntries(): RequestLogEntry[] {
+    return [...this.entries];
+  }
+
+  clear(): void {
+    this.entries = [];
+  }
+
+  /**
+   * Serialize the buffer as JSON for attaching to a support ticket
+   */
+  export(): string {
+    return JSON.stringify(
+      {
+        exportedAt: new Date().toISOString(),
+        userAgent: typeof navigator !== 'undefined' ? navigator.userAgent : undefined,
+        level: this.config.level,
+        entries: this.entries
+      },
+      null,
+      2
+    );
+  }
+
+  private write(entry: RequestLogEntry): void {
+    if (this.config.customLogger) {
+      try {
+        this.config.customLogger(entry.level, entry.message, entry);
+      } catch (error) {
+        console.warn('Custom logger failed:', error);
+      }
+      return;
+    }
+    if (!this.config.writeToConsole) return;
+
+    const output = entry.data === undefined ? [entry.message] : [entry.message, entry.data];
+    console[entry.level](...output);
+  }
+}
+
+// =============================================================================
+// Default Export
+// =============================================================================
+
+export default RequestLogger;
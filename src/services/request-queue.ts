@@ -0,0 +1,164 @@
+/**
+ * Request Queue
+ * Concurrency limiting and request ordering for BaseHttpClient
+ */
+
+import type {
+  ApiError,
+  ApiErrorType,
+  ApiRequestConfig,
+  RequestQueueConfig
+} from '../types/api';
+
+// =============================================================================
+// Types and Interfaces
+// =============================================================================
+
+interface QueuedRequest {
+  config: ApiRequestConfig;
+  priority: number;
+  sequence: number;
+  /** Called once the entry has been given a slot, which is already counted as active */
+  start: () => void;
+}
+
+/**
+ * Default priority: `metadata.priority`, so user-triggered calls can pass a positive value
+ * and background polling a negative one
+ */
+function defaultPriority(config: ApiRequestConfig): number {
+  return Number(config.metadata?.priority ?? 0);
+}
+
+// =============================================================================
+// Request Queue
+// =============================================================================
+
+/**
+ * Runs at most `maxConcurrent` tasks at once; the rest wait in a bounded queue
+ * ordered by the configured strategy
+ */
+export class RequestQueue {
+  readonly config: RequestQueueConfig;
+  readonly maxConcurrent: number;
+  private queue: QueuedRequest[] = [];
+  private activeCount = 0;
+  private sequence = 0;
+
+  constructor(maxConcurrent: number = 10, config: Partial<RequestQueueConfig> = {}) {
+    this.maxConcurrent = Math.max(1, maxConcurrent);
+    this.config = {
+      maxSize: 100,
+      strategy: 'priority',
+      ...config
+    };
+  }
+
+  /**
+   * Run a task once a concurrency slot is free
+   * Rejects with a 'queue_full' ApiError when the queue is full, and with an 'abort' ApiError
+   * when the request's cancel token fires while it is still waiting
+   */
+  async run<T>(config: ApiRequestConfig, task: () => Promise<T>): Promise<T> {
+    if (this.activeCount >= this.maxConcurrent) {
+      // startNext reserves the slot before waking us, so a request arriving in between cannot take it
+      await this.waitForSlot(config);
+    } else {
+      this.activeCount++;
+    }
+
+    try {
+      return await task();
+    } finally {
+      this.activeCount--;
+      this.startNext();
+    }
+  }
+
+  getActiveCount(): number {
+    return this.activeCount;
+  }
+
+  getQueuedCount(): number {
+    return this.queue.length;
+  }
+
+  private waitForSlot(config: ApiRequestConfig): Promise<void> {
+    if (this.queue.length >= this.config.maxSize) {
+      return Promise.reject(this.createQueueError(
+        'queue_full',
+        `Request queue is full (${this.config.maxSize} waiting)`,
+        config
+      ));
+    }
+
+    return new Promise((resolve, reject) => {
+      const entry: QueuedRequest = {
+        config,
+        priority: (this.config.priorityFn ?? defaultPriority)(config),
+        sequence: ++this.sequence,
+        start: () => {
+          unsubscribe?.();
+          resolve();
+        }
+      };
+      this.queue.push(entry);
+
+      const unsubscribe = config.cancelToken?.onCancelled(reason => {
+        const index = this.queue.indexOf(entry);
+        if (index === -1) return;
+
+        this.queue.splice(index, 1);
+        reject(this.createQueueError(
+          'abort',
+          reason ? `Request was cancelled: ${reason}` : 'Request was cancelled',
+          config
+        ));
+      });
+    });
+  }
+
+  private startNext(): void {
+    if (this.activeCount >= this.maxConcurrent || this.queue.length === 0) return;
+
+    let index: number;
+    switch (this.config.strategy) {
+      case 'lifo':
+        index = this.queue.length - 1;
+        break;
+      case 'fifo':
+        index = 0;
+        break;
+      default:
+        // Highest priority first; equal priorities keep arrival order
+        index = this.queue.reduce((best, entry, i) => {
+          const current = this.queue[best];
+          return entry.priority > current.priority ||
+            (entry.priority === current.priority && entry.sequence < current.sequence)
+            ? i
+            : best;
+        }, 0);
+    }
+
+    const [next] = this.queue.splice(index, 1);
+    this.activeCount++;
+    next.start();
+  }
+
+  private createQueueError(type: ApiErrorType, message: string, config: ApiRequestConfig): ApiError {
+    const error = new Error(message) as ApiError;
+    error.type = type;
+    error.config = config;
+    error.timestamp = Date.now();
+    error.retryable = false;
+    error.context = { queued: this.queue.length, active: this.activeCount };
+
+    return error;
+  }
+}
+
+// =============================================================================
+// Default Export
+// =============================================================================
+
+export default RequestQueue;
@@ -0,0 +1,134 @@
+/**
+ * Retry Policy
+ * Backoff and retry decisions for BaseHttpClient, driven by RetryConfig
+ */
+
+import type {
+  ApiError,
+  CancellationToken,
+  RetryAttempt,
+  RetryConfig
+} from '../types/api';
+
+// =============================================================================
+// Retry Policy
+// =============================================================================
+
+/**
+ * Retries failed operations according to a RetryConfig
+ * Cancellation is never retried; a wait between attempts ends early when the token is cancelled
+ */
+export class RetryPolicy {
+  readonly config: RetryConfig;
+
+  constructor(config: Partial<RetryConfig> = {}) {
+    this.config = {
+      enabled: false,
+      maxAttempts: 3,
+      strategy: 'exponential',
+      baseDelay: 1000, // 1 second
+      maxDelay: 30000, // 30 seconds
+      backoffMultiplier: 2,
+      jitter: 0.1,
+      retryableErrors: ['network', 'timeout', 'server'],
+      ...config
+    };
+  }
+
+  /**
+   * Delay before the given retry, including jitter and capped at `maxDelay`
+   * @param attempt - Retry number, starting at 1
+   * @returns Delay in milliseconds
+   */
+  calculateDelay(attempt: number): number {
+    const { strategy, baseDelay, maxDelay, backoffMultiplier, jitter, delayCalculator } = this.config;
+    let delay: number;
+
+    switch (strategy) {
+      case 'fixed':
+        delay = baseDelay;
+        break;
+      case 'linear':
+        delay = baseDelay * attempt;
+        break;
+      case 'custom':
+        delay = delayCalculator ? delayCalculator(attempt, baseDelay) : baseDelay;
+        break;
+      default:
+        delay = baseDelay * Math.pow(backoffMultiplier, attempt - 1);
+    }
+
+    // Spread retries from concurrent callers so they do not hit the proxy in lockstep
+    if (jitter > 0) {
+      delay *= 1 + (Math.random() * 2 - 1) * jitter;
+    }
+
+    return Math.round(Math.min(Math.max(delay, 0), maxDelay));
+  }
+
+  /**
+   * Whether an error should be retried after the given number of retries
+   */
+  shouldRetry(error: ApiError, retriesSoFar: number): boolean {
+    if (!this.config.enabled || retriesSoFar >= this.config.maxAttempts) return false;
+    if (error.type === 'abort') return false;
+
+    return this.config.retryCondition
+      ? this.config.retryCondition(error)
+      : this.config.retryableErrors.includes(error.type);
+  }
+
+  /**
+   * Run an operation, retrying it while the policy allows
+   * The final error carries the number of retries in `retryAttempt` and their history in `context.retryAttempts`
+   */
+  async execute<T>(
+    operation: () => Promise<T>,
+    cancelToken?: CancellationToken
+  ): Promise<T> {
+    const attempts: RetryAttempt[] = [];
+
+    while (true) {
+      try {
+        return await operation();
+      } catch (error) {
+        const apiError = error as ApiError;
+
+        if (!this.shouldRetry(apiError, attempts.length)) {
+          apiError.retryAttempt = attempts.length;
+          apiError.context = { ...apiError.context, retryAttempts: attempts };
+          throw apiError;
+        }
+
+        const delay = this.calculateDelay(attempts.length + 1);
+        attempts.push({
+          attemptNumber: attempts.length + 1,
+          delay,
+          error: apiError,
+          timestamp: Date.now()
+        });
+
+        await this.wait(delay, cancelToken);
+      }
+    }
+  }
+
+  private wait(delay: number, cancelToken?: CancellationToken): Promise<void> {
+    return new Promise(resolve => {
+      const timeoutId = setTimeout(() => {
+        unsubscribe?.();
+        resolve();
+      }, delay);
+      const unsubscribe = cancelToken?.onCancelled(() => {
+        clearTimeout(timeoutId);
+        resolve();
+      });
+    });
+  }
+}
+
+// =============================================================================
+// Default Export
+// =============================================================================
+
+export default RetryPolicy;
@@ -0,0 +1,349 @@
+/**
+ * Uniqueness Validation
+ * Debounced server-side checks that names entered in the wizard are not already taken
+ */
+
+import { createCancellationTokenSource } from './request-cancellation'
+import type { FormSectionKey } from './draft-diff'
+import type { FormDataSnapshot } from './form-validation'
+import type { ProxyApi, RequestOptions } from './generated/proxy-api'
+import type { ApiError, CancellationToken, CancellationTokenSource } from '../types/api'
+import type { EnvironmentType, ValidationError } from '../types/project-creation'
+
+// =============================================================================
+// Types and Interfaces
+// =============================================================================
+
+export type UniquenessStatus =
+  | 'pending' // waiting for the debounce or the server
+  | 'available'
+  | 'taken'
+  | 'unknown' // the check could not run, e.g. the proxy failed; the name is neither flagged nor confirmed
+
+export interface UniquenessResult {
+  status: UniquenessStatus
+  /** Value the result applies to; a result for an older value is ignored */
+  value: string
+  message?: string
+  checkedAt?: number
+}
+
+/**
+ * A single field to check, e.g. the name of the second database
+ */
+export interface UniquenessTarget {
+  /** Stable key for debouncing and results, e.g. 'newDatabase.databases[1].name' */
+  id: string
+  step: number
+  section: FormSectionKey
+  /** Field path within the section, matching ValidationError.field */
+  field: string
+  value: string
+  check: (value: string, context: UniquenessCheckContext) => Promise<UniquenessResult>
+}
+
+export interface UniquenessCheckContext {
+  api: ProxyApi
+  config: UniquenessValidatorConfig
+  formData: FormDataSnapshot
+  cancelToken: CancellationToken
+}
+
+export interface UniquenessValidatorConfig {
+  debounceMs: number
+  cacheTTL: number // milliseconds
+  requestTimeout: number // milliseconds
+  /** ShellCreator repository that holds a config file for every provisioned database */
+  infraConfigRepository: string
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const DEFAULT_CONFIG: UniquenessValidatorConfig = {
+  debounceMs: 600,
+  cacheTTL: 60 * 1000, // 1 minute
+  requestTimeout: 15000, // 15 seconds
+  infraConfigRepository: 'snowflake-shell-configs-data-core-platform'
+}
+
+export const ALREADY_EXISTS_CODE = 'ALREADY_EXISTS'
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function normalize(value: string): string {
+  return value.trim().toLowerCase()
+}
+
+/**
+ * Checks must see the live state and run quietly, so they skip the response cache and the global loading bar
+ */
+function requestConfig({ config, cancelToken }: UniquenessCheckContext): RequestOptions {
+  return { timeout: config.requestTimeout, cancelToken, metadata: { cache: false, trackLoading: false } }
+}
+
+/**
+ * A 404, or the 422 the spec documents for a name the proxy cannot resolve, means nothing by that name exists
+ */
+function isNotFound(error: unknown): boolean {
+  const status = (error as ApiError | null)?.status
+  return status === 404 || status === 422
+}
+
+function availableResult(value: string): UniquenessResult {
+  return { status: 'available', value, checkedAt: Date.now() }
+}
+
+function unknownResult(value: string, error: unknown): UniquenessResult {
+  const reason = error instanceof Error ? error.message : 'the server could not be reached'
+  return { status: 'unknown', value, message: `Could not check availability: ${reason}`, checkedAt: Date.now() }
+}
+
+/**
+ * Names from a project list, which the proxy may wrap in the dbt Cloud `data` envelope
+ */
+function projectNames(data: unknown): string[] {
+  const list = Array.isArray(data) ? data : (data as { data?: unknown } | null)?.data
+  if (!Array.isArray(list)) return []
+
+  return list.map((project: unknown) => {
+    const name = (project as { name?: unknown } | null)?.name
+    return typeof name === 'string' ? name : ''
+  })
+}
+
+/**
+ * dbt project names, compared against the full project list
+ */
+async function checkProjectName(name: string, context: UniquenessCheckContext): Promise<UniquenessResult> {
+  try {
+    const response = await context.api.listProjects(requestConfig(context))
+    const taken = projectNames(response.data).some(project => normalize(project) === normalize(name))
+    return taken
+      ? { status: 'taken', value: name, message: `A dbt project named "${name.trim()}" already exists`, checkedAt: Date.now() }
+      : availableResult(name)
+  } catch (error) {
+    return unknownResult(name, error)
+  }
+}
+
+/**
+ * A repository whose branches can be listed exists; one the proxy cannot find is free
+ */
+async function checkRepositoryName(name: string, context: UniquenessCheckContext): Promise<UniquenessResult> {
+  try {
+    await context.api.getBranches({ repo: name.trim() }, requestConfig(context))
+    return { status: 'taken', value: name, message: `GitHub repository "${name.trim()}" already exists`, checkedAt: Date.now() }
+  } catch (error) {
+    return isNotFound(error) ? availableResult(name) : unknownResult(name, error)
+  }
+}
+
+/**
+ * Config file that declares a database in the ShellCreator repository, e.g. `qa/it/database/sales_db.yaml`
+ */
+function databaseConfigPath(environment: EnvironmentType, businessArea: string, name: string): string {
+  return `${environment.toLowerCase()}/${businessArea}/database/${name.trim().toLowerCase()}.yaml`
+}
+
+/**
+ * Provisioning declares each database as a file in the ShellCreator repository, so a name is taken when that file
+ * exists for any selected environment; reading it needs no Snowflake credentials
+ * Files added to the repository by hand may be named differently and are not found.
+ */
+async function checkDatabaseName(name: string, context: UniquenessCheckContext): Promise<UniquenessResult> {
+  const { api, config, formData } = context
+  const businessArea = formData.newDatabase?.businessArea
+  const environments = formData.newDatabase?.environments ?? []
+  if (!businessArea || environments.length === 0) {
+    return { status: 'unknown', value: name }
+  }
+
+  for (const environment of environments) {
+    try {
+      await api.readFile({
+        repo: config.infraConfigRepository,
+        file_name: databaseConfigPath(environment, businessArea, name)
+      }, requestConfig(context))
+
+      return {
+        status: 'taken',
+        value: name,
+        message: `Database "${name.trim()}" already exists in ${environment}`,
+        checkedAt: Date.now()
+      }
+    } catch (error) {
+      if (!isNotFound(error)) return unknownResult(name, error)
+    }
+  }
+  return availableResult(name)
+}
+
+// =============================================================================
+// Public API
+// =============================================================================
+
+/**
+ * Sections with fields that must be unique on the server
+ */
+export const UNIQUENESS_CHECKED_SECTIONS: FormSectionKey[] = ['generalInfo', 'newDatabase', 'github']
+
+/**
+ * Sections to re-check when a section changes; database names also depend on the environments and business area
+ * Entitlement base names are only checked for duplicates within the form: the proxy has no PIMS lookup, and the
+ * PIMS name is the repository name, which is already checked here.
+ */
+export const UNIQUENESS_DEPENDENCIES: Partial<Record<FormSectionKey, FormSectionKey[]>> = {
+  generalInfo: ['generalInfo'],
+  github: ['github'],
+  newDatabase: ['newDatabase'],
+  databaseSelection: ['newDatabase']
+}
+
+/**
+ * Fields of a section that must be unique on the server, with their current values
+ * Empty values are left to the required rules.
+ */
+export function getUniquenessTargets(section: FormSectionKey, formData: FormDataSnapshot): UniquenessTarget[] {
+  switch (section) {
+    case 'generalInfo':
+      return formData.generalInfo.name.trim()
+        ? [{ id: 'generalInfo.name', step: 1, section, field: 'name', value: formData.generalInfo.name, check: checkProjectName }]
+        : []
+
+    case 'github':
+      return formData.github.repositoryName.trim()
+        ? [{
+            id: 'github.repositoryName',
+            step: 7,
+            section,
+            field: 'repositoryName',
+            value: formData.github.repositoryName,
+            check: checkRepositoryName
+          }]
+        : []
+
+    case 'newDatabase':
+      if (!formData.databaseSelection.createNewDatabase) return []
+      return (formData.newDatabase?.databases ?? [])
+        .map((database, index) => ({ database, field: `databases[${index}].name` }))
+        .filter(({ database }) => database.name?.trim())
+        .map(({ database, field }) => ({
+          id: `newDatabase.${field}`,
+          step: 3.5,
+          section,
+          field,
+          value: database.name,
+          check: checkDatabaseName
+        }))
+
+    default:
+      return []
+  }
+}
+
+/**
+ * "Already exists" errors for a step, from results that still match the form
+ */
+export function getUniquenessErrors(
+  stepId: number,
+  formData: FormDataSnapshot,
+  results: Readonly<Record<string, UniquenessResult>>
+): ValidationError[] {
+  return UNIQUENESS_CHECKED_SECTIONS
+    .flatMap(section => getUniquenessTargets(section, formData))
+    .filter(target => target.step === stepId)
+    .flatMap(target => {
+      const result = results[target.id]
+      if (result?.status !== 'taken' || normalize(result.value) !== normalize(target.value)) return []
+      return [{ field: target.field, message: result.message ?? 'Already exists', code: ALREADY_EXISTS_CODE, severity: 'error' as const }]
+    })
+}
+
+/**
+ * Debounces, cancels and caches uniqueness checks so typing does not flood the proxy
+ */
+export class UniquenessValidator {
+  private api: ProxyApi
+  private config: UniquenessValidatorConfig
+  private timers = new Map<string, number>()
+  private inFlight = new Map<string, CancellationTokenSource>()
+  private cache = new Map<string, UniquenessResult>()
+
+  constructor(api: ProxyApi, config: Partial<UniquenessValidatorConfig> = {}) {
+    this.api = api
+    this.config = { ...DEFAULT_CONFIG, ...config }
+  }
+
+  /**
+   * Check a target after the debounce delay; `onResult` is called with 'pending' straight away and
+   * with the final result unless a newer check for the same target superseded it
+   */
+  check(
+    target: UniquenessTarget,
+    getFormData: () => FormDataSnapshot,
+    onResult: (result: UniquenessResult) => void
+  ): void {
+    this.cancel(target.id)
+
+    const cacheKey = `${target.id}:${normalize(target.value)}`
+    const cached = this.cache.get(cacheKey)
+    if (cached?.checkedAt && Date.now() - cached.checkedAt < this.config.cacheTTL) {
+      onResult(cached)
+      return
+    }
+
+    onResult({ status: 'pending', value: target.value })
+
+    this.timers.set(target.id, window.setTimeout(async () => {
+      this.timers.delete(target.id)
+      const source = createCancellationTokenSource()
+      this.inFlight.set(target.id, source)
+
+      const result = await target.check(target.value, {
+        api: this.api,
+        config: this.config,
+        formData: getFormData(),
+        cancelToken: source.token
+      })
+
+      if (source.token.isCancellationRequested) return
+      this.inFlight.delete(target.id)
+      // Only definite answers are cached; 'unknown' is retried on the next change
+      if (result.status === 'taken' || result.status === 'available') {
+        this.cache.set(cacheKey, result)
+      }
+      onResult(result)
+    }, this.config.debounceMs))
+  }
+
+  /**
+   * Drop a pending or in-flight check
+   */
+  cancel(id: string): void {
+    const timer = this.timers.get(id)
+    if (timer !== undefined) {
+      clearTimeout(timer)
+      this.timers.delete(id)
+    }
+    this.inFlight.get(id)?.cancel('Superseded by a newer uniqueness check')
+    this.inFlight.delete(id)
+  }
+
+  /**
+   * Cancel everything and forget cached answers, e.g. when the wizard is reset
+   */
+  reset(): void {
+    Array.from(new Set([...this.timers.keys(), ...this.inFlight.keys()])).forEach(id => this.cancel(id))
+    this.cache.clear()
+  }
+}
+
+// =============================================================================
+// Default Export
+// =============================================================================
+
+export default UniquenessValidator
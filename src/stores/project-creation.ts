@@ -5,7 +5,17 @@
 
 import { defineStore } from 'pinia'
 import { ref, computed, reactive, readonly } from 'vue'
-import DraftManager from '../services/draft-manager'
+import DraftManager, { DraftConflictError } from '../services/draft-manager'
+import type { DraftConflict, DraftVersion } from '../services/draft-manager'
+import type { FormSectionKey } from '../services/draft-diff'
+import { validateCrossStepRules, validateFormStep } from '../services/form-validation'
+import UniquenessValidator, { getUniquenessErrors, getUniquenessTargets, UNIQUENESS_DEPENDENCIES } from '../services/uniqueness-validation'
+import type { UniquenessResult } from '../services/uniqueness-validation'
+import ProjectCreationSaga, { SagaExecutionError, SagaCancelledError } from '../services/project-creation-saga'
+import { createCancellationTokenSource } from '../services/request-cancellation'
+import type { ExecutionJournal, ExecutionPlan, RollbackOutcome, SagaCallbacks } from '../services/project-creation-saga'
+import apiClient, { proxyApi } from '../services/api-client'
+import type { CancellationToken, CancellationTokenSource } from '../types/api'
 import type {
   NewProjectFormData,
   ProjectCreationState,
@@ -230,6 +240,8 @@ export const useProjectCreationStore = defineStore('projectCreation', () => {
       totalWarnings: 0,
       canProceed: false
     } as GlobalValidationResult,
+    // Server-side uniqueness results keyed by field, e.g. 'github.repositoryName'
+    uniqueness: {} as Record<string, UniquenessResult>,
     isDirty: false
   })
 
@@ -242,6 +254,7 @@ export const useProjectCreationStore = defineStore('projectCreation', () => {
     currentDraftId: string | null
     availableDrafts: any[]
     storageInfo: any
+    conflict: DraftConflict | null
   }>({
     hasDraft: false,
     lastSaved: 0,
@@ -253,27 +266,44 @@ export const useProjectCreationStore = defineStore('projectCreation', () => {
     saveStatus: 'idle',
     currentDraftId: null,
     availableDrafts: [],
-    storageInfo: null
+    storageInfo: null,
+    conflict: null
   })
 
   // Execution State
-  const execution = reactive<ExecutionState>({
+  const execution = reactive<ExecutionState & {
+    journal: ExecutionJournal | null
+    plan: ExecutionPlan | null
+  }>({
     status: 'idle',
     progress: 0,
     message: '',
+    steps: [],
+    rollbackStatus: undefined,
     result: undefined,
-    error: undefined
+    error: undefined,
+    journal: null,
+    plan: null
   })
 
+  // Cancellation source of the saga run in progress
+  let cancellationSource: CancellationTokenSource | null = null
+
   // Enhanced Auto-save Management
   let autoSaveTimer: number | null = null
   let debounceTimer: number | null = null
+  // Checksum of the stored version the current edits are based on, for cross-tab conflict detection
+  let draftBaseChecksum: string | undefined
+  let unsubscribeDraftChanges: (() => void) | null = null
   const draftManager = new DraftManager({
     storageKey: config.draftStorageKey,
     maxDrafts: config.maxDrafts,
     compressionEnabled: true,
+    // Step 5 stores database passwords and private keys in the form data
+    encryptionEnabled: true,
     crossTabSyncEnabled: true
   })
+  const uniquenessValidator = new UniquenessValidator(proxyApi)
 
   // =============================================================================
   // Computed Properties (Getters)
@@ -329,7 +359,8 @@ export const useProjectCreationStore = defineStore('projectCreation', () => {
         completed: step.completed
       }))
     })
-    return allRequiredStepsValid && execution.status === 'idle'
+    // An interrupted run must be resumed or discarded first, otherwise its resources would be duplicated
+    return allRequiredStepsValid && execution.status === 'idle' && !execution.journal
   })
 
   // =============================================================================
@@ -341,6 +372,9 @@ export const useProjectCreationStore = defineStore('projectCreation', () => {
     newFormData.databaseSelection?.createNewDatabase === true
   )
 
+  // Rules between steps, e.g. Step 4 environments need a database from Step 3a; merged into the owning step's result
+  const crossStepValidation = computed(() => validateCrossStepRules(newFormData))
+
   // Get visible steps (filtering out Step 3a when not needed)
   const visibleSteps = computed(() =>
     config.stepDefinitions.filter(step =>
@@ -432,6 +466,13 @@ export const useProjectCreationStore = defineStore('projectCreation', () => {
     }
     validation.isDirty = true
 
+    // A plan describes the form it was built from; review notes do not change any API call
+    if (section !== 'review') {
+      execution.plan = null
+    }
+
+    scheduleUniquenessChecks(section)
+
     if (config.validateOnChange) {
       // Debounce validation to prevent rapid re-renders
       if (debounceTimer) clearTimeout(debounceTimer)
@@ -450,6 +491,8 @@ export const useProjectCreationStore = defineStore('projectCreation', () => {
     navigation.currentStep = 1
     navigation.completedSteps = []
     validation.stepValidation = {}
+    validation.uniqueness = {}
+    uniquenessValidator.reset()
     validation.isDirty = false
     clearAutoSave()
     updateNavigationState()
@@ -463,294 +506,17 @@ export const useProjectCreationStore = defineStore('projectCreation', () => {
     const stepDef = config.stepDefinitions.find(s => s.id === stepId)
     if (!stepDef) return false
 
-    let isValid = true
-    const errors: any[] = []
-    const warnings: any[] = []
-
-    // Validation logic for new 9-step workflow
-    switch (stepId) {
-      case 1: // General Info
-        if (!newFormData.generalInfo.name.trim()) {
-          errors.push({
-            field: 'name',
-            message: 'Project name is required',
-            code: 'REQUIRED',
-            severity: 'error'
-          })
-          isValid = false
-        }
-        if (!newFormData.generalInfo.owner.trim()) {
-          errors.push({
-            field: 'owner',
-            message: 'Project owner is required',
-            code: 'REQUIRED',
-            severity: 'error'
-          })
-          isValid = false
-        }
-        if (!newFormData.generalInfo.description.trim()) {
-          warnings.push({
-            field: 'description',
-            message: 'Project description is recommended',
-            code: 'RECOMMENDED'
-          })
-        }
-        break
-
-      case 2: // Setup Type
-        if (!newFormData.setupType.setupType) {
-          errors.push({
-            field: 'setupType',
-            message: 'Setup type selection is required',
-            code: 'REQUIRED',
-            severity: 'error'
-          })
-          isValid = false
-        }
-        break
-
-      case 3: // Database Selection
-        if (newFormData.databaseSelection.createNewDatabase === undefined) {
-          errors.push({
-            field: 'createNewDatabase',
-            message: 'Database selection is required',
-            code: 'REQUIRED',
-            severity: 'error'
-          })
-          isValid = false
-        }
-        if (!newFormData.databaseSelection.createNewDatabase && !newFormData.databaseSelection.existingDatabase?.trim()) {
-          errors.push({
-            field: 'existingDatabase',
-            message: 'Existing database name is required when not creating new database',
-            code: 'REQUIRED',
-            severity: 'error'
-          })
-          isValid = false
-        }
-        break
-
-      case 3.5: // New Database (conditional)
-        if (shouldShowStep3a.value) {
-          if (!newFormData.newDatabase?.businessArea) {
-            errors.push({
-              field: 'businessArea',
-              message: 'Business area is required',
-              code: 'REQUIRED',
-              severity: 'error'
-            })
-            isValid = false
-          }
-          if (!newFormData.newDatabase?.environments?.length) {
-            errors.push({
-              field: 'environments',
-              message: 'At least one environment is required',
-              code: 'REQUIRED',
-              severity: 'error'
-            })
-            isValid = false
-          }
-          if (!newFormData.newDatabase?.databases?.length) {
-            errors.push({
-              field: 'databases',
-              message: 'At least one database configuration is required',
-              code: 'REQUIRED',
-              severity: 'error'
-            })
-            isValid = false
-          } else {
-            // Validate each database configuration
-            newFormData.newDatabase.databases.forEach((database, dbIndex) => {
-              if (!database.name?.trim()) {
-                errors.push({
-                  field: `databases[${dbIndex}].name`,
-                  message: `Database ${dbIndex + 1} name is required`,
-                  code: 'REQUIRED',
-                  severity: 'error'
-                })
-                isValid = false
-              }
-              
-              if (!database.entitlementBases?.length) {
-                errors.push({
-                  field: `databases[${dbIndex}].entitlementBases`,
-                  message: `Database ${dbIndex + 1} requires at least one entitlement base`,
-                  code: 'REQUIRED',
-                  severity: 'error'
-                })
-                isValid = false
-              }
-              
-              // Validate schemas if any are present
-              database.schemas?.forEach((schema, schemaIndex) => {
-                if (!schema.name?.trim()) {
-                  errors.push({
-                    field: `databases[${dbIndex}].schemas[${schemaIndex}].name`,
-                    message: `Schema ${schemaIndex + 1} in Database ${dbIndex + 1} name is required`,
-                    code: 'REQUIRED',
-                    severity: 'error'
-                  })
-                  isValid = false
-                }
-                
-                if (!schema.purpose) {
-                  errors.push({
-                    field: `databases[${dbIndex}].schemas[${schemaIndex}].purpose`,
-                    message: `Schema ${schemaIndex + 1} in Database ${dbIndex + 1} purpose is required`,
-                    code: 'REQUIRED',
-                    severity: 'error'
-                  })
-                  isValid = false
-                }
-                
-                if (!schema.dataRetentionDays || schema.dataRetentionDays < 1) {
-                  errors.push({
-                    field: `databases[${dbIndex}].schemas[${schemaIndex}].dataRetentionDays`,
-                    message: `Schema ${schemaIndex + 1} in Database ${dbIndex + 1} data retention must be at least 1 day`,
-                    code: 'INVALID_VALUE',
-                    severity: 'error'
-                  })
-                  isValid = false
-                }
-              })
-            })
-          }
-        }
-        break
-
-      case 4: // Environments
-        if (!newFormData.environments.environments?.length) {
-          errors.push({
-            field: 'environments',
-            message: 'At least one environment is required',
-            code: 'REQUIRED',
-            severity: 'error'
-          })
-          isValid = false
-        }
-        break
-
-      case 5: // Database Authorization
-        if (!newFormData.databaseAuth.qaAuth.method) {
-          errors.push({
-            field: 'qaAuth.method',
-            message: 'QA authentication method is required',
-            code: 'REQUIRED',
-            severity: 'error'
-          })
-          isValid = false
-        }
-        if (!newFormData.databaseAuth.prodAuth.method) {
-          errors.push({
-            field: 'prodAuth.method',
-            message: 'Production authentication method is required',
-            code: 'REQUIRED',
-            severity: 'error'
-          })
-          isValid = false
-        }
-        break
-
-      case 6: // Notifications
-        if (!newFormData.notifications.supportGroup.trim()) {
-          errors.push({
-            field: 'supportGroup',
-            message: 'Support group is required',
-            code: 'REQUIRED',
-            severity: 'error'
-          })
-          isValid = false
-        }
-        // Email distribution is optional according to the UI implementation
-        // Only validate email distribution format if provided
-        const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
-        if (newFormData.notifications.emailDistribution?.trim() && !emailRegex.test(newFormData.notifications.emailDistribution)) {
-          errors.push({
-            field: 'emailDistribution',
-            message: 'Email distribution format is invalid',
-            code: 'INVALID_FORMAT',
-            severity: 'error'
-          })
-          isValid = false
-        }
-        break
-
-      case 7: // GitHub Setup
-        if (!newFormData.github.githubTeam.trim()) {
-          errors.push({
-            field: 'githubTeam',
-            message: 'GitHub team is required',
-            code: 'REQUIRED',
-            severity: 'error'
-          })
-          isValid = false
-        }
-        if (!newFormData.github.repositoryName.trim()) {
-          errors.push({
-            field: 'repositoryName',
-            message: 'Repository name is required',
-            code: 'REQUIRED',
-            severity: 'error'
-          })
-          isValid = false
-        }
-        break
-
-      case 8: // Entitlements
-        const { entitlementOwner, technicalOwner } = newFormData.entitlements
-        if (!entitlementOwner.trim()) {
-          errors.push({
-            field: 'entitlementOwner',
-            message: 'Entitlement owner is required',
-            code: 'REQUIRED',
-            severity: 'error'
-          })
-          isValid = false
-        }
-        if (!technicalOwner.trim()) {
-          errors.push({
-            field: 'technicalOwner',
-            message: 'Technical owner is required',
-            code: 'REQUIRED',
-            severity: 'error'
-          })
-          isValid = false
-        }
-        // Cross-field validation
-        if (entitlementOwner.trim() && technicalOwner.trim() && entitlementOwner === technicalOwner) {
-          errors.push({
-            field: 'entitlementOwner',
-            message: 'Entitlement and technical owners must be different',
-            code: 'UNIQUE',
-            severity: 'error'
-          })
-          errors.push({
-            field: 'technicalOwner',
-            message: 'Entitlement and technical owners must be different',
-            code: 'UNIQUE',
-            severity: 'error'
-          })
-          isValid = false
-        }
-        break
-
-      case 9: // Review & Create
-        if (!newFormData.review.reviewed) {
-          errors.push({
-            field: 'reviewed',
-            message: 'Please review all information before proceeding',
-            code: 'REQUIRED',
-            severity: 'error'
-          })
-          isValid = false
-        }
-        break
-    }
+    // Rules for every step live in the form validation schema, shared with the step components
+    const { errors, warnings } = validateFormStep(stepId, newFormData)
+    errors.push(...getUniquenessErrors(stepId, newFormData, validation.uniqueness))
+    errors.push(...crossStepValidation.value.errors.filter(error => error.step === stepId))
+    warnings.push(...crossStepValidation.value.warnings.filter(warning => warning.step === stepId))
+    const isValid = errors.length === 0
 
     const result: StepValidationResult = {
       valid: isValid,
-      errors,
-      warnings,
+      errors: errors.map(error => ({ ...error, step: stepId })),
+      warnings: warnings.map(warning => ({ ...warning, step: stepId })),
       touched: true
     }
 
@@ -828,6 +594,30 @@ export const useProjectCreationStore = defineStore('projectCreation', () => {
     }
   }
 
+  /**
+   * Re-check server-side uniqueness of the fields affected by a change to `section`
+   * A step that has already been validated is validated again when an answer arrives.
+   */
+  function scheduleUniquenessChecks(section: keyof NewProjectFormData): void {
+    for (const checked of UNIQUENESS_DEPENDENCIES[section] ?? []) {
+      for (const target of getUniquenessTargets(checked, newFormData)) {
+        uniquenessValidator.check(target, () => newFormData, result => {
+          validation.uniqueness[target.id] = result
+          if (result.status !== 'pending' && validation.stepValidation[target.step]?.touched) {
+            validateStep(target.step)
+          }
+        })
+      }
+    }
+  }
+
+  function getUniquenessResult(section: keyof NewProjectFormData, field: string): UniquenessResult | undefined {
+    const result = validation.uniqueness[`${section}.${field}`]
+    const target = getUniquenessTargets(section, newFormData).find(candidate => candidate.field === field)
+    // A result for a value that has since been edited no longer applies
+    return result && target && result.value === target.value ? result : undefined
+  }
+
   // =============================================================================
   // Enhanced Draft Management Actions
   // =============================================================================
@@ -858,6 +648,7 @@ export const useProjectCreationStore = defineStore('projectCreation', () => {
 
   async function performAutoSave(): Promise<void> {
     if (draft.saving) return // Prevent concurrent saves
+    if (draft.conflict) return // Wait until the user has merged the other tab's changes
     
     try {
       draft.saving = true
@@ -865,29 +656,16 @@ export const useProjectCreationStore = defineStore('projectCreation', () => {
       draft.lastSaveAttempt = Date.now()
       draft.saveError = null
 
-      const draftId = await draftManager.saveDraft(
-        newFormData,
-        {
-          currentStep: navigation.currentStep,
-          totalSteps: navigation.totalSteps
-        },
-        {
-          title: newFormData.generalInfo.name || 'Untitled Project',
-          description: newFormData.generalInfo.description,
-          draftId: draft.currentDraftId || undefined
-        }
+      await persistDraft(
+        newFormData.generalInfo.name || 'Untitled Project',
+        newFormData.generalInfo.description
       )
 
-      draft.currentDraftId = draftId
-      draft.lastSaved = Date.now()
-      draft.hasDraft = true
-      draft.saveStatus = 'saved'
-      validation.isDirty = false
-
       // Update available drafts list
       await refreshDraftsList()
       
     } catch (error) {
+      recordConflict(error)
       draft.saveError = error instanceof Error ? error.message : 'Unknown error'
       draft.saveStatus = 'error'
       console.error('Auto-save failed:', error)
@@ -913,29 +691,16 @@ export const useProjectCreationStore = defineStore('projectCreation', () => {
       draft.saveStatus = 'saving'
       draft.saveError = null
 
-      const draftId = await draftManager.saveDraft(
-        newFormData,
-        {
-          currentStep: navigation.currentStep,
-          totalSteps: navigation.totalSteps
-        },
-        {
-          title: title || newFormData.generalInfo.name || 'Untitled Project',
-          description: description || newFormData.generalInfo.description,
-          draftId: draft.currentDraftId || undefined
-        }
+      const draftId = await persistDraft(
+        title || newFormData.generalInfo.name || 'Untitled Project',
+        description || newFormData.generalInfo.description
       )
 
-      draft.currentDraftId = draftId
-      draft.lastSaved = Date.now()
-      draft.hasDraft = true
-      draft.saveStatus = 'saved'
-      validation.isDirty = false
-
       await refreshDraftsList()
       return draftId
       
     } catch (error) {
+      recordConflict(error)
       draft.saveError = error instanceof Error ? error.message : 'Unknown error'
       draft.saveStatus = 'error'
       throw error
@@ -944,6 +709,96 @@ export const useProjectCreationStore = defineStore('projectCreation', () => {
     }
   }
 
+  /**
+   * Save the form as a new version of the current draft, failing with DraftConflictError if another tab saved first
+   */
+  async function persistDraft(title: string, description?: string): Promise<string> {
+    const { draftId, checksum } = await draftManager.saveDraft(
+      newFormData,
+      {
+        currentStep: navigation.currentStep,
+        totalSteps: navigation.totalSteps
+      },
+      {
+        title,
+        description,
+        draftId: draft.currentDraftId || undefined,
+        baseChecksum: draft.currentDraftId ? draftBaseChecksum : undefined
+      }
+    )
+
+    // Edits made while the save was in flight are not stored yet, so the base is what was actually saved
+    draftBaseChecksum = checksum
+    draft.currentDraftId = draftId
+    draft.lastSaved = Date.now()
+    draft.hasDraft = true
+    draft.saveStatus = 'saved'
+    validation.isDirty = draftManager.computeChecksum(newFormData) !== checksum
+
+    return draftId
+  }
+
+  function recordConflict(error: unknown): void {
+    if (error instanceof DraftConflictError && !draft.conflict) {
+      draft.conflict = {
+        draftId: error.draftId,
+        remoteVersion: error.remoteVersion,
+        detectedAt: Date.now()
+      }
+    }
+  }
+
+  /**
+   * Compare the stored version of the current draft with the one this tab is based on after another tab saved
+   */
+  async function checkForRemoteChanges(): Promise<void> {
+    const draftId = draft.currentDraftId
+    if (!draftId || draft.conflict) return
+
+    try {
+      const remoteVersion = await draftManager.getCurrentVersion(draftId)
+      if (!remoteVersion || remoteVersion.checksum === draftBaseChecksum) return
+
+      // Both tabs arrived at the same form data
+      if (remoteVersion.checksum === draftManager.computeChecksum(newFormData)) {
+        draftBaseChecksum = remoteVersion.checksum
+        return
+      }
+
+      draft.conflict = { draftId, remoteVersion, detectedAt: Date.now() }
+    } catch (error) {
+      console.warn('Failed to check for changes from another tab:', error)
+    }
+  }
+
+  /**
+   * Merge the other tab's version section by section, then save the result on top of it
+   * Sections not listed keep this tab's values.
+   */
+  async function resolveDraftConflict(choices: Partial<Record<FormSectionKey, 'local' | 'remote'>>): Promise<string> {
+    const conflict = draft.conflict
+    if (!conflict) {
+      throw new Error('There is no draft conflict to resolve')
+    }
+
+    const remoteFormData = conflict.remoteVersion.formData
+    Object.entries(choices).forEach(([section, source]) => {
+      if (source === 'remote') {
+        const key = section as FormSectionKey
+        const value = remoteFormData[key]
+        // Copy out of the conflict state, which is cleared below
+        Object.assign(newFormData, { [key]: value === undefined ? undefined : JSON.parse(JSON.stringify(value)) })
+      }
+    })
+
+    draftBaseChecksum = conflict.remoteVersion.checksum
+    draft.conflict = null
+    validation.isDirty = true
+
+    await validateCurrentStep()
+    return await saveDraftToStorage()
+  }
+
   async function getDraftsFromStorage(): Promise<any[]> {
     try {
       return await draftManager.getDraftMetadata()
@@ -961,7 +816,12 @@ export const useProjectCreationStore = defineStore('projectCreation', () => {
     try {
       const draftData = await draftManager.loadDraft(draftId, options)
       
-      if (options.restoreFormData) {
+      if (options.restoreFormData && options.sections) {
+        // Restore selected sections from a saved version, leaving the rest of the form as it is
+        options.sections.forEach(section => {
+          Object.assign(newFormData, { [section]: draftData.formData[section] })
+        })
+      } else if (options.restoreFormData) {
         if (options.mergeWithCurrent) {
           // Merge logic - preserve existing data where new data is empty
           Object.keys(draftData.formData).forEach(key => {
@@ -980,8 +840,19 @@ export const useProjectCreationStore = defineStore('projectCreation', () => {
       }
 
       draft.currentDraftId = draftId
-      validation.isDirty = false
+      draft.conflict = null
+      draftBaseChecksum = (await draftManager.getCurrentVersion(draftId))?.checksum
+      // An older version differs from what is saved, so it is auto-saved as a new version
+      validation.isDirty = Boolean(options.versionId)
       updateNavigationState()
+
+      execution.journal = await draftManager.getExecutionJournal(draftId)
+      execution.steps = execution.journal ? execution.journal.steps : []
+
+      if (options.restoreFormData) {
+        (options.sections ?? (Object.keys(UNIQUENESS_DEPENDENCIES) as (keyof NewProjectFormData)[]))
+          .forEach(section => scheduleUniquenessChecks(section))
+      }
       
       // Refresh validation after loading
       await validateCurrentStep()
@@ -992,6 +863,10 @@ export const useProjectCreationStore = defineStore('projectCreation', () => {
     }
   }
 
+  async function getDraftVersions(draftId: string): Promise<DraftVersion[]> {
+    return await draftManager.getDraftVersions(draftId)
+  }
+
   async function deleteDraft(draftId: string): Promise<void> {
     try {
       await draftManager.deleteDraft(draftId)
@@ -1018,16 +893,25 @@ export const useProjectCreationStore = defineStore('projectCreation', () => {
     }
   }
 
-  async function exportDraft(draftId: string, format: 'json' | 'compressed' | 'encrypted' = 'json'): Promise<string> {
+  async function exportDraft(
+    draftId: string,
+    format: 'json' | 'compressed' | 'encrypted' = 'json',
+    passphrase?: string
+  ): Promise<string> {
     return await draftManager.exportDraft(draftId, {
       format,
       includeVersions: true,
-      includeMetadata: true
+      includeMetadata: true,
+      passphrase
     })
   }
 
-  async function importDraft(data: string, format: 'json' | 'compressed' | 'encrypted' = 'json'): Promise<string> {
-    const draftId = await draftManager.importDraft(data, format)
+  async function importDraft(
+    data: string,
+    format: 'json' | 'compressed' | 'encrypted' = 'json',
+    passphrase?: string
+  ): Promise<string> {
+    const draftId = await draftManager.importDraft(data, format, { passphrase })
     await refreshDraftsList()
     return draftId
   }
@@ -1069,6 +953,8 @@ export const useProjectCreationStore = defineStore('projectCreation', () => {
     execution.status = 'preparing'
     execution.progress = 0
     execution.message = 'Preparing project creation...'
+    execution.steps = []
+    execution.rollbackStatus = undefined
 
     try {
       if (execOptions.validateBeforeExecution) {
@@ -1078,68 +964,221 @@ export const useProjectCreationStore = defineStore('projectCreation', () => {
         }
       }
 
-      execution.status = 'executing'
-      execution.message = 'Creating project...'
+      // The execution journal lives on the draft, so creation always needs a saved draft
+      const draftId = draft.currentDraftId || await saveDraftToStorage()
 
-      // Simulate API call with progress updates
-      for (let i = 0; i <= 100; i += 10) {
-        execution.progress = i
-        execution.message = `Creating project... ${i}%`
-        await new Promise(resolve => setTimeout(resolve, 200))
-      }
+      // Run the saga against a snapshot so edits made while it runs cannot leak into the API calls
+      const snapshot: NewProjectFormData = JSON.parse(JSON.stringify(newFormData))
+      const saga = new ProjectCreationSaga(apiClient, { requestTimeout: execOptions.timeout })
+      return await runSaga(draftId, (callbacks, cancelToken) => saga.execute(snapshot, callbacks, cancelToken))
+    } catch (error) {
+      failExecution(error as Error)
+      throw error
+    }
+  }
 
-      const result: ProjectCreationResult = {
-        projectId: `project-${Date.now()}`,
-        status: 'created',
-        url: `https://example.com/projects/project-${Date.now()}`,
-        metadata: {
-          createdAt: Date.now(),
-          duration: 2000,
-          steps: [
-            {
-              name: 'Validation',
-              status: 'completed',
-              startTime: Date.now() - 2000,
-              endTime: Date.now() - 1800,
-              duration: 200,
-              message: 'Form validation completed'
-            },
-            {
-              name: 'Project Creation',
-              status: 'completed',
-              startTime: Date.now() - 1800,
-              endTime: Date.now(),
-              duration: 1800,
-              message: 'Project created successfully'
-            }
-          ]
+  /**
+   * Dry run: build the list of API calls executeProject would make, without sending any of them
+   */
+  async function planExecution(): Promise<ExecutionPlan> {
+    const snapshot: NewProjectFormData = JSON.parse(JSON.stringify(newFormData))
+    const saga = new ProjectCreationSaga(apiClient)
+
+    execution.plan = await saga.plan(snapshot)
+    return execution.plan
+  }
+
+  function exportExecutionPlan(): string {
+    if (!execution.plan) {
+      throw new Error('No execution plan to export')
+    }
+
+    return JSON.stringify({
+      project: newFormData.generalInfo.name,
+      ...execution.plan
+    }, null, 2)
+  }
+
+  async function resumeExecution(
+    options: Partial<ExecutionOptions> = {}
+  ): Promise<ProjectCreationResult> {
+    const draftId = draft.currentDraftId
+    if (!execution.journal || !draftId) {
+      throw new Error('No interrupted project creation to resume')
+    }
+
+    const journal: ExecutionJournal = JSON.parse(JSON.stringify(execution.journal))
+
+    execution.status = 'preparing'
+    execution.progress = 0
+    execution.message = 'Resuming project creation...'
+    execution.rollbackStatus = undefined
+
+    try {
+      const saga = new ProjectCreationSaga(apiClient, { requestTimeout: options.timeout || config.defaultTimeout })
+      return await runSaga(draftId, (callbacks, cancelToken) => saga.resume(journal, callbacks, cancelToken))
+    } catch (error) {
+      failExecution(error as Error)
+      throw error
+    }
+  }
+
+  async function discardExecutionJournal(): Promise<void> {
+    if (draft.currentDraftId) {
+      await draftManager.clearExecutionJournal(draft.currentDraftId)
+    }
+    execution.journal = null
+    execution.steps = []
+    execution.message = ''
+  }
+
+  /**
+   * Roll back the resources created by a cancelled or interrupted run
+   */
+  async function rollbackExecution(): Promise<RollbackOutcome> {
+    const draftId = draft.currentDraftId
+    if (!execution.journal || !draftId) {
+      throw new Error('No project creation to roll back')
+    }
+
+    const journal: ExecutionJournal = JSON.parse(JSON.stringify(execution.journal))
+    const saga = new ProjectCreationSaga(apiClient, { requestTimeout: config.defaultTimeout })
+
+    // An interrupted run is shown as cancelled, so the rollback outcome stays on screen once the journal is gone
+    if (execution.status === 'idle') {
+      execution.status = 'cancelled'
+    }
+    execution.progress = 0
+    execution.message = 'Rolling back created resources...'
+
+    try {
+      const outcome = await saga.rollback(journal, {
+        onStepUpdate: steps => {
+          execution.steps = steps
+        },
+        onProgress: event => {
+          execution.progress = event.progress
+          execution.message = event.message
+        },
+        onRollbackStatus: status => {
+          execution.rollbackStatus = status
         }
-      }
+      })
+
+      execution.progress = 100
+      execution.message = {
+        rolled_back: 'Created resources were rolled back',
+        manual_cleanup_required: 'Created resources were rolled back; some must be removed manually',
+        rollback_failed: 'Some resources could not be rolled back automatically'
+      }[outcome]
+      return outcome
+    } finally {
+      // Whatever could not be undone is listed in the failed or manual rollback steps, so the journal is no longer needed
+      execution.journal = null
+      await draftManager.clearExecutionJournal(draftId)
+    }
+  }
+
+  /**
+   * Run a saga while journaling its progress against the draft
+   * The journal is dropped once the run settles, except after cancellation so the run can be resumed or rolled back
+   */
+  async function runSaga(
+    draftId: string,
+    run: (callbacks: SagaCallbacks, cancelToken: CancellationToken) => Promise<ProjectCreationResult>
+  ): Promise<ProjectCreationResult> {
+    // Serialize journal writes so a late write cannot resurrect a journal that was already cleared
+    let journalWrite: Promise<void> = Promise.resolve()
+    const persistJournal = (write: () => Promise<void>) => {
+      journalWrite = journalWrite
+        .then(write)
+        .catch(error => console.warn('Failed to persist execution journal:', error))
+      return journalWrite
+    }
+
+    const clearJournal = () => {
+      execution.journal = null
+      return persistJournal(() => draftManager.clearExecutionJournal(draftId))
+    }
+
+    cancellationSource = createCancellationTokenSource()
+    const cancelToken = cancellationSource.token
+
+    execution.status = 'executing'
+    execution.message = 'Creating project...'
+
+    try {
+      const result = await run({
+        onStepUpdate: steps => {
+          execution.steps = steps
+        },
+        onProgress: event => {
+          execution.progress = event.progress
+          execution.message = event.message
+        },
+        onRollbackStatus: status => {
+          execution.rollbackStatus = status
+        },
+        onJournalUpdate: journal => {
+          execution.journal = journal
+          persistJournal(() => draftManager.saveExecutionJournal(draftId, journal))
+        }
+      }, cancelToken)
 
       execution.status = 'success'
       execution.result = result
       execution.message = 'Project created successfully!'
 
+      await clearJournal()
       return result
     } catch (error) {
-      execution.status = 'error'
-      execution.error = error as Error
-      execution.message = `Failed to create project: ${(error as Error).message}`
+      if (error instanceof SagaCancelledError) {
+        // Persist the journal as of the cancel, including compensations of the step that was interrupted
+        const { journal } = error
+        execution.journal = journal
+        await persistJournal(() => draftManager.saveExecutionJournal(draftId, journal))
+      } else {
+        await clearJournal()
+      }
       throw error
+    } finally {
+      cancellationSource = null
+    }
+  }
+
+  function failExecution(error: Error): void {
+    if (error instanceof SagaCancelledError) {
+      execution.status = 'cancelled'
+      execution.result = error.result
+      execution.message = 'Project creation cancelled'
+      return
+    }
+
+    execution.status = 'error'
+    execution.error = error
+    execution.message = `Failed to create project: ${error.message}`
+    if (error instanceof SagaExecutionError) {
+      execution.result = error.result
     }
   }
 
   function cancelExecution(): void {
-    execution.status = 'cancelled'
-    execution.message = 'Project creation cancelled'
+    if (!cancellationSource) return
+
+    // The run settles as cancelled once the in-flight request has been aborted
+    cancellationSource.cancel('Cancelled by user')
+    execution.message = 'Cancelling project creation...'
   }
 
   function clearExecutionResult(): void {
     execution.status = 'idle'
     execution.progress = 0
     execution.message = ''
+    execution.steps = []
+    execution.rollbackStatus = undefined
     execution.result = undefined
     execution.error = undefined
+    execution.plan = null
   }
 
   // =============================================================================
@@ -1184,6 +1223,20 @@ export const useProjectCreationStore = defineStore('projectCreation', () => {
       // Get storage info
       draft.storageInfo = await draftManager.getStorageInfo()
 
+      // Reopen a creation run interrupted by a refresh or crash on the review step so it can be resumed
+      const interrupted = await draftManager.findInterruptedExecution()
+      if (interrupted) {
+        await loadDraft(interrupted.draftId)
+        navigation.currentStep = visibleSteps.value[visibleSteps.value.length - 1].id
+        updateNavigationState()
+        execution.message = 'A previous project creation was interrupted'
+      }
+
+      // Watch for other tabs saving the draft this tab is editing
+      unsubscribeDraftChanges = draftManager.onDraftChange(() => {
+        checkForRemoteChanges()
+      })
+
       // Initialize auto-save if enabled
       if (draft.autoSaveEnabled) {
         scheduleAutoSave()
@@ -1198,6 +1251,9 @@ export const useProjectCreationStore = defineStore('projectCreation', () => {
 
   function cleanupStore(): void {
     clearAutoSave()
+    uniquenessValidator.reset()
+    unsubscribeDraftChanges?.()
+    unsubscribeDraftChanges = null
     console.log('Project Creation Store cleaned up')
   }
 
@@ -1242,10 +1298,13 @@ export const useProjectCreationStore = defineStore('projectCreation', () => {
     validateCurrentStep,
     validateForm,
     getStepValidation,
+    getUniquenessResult,
 
     // Enhanced Draft actions
     saveDraftToStorage,
     loadDraft,
+    getDraftVersions,
+    resolveDraftConflict,
     deleteDraft,
     getDraftsFromStorage,
     refreshDraftsList,
@@ -1257,6 +1316,11 @@ export const useProjectCreationStore = defineStore('projectCreation', () => {
 
     // Execution actions
     executeProject,
+    planExecution,
+    exportExecutionPlan,
+    resumeExecution,
+    rollbackExecution,
+    discardExecutionJournal,
     cancelExecution,
     clearExecutionResult,
 
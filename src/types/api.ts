@@ -73,6 +73,10 @@ export interface ApiRequestConfig<TData = any> {
   responseType?: 'json' | 'text' | 'blob' | 'arraybuffer';
   /** Custom request metadata */
   metadata?: Record<string, any>;
+  /** Token that aborts the request when cancellation is requested */
+  cancelToken?: CancellationToken;
+  /** Upload progress callback (0-100); when set the request is sent with XMLHttpRequest instead of fetch */
+  onUploadProgress?: (progress: number) => void;
 }
 
 /**
@@ -112,7 +116,7 @@ export interface FileUploadConfig {
   fieldName: string;
   /** Additional form data */
   formData?: Record<string, string | number>;
-  /** Upload progress callback */
+  /** Upload progress callback, with the percentage of the request body sent (0-100) */
   onProgress?: (progress: number) => void;
   /** Allowed file types */
   allowedTypes?: string[];
@@ -148,6 +152,8 @@ export interface HttpClientConfig {
   authConfig?: AuthConfig;
   /** Logging configuration */
   loggingConfig?: LoggingConfig;
+  /** Performance monitoring configuration */
+  performanceConfig?: Partial<PerformanceMonitorConfig>;
 }
 
 /**
@@ -215,6 +221,7 @@ export type ApiErrorType =
   | 'authorization'
   | 'not_found'
   | 'server'
+  | 'queue_full'
   | 'unknown';
 
 /**
@@ -408,8 +415,8 @@ export interface CancellationToken {
   reason?: string;
   /** Cancel the request */
   cancel: (reason?: string) => void;
-  /** Register cancellation callback */
-  onCancelled: (callback: (reason?: string) => void) => void;
+  /** Register cancellation callback; returns a function that removes it again */
+  onCancelled: (callback: (reason?: string) => void) => () => void;
 }
 
 /**
@@ -570,10 +577,14 @@ export interface LoggingConfig {
   logResponses: boolean;
   /** Whether to log errors */
   logErrors: boolean;
-  /** Whether to log performance metrics */
+  /** Whether to log the timings of every request; slow requests are logged as warnings regardless */
   logPerformance: boolean;
+  /** Whether entries without a `customLogger` are written to the console (default: true); off keeps them in the buffer only */
+  writeToConsole?: boolean;
   /** Custom logger function */
   customLogger?: (level: LogLevel, message: string, data?: any) => void;
+  /** Number of recent entries kept in memory for export (default: 200) */
+  maxEntries?: number;
 }
 
 /**
@@ -620,6 +631,16 @@ export interface PerformanceMetrics {
   requestSize?: number;
   /** Cache hit/miss */
   cacheStatus?: 'hit' | 'miss' | 'stale';
+  /** Normalized endpoint, e.g. `GET /api/v1/dbt/projects/:id` */
+  endpoint?: string;
+  /** HTTP status code, when a response was received */
+  status?: number;
+  /** Whether the request failed */
+  failed?: boolean;
+  /** Time spent on the network for the final attempt, from Resource Timing */
+  networkTime?: number;
+  /** Time spent in the client outside the final network call (queueing, interceptors, retries, parsing) */
+  clientOverhead?: number;
 }
 
 /**
@@ -656,6 +677,36 @@ export interface PerformanceStats {
   errorRate: number;
 }
 
+/**
+ * Performance statistics for a single endpoint
+ */
+export interface EndpointPerformanceStats extends PerformanceStats {
+  /** Normalized endpoint, e.g. `GET /api/v1/dbt/projects/:id` */
+  endpoint: string;
+  /** Average time to first byte, where Resource Timing was available */
+  averageTimeToFirstByte?: number;
+  /** Average client overhead, where Resource Timing was available */
+  averageClientOverhead?: number;
+  /** Number of requests slower than the slow request threshold */
+  slowRequests: number;
+  /** Timestamp of the most recent measurement */
+  lastMeasuredAt: number;
+}
+
+/**
+ * Performance monitor configuration
+ */
+export interface PerformanceMonitorConfig {
+  /** Whether requests are measured */
+  enabled: boolean;
+  /** Number of recent measurements kept for statistics */
+  maxSamples: number;
+  /** Duration in milliseconds above which a request is reported as slow */
+  slowRequestThreshold: number;
+  /** Called for every slow request */
+  onSlowRequest?: (metrics: PerformanceMetrics) => void;
+}
+
 // =============================================================================
 // HTTP Client Interface
 // =============================================================================
@@ -466,6 +466,8 @@ export interface ValidationError {
   message: string
   code: string
   severity: 'error' | 'critical'
+  /** Wizard step the field belongs to, i.e. where the error is fixed */
+  step?: number
 }
 
 /**
@@ -475,6 +477,8 @@ export interface ValidationWarning {
   field: string
   message: string
   code: string
+  /** Wizard step the field belongs to */
+  step?: number
 }
 
 /**
@@ -579,6 +583,10 @@ export interface DraftRestorationOptions {
   restoreFormData: boolean
   restoreStepPosition: boolean
   mergeWithCurrent: boolean
+  /** Restore this saved version instead of the latest one */
+  versionId?: string
+  /** Restore only these form sections; all sections when omitted */
+  sections?: (keyof NewProjectFormData)[]
 }
 
 // =============================================================================
@@ -614,7 +622,8 @@ export interface ProgressEvent {
  */
 export interface ExecutionStep {
   name: string
-  status: 'pending' | 'running' | 'completed' | 'failed'
+  /** 'manual_cleanup' marks a rollback step the proxy cannot undo; `message` says what to remove by hand */
+  status: 'pending' | 'running' | 'completed' | 'failed' | 'manual_cleanup'
   startTime?: number
   endTime?: number
   duration?: number
@@ -622,6 +631,12 @@ export interface ExecutionStep {
   error?: string
 }
 
+/**
+ * Outcome of the compensating actions run after a failed execution
+ * 'manual_cleanup_required' means every automatic compensation succeeded but some resources must be removed by hand.
+ */
+export type RollbackStatus = 'rolling_back' | 'rolled_back' | 'manual_cleanup_required' | 'rollback_failed'
+
 /**
  * Project creation result
  */
@@ -643,6 +658,8 @@ export interface ExecutionState {
   status: ExecutionStatus
   progress: number
   message: string
+  steps: ExecutionStep[]
+  rollbackStatus?: RollbackStatus
   result?: ProjectCreationResult
   error?: Error
 }
@@ -2,6 +2,7 @@ import { defineConfig } from 'vite'
 import vue from '@vitejs/plugin-vue'
 import vuetify from 'vite-plugin-vuetify'
 import { fileURLToPath, URL } from 'node:url'
+import { mockBackendPlugin } from './scripts/mock-backend.mjs'
 
 // https://vitejs.dev/config/
 export default defineConfig({
@@ -10,6 +11,8 @@ export default defineConfig({
     vuetify({
       autoImport: true,
     }),
+    // Serves the proxy API from architecture/backend-spec/openapi.json with `vite --mode mock`
+    mockBackendPlugin(),
   ],
   resolve: {
     alias: {